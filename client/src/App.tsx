@@ -15,11 +15,14 @@ const CartPage = lazy(() => import("@/pages/cart"));
 const CheckoutPage = lazy(() => import("@/pages/checkout"));
 const AboutPage = lazy(() => import("@/pages/about"));
 const ReservationPage = lazy(() => import("@/pages/reservation"));
+const ManageReservationPage = lazy(() => import("@/pages/manage-reservation"));
 const ContactPage = lazy(() => import("@/pages/contact"));
 const LoginPage = lazy(() => import("@/pages/login"));
 const SignupPage = lazy(() => import("@/pages/signup"));
 const AuthCallbackPage = lazy(() => import("@/pages/auth-callback"));
 const DashboardPage = lazy(() => import("@/pages/dashboard"));
+const TrackOrderPage = lazy(() => import("@/pages/track-order"));
+const WaitlistPage = lazy(() => import("@/pages/waitlist"));
 const NotFound = lazy(() => import("@/pages/not-found"));
 
 function PageLoader() {
@@ -40,11 +43,14 @@ function Router() {
         <Route path="/checkout" component={CheckoutPage} />
         <Route path="/about" component={AboutPage} />
         <Route path="/reservations" component={ReservationPage} />
+        <Route path="/reservations/manage/:token" component={ManageReservationPage} />
         <Route path="/contact" component={ContactPage} />
         <Route path="/login" component={LoginPage} />
         <Route path="/signup" component={SignupPage} />
         <Route path="/auth/callback" component={AuthCallbackPage} />
         <Route path="/dashboard" component={DashboardPage} />
+        <Route path="/track/:token" component={TrackOrderPage} />
+        <Route path="/waitlist/:token" component={WaitlistPage} />
         <Route component={NotFound} />
       </Switch>
     </Suspense>
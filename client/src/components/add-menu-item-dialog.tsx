@@ -24,6 +24,8 @@ import { Plus, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useImageUpload } from '@/hooks/useImageUpload';
 import { useAuth } from '@/contexts/auth-context';
+import { OptionGroupsEditor } from '@/components/option-groups-editor';
+import type { MenuOptionGroup } from '@shared/schema';
 
 interface Category {
   id: string;
@@ -53,10 +55,12 @@ export function AddMenuItemDialog({ onSuccess }: { onSuccess: () => void }) {
     description: '',
     price: '',
     deliveryFee: '',
+    prepMinutes: '',
     categoryId: '',
     available: true,
     popular: false,
   });
+  const [optionGroups, setOptionGroups] = useState<MenuOptionGroup[]>([]);
 
   useEffect(() => {
     if (open) {
@@ -97,6 +101,7 @@ export function AddMenuItemDialog({ onSuccess }: { onSuccess: () => void }) {
         },
         body: JSON.stringify({
           ...formData,
+          optionGroups,
           imageUrl: imageUrl || null,
           deliveryFee: formData.deliveryFee || '0',
         }),
@@ -137,10 +142,12 @@ export function AddMenuItemDialog({ onSuccess }: { onSuccess: () => void }) {
       description: '',
       price: '',
       deliveryFee: '',
+      prepMinutes: '',
       categoryId: '',
       available: true,
       popular: false,
     });
+    setOptionGroups([]);
     clearSelection();
   };
 
@@ -234,6 +241,22 @@ export function AddMenuItemDialog({ onSuccess }: { onSuccess: () => void }) {
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="prepMinutes">Prep Time (minutes)</Label>
+            <Input
+              id="prepMinutes"
+              type="number"
+              step="1"
+              min="1"
+              value={formData.prepMinutes}
+              onChange={(e) => setFormData({ ...formData, prepMinutes: e.target.value })}
+              placeholder="20"
+            />
+            <p className="text-xs text-muted-foreground">Used to tell customers when their order will be ready</p>
+          </div>
+
+          <OptionGroupsEditor value={optionGroups} onChange={setOptionGroups} />
+
           <div className="space-y-2">
             <Label htmlFor="image">Item Image</Label>
 
@@ -0,0 +1,251 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { describeError } from '@/lib/api-error';
+import { CommuneSelect } from '@/components/commune-select';
+import { Edit, MapPin, Plus, Trash2 } from 'lucide-react';
+import { formatCustomerAddress } from '@shared/customer-address';
+import type { CustomerAddress } from '@shared/schema';
+
+interface AddressForm {
+  label: string;
+  wilaya: string;
+  commune: string;
+  street: string;
+  building: string;
+  floor: string;
+  landmark: string;
+  lat: number | null;
+  lng: number | null;
+}
+
+const emptyAddressForm: AddressForm = {
+  label: '',
+  wilaya: '',
+  commune: '',
+  street: '',
+  building: '',
+  floor: '',
+  landmark: '',
+  lat: null,
+  lng: null,
+};
+
+// The signed-in customer's saved delivery addresses, picked from at checkout
+export function AddressBook() {
+  const [addresses, setAddresses] = useState<CustomerAddress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AddressForm>(emptyAddressForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchAddresses();
+  }, []);
+
+  const fetchAddresses = async () => {
+    try {
+      const response = await fetch('/api/me/addresses', { credentials: 'include' });
+      if (response.ok) {
+        setAddresses(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch addresses:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (address?: CustomerAddress) => {
+    setEditingId(address?.id ?? null);
+    setForm(address ? {
+      label: address.label,
+      wilaya: address.wilaya ?? '',
+      commune: address.commune ?? '',
+      // Older addresses kept the district apart; it now goes on the street line
+      street: [address.street, address.district].filter(Boolean).join(', '),
+      building: address.building ?? '',
+      floor: address.floor ?? '',
+      landmark: address.landmark ?? '',
+      lat: address.lat,
+      lng: address.lng,
+    } : emptyAddressForm);
+    setDialogOpen(true);
+  };
+
+  const captureLocation = () => {
+    if (!navigator.geolocation) return;
+    navigator.geolocation.getCurrentPosition(
+      (position) => setForm(current => ({ ...current, lat: position.coords.latitude, lng: position.coords.longitude })),
+      () => toast({ title: 'Location error', description: 'Unable to get your location', variant: 'destructive' }),
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(editingId ? `/api/me/addresses/${editingId}` : '/api/me/addresses', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          ...form,
+          district: null,
+          building: form.building.trim() || null,
+          floor: form.floor.trim() || null,
+          landmark: form.landmark.trim() || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Error', description: describeError(data, 'Failed to save address'), variant: 'destructive' });
+        return;
+      }
+      setDialogOpen(false);
+      fetchAddresses();
+    } catch (error) {
+      console.error('Failed to save address:', error);
+      toast({ title: 'Error', description: 'Failed to save address', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this address?')) return;
+    try {
+      const response = await fetch(`/api/me/addresses/${id}`, { method: 'DELETE', credentials: 'include' });
+      if (response.ok) {
+        setAddresses(addresses.filter(address => address.id !== id));
+      } else {
+        toast({ title: 'Error', description: 'Failed to delete address', variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Failed to delete address:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>My Addresses</CardTitle>
+          <CardDescription>Pick one at checkout instead of typing it again</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog()}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Address
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center text-muted-foreground">Loading...</p>
+        ) : addresses.length === 0 ? (
+          <p className="text-center text-muted-foreground">No saved addresses yet</p>
+        ) : (
+          <div className="space-y-3">
+            {addresses.map(address => (
+              <div key={address.id} className="flex justify-between items-start p-4 border rounded-lg">
+                <div>
+                  <p className="font-medium">{address.label}</p>
+                  <p className="text-sm text-muted-foreground">{formatCustomerAddress(address)}</p>
+                  {address.lat != null && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                      <MapPin className="w-3 h-3" /> Location saved
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => openDialog(address)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(address.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Address' : 'New Address'}</DialogTitle>
+            <DialogDescription>Sharing your location helps the livreur find the door</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="address-label">Label</Label>
+              <Input
+                id="address-label"
+                placeholder="Home, Office..."
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+              />
+            </div>
+            <CommuneSelect
+              wilaya={form.wilaya}
+              commune={form.commune}
+              onChange={({ wilaya, commune }) => setForm({ ...form, wilaya, commune })}
+            />
+            <div className="space-y-2">
+              <Label htmlFor="address-street">District / Cité / Street</Label>
+              <Input
+                id="address-street"
+                placeholder="Cité 500 Logements"
+                value={form.street}
+                onChange={(e) => setForm({ ...form, street: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="address-building">Building</Label>
+                <Input
+                  id="address-building"
+                  placeholder="Bt 12, entrée B"
+                  value={form.building}
+                  onChange={(e) => setForm({ ...form, building: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="address-floor">Floor</Label>
+                <Input
+                  id="address-floor"
+                  value={form.floor}
+                  onChange={(e) => setForm({ ...form, floor: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="address-landmark">Landmark</Label>
+              <Input
+                id="address-landmark"
+                placeholder="e.g. Blue gate next to the pharmacy"
+                value={form.landmark}
+                onChange={(e) => setForm({ ...form, landmark: e.target.value })}
+              />
+            </div>
+            <Button type="button" variant="outline" className="w-full" onClick={captureLocation}>
+              <MapPin className="w-4 h-4 mr-2" />
+              {form.lat != null ? 'Location Captured ✓' : 'Use My Current Location'}
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving || !form.label.trim() || !form.street.trim() || !form.commune}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { RefreshCw, Wallet } from 'lucide-react';
+import type { CashBalance, CashReport } from '@shared/cash-settlement';
+
+const formatTime = (value: string | Date) =>
+  new Date(value).toLocaleString([], { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const discrepancyClass = (amount: string) =>
+  parseFloat(amount) < 0 ? 'text-red-600' : parseFloat(amount) > 0 ? 'text-amber-600' : 'text-muted-foreground';
+
+// Orders of one shift with what was due, what the livreur says they took, and the gap
+function CashReportTable({ report }: { report: CashReport }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left">
+            <th className="p-2">Order</th>
+            <th className="p-2">Delivered</th>
+            <th className="p-2 text-right">Expected</th>
+            <th className="p-2 text-right">Collected</th>
+            <th className="p-2 text-right">Difference</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.lines.map(line => (
+            <tr key={line.orderId} className="border-b align-top">
+              <td className="p-2">
+                <p className="font-mono">#{line.reference}</p>
+                <p className="text-muted-foreground">{line.customerName}</p>
+                {line.note && <p className="italic text-muted-foreground">{line.note}</p>}
+              </td>
+              <td className="p-2">{formatTime(line.deliveredAt)}</td>
+              <td className="p-2 text-right">{line.expected}</td>
+              <td className="p-2 text-right">{line.collected}</td>
+              <td className={`p-2 text-right ${discrepancyClass(line.difference)}`}>{line.difference}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="font-semibold">
+            <td className="p-2" colSpan={2}>Total</td>
+            <td className="p-2 text-right">{report.expected}</td>
+            <td className="p-2 text-right">{report.collected}</td>
+            <td className={`p-2 text-right ${discrepancyClass(report.discrepancy)}`}>{report.discrepancy}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
+
+// Cash in hand per livreur, the end-of-shift hand-in, and past shift reports
+export function CashSettlementsManager() {
+  const [balances, setBalances] = useState<CashBalance[]>([]);
+  const [settlements, setSettlements] = useState<CashReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openShift, setOpenShift] = useState<CashReport | null>(null);
+  const [handedIn, setHandedIn] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [viewedReport, setViewedReport] = useState<CashReport | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchCash();
+  }, []);
+
+  const fetchCash = async () => {
+    try {
+      const [balancesResponse, settlementsResponse] = await Promise.all([
+        fetch('/api/cash/balances', { credentials: 'include' }),
+        fetch('/api/cash/settlements', { credentials: 'include' }),
+      ]);
+      if (balancesResponse.ok && settlementsResponse.ok) {
+        setBalances(await balancesResponse.json());
+        setSettlements(await settlementsResponse.json());
+      } else {
+        toast({ title: 'Error', description: 'Failed to load cash balances', variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Failed to fetch cash balances:', error);
+      toast({ title: 'Error', description: 'Failed to load cash balances', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openSettlement = async (livreurId: number) => {
+    try {
+      const response = await fetch(`/api/cash/livreurs/${livreurId}`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Error', description: data.error || 'Failed to load the shift', variant: 'destructive' });
+        return;
+      }
+      setOpenShift(data);
+      setHandedIn(data.collected);
+      setNote('');
+    } catch (error) {
+      console.error('Failed to fetch cash report:', error);
+      toast({ title: 'Error', description: 'Failed to load the shift', variant: 'destructive' });
+    }
+  };
+
+  const handleSettle = async () => {
+    if (!openShift) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/cash/livreurs/${openShift.livreurId}/settle`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ handedInAmount: handedIn, note: note.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Error', description: data.error || 'Failed to settle cash', variant: 'destructive' });
+        return;
+      }
+      setOpenShift(null);
+      setViewedReport(data);
+      toast({ title: 'Success', description: `Settled ${data.lines.length} orders for ${data.livreurName}` });
+      fetchCash();
+    } catch (error) {
+      console.error('Failed to settle cash:', error);
+      toast({ title: 'Error', description: 'Failed to settle cash', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handInGap = openShift ? parseFloat(handedIn || '0') - parseFloat(openShift.collected) : 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Cash on Delivery</CardTitle>
+          <CardDescription>Cash each livreur is holding, settled at the end of their shift</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchCash}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-center text-muted-foreground">Loading cash balances...</p>
+        ) : balances.length === 0 ? (
+          <p className="text-center text-muted-foreground">No livreurs yet</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {balances.map(balance => (
+              <div key={balance.livreurId} className="border rounded-lg p-4 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Wallet className="w-4 h-4 text-muted-foreground" />
+                  <p className="font-semibold">{balance.livreurName}</p>
+                </div>
+                <p className="text-2xl font-bold">{balance.cashInHand} DZD</p>
+                <p className="text-sm text-muted-foreground">
+                  {balance.orderCount} order{balance.orderCount === 1 ? '' : 's'} since the last settlement
+                </p>
+                <Button
+                  size="sm"
+                  className="w-full"
+                  disabled={balance.orderCount === 0}
+                  onClick={() => openSettlement(balance.livreurId)}
+                >
+                  Settle Shift
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <h3 className="font-semibold mb-2">Shift Reports</h3>
+          {settlements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No settlements yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="p-2">Livreur</th>
+                    <th className="p-2">Shift</th>
+                    <th className="p-2 text-right">Expected</th>
+                    <th className="p-2 text-right">Collected</th>
+                    <th className="p-2 text-right">Handed In</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {settlements.map(report => (
+                    <tr key={report.settlement!.id} className="border-b">
+                      <td className="p-2">{report.livreurName}</td>
+                      <td className="p-2">
+                        {report.shiftStart && formatTime(report.shiftStart)} – {report.shiftEnd && formatTime(report.shiftEnd)}
+                      </td>
+                      <td className="p-2 text-right">{report.settlement!.expectedAmount}</td>
+                      <td className={`p-2 text-right ${discrepancyClass(report.discrepancy)}`}>{report.settlement!.collectedAmount}</td>
+                      <td className="p-2 text-right">{report.settlement!.handedInAmount}</td>
+                      <td className="p-2 text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setViewedReport(report)}>View</Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={openShift !== null} onOpenChange={(open) => !open && setOpenShift(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Settle {openShift?.livreurName}'s Shift</DialogTitle>
+            <DialogDescription>
+              Count the cash handed in. Every order below is closed by this settlement.
+            </DialogDescription>
+          </DialogHeader>
+          {openShift && (
+            <div className="space-y-4">
+              <CashReportTable report={openShift} />
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="cash-handed-in">Handed In (DZD)</Label>
+                  <Input
+                    id="cash-handed-in"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={handedIn}
+                    onChange={(e) => setHandedIn(e.target.value)}
+                  />
+                  {handInGap !== 0 && (
+                    <p className={`text-xs ${discrepancyClass(handInGap.toFixed(2))}`}>
+                      {handInGap.toFixed(2)} DZD against what the livreur recorded
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cash-settlement-note">Note</Label>
+                  <Input
+                    id="cash-settlement-note"
+                    maxLength={500}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpenShift(null)}>Cancel</Button>
+            <Button onClick={handleSettle} disabled={saving || handedIn.trim() === '' || parseFloat(handedIn) < 0}>
+              {saving ? 'Saving...' : 'Confirm Hand-in'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={viewedReport !== null} onOpenChange={(open) => !open && setViewedReport(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Shift Report · {viewedReport?.livreurName}</DialogTitle>
+            <DialogDescription>
+              {viewedReport?.shiftStart && formatTime(viewedReport.shiftStart)} – {viewedReport?.shiftEnd && formatTime(viewedReport.shiftEnd)}
+              {viewedReport?.settlement && ` · ${viewedReport.settlement.handedInAmount} DZD handed in`}
+            </DialogDescription>
+          </DialogHeader>
+          {viewedReport && <CashReportTable report={viewedReport} />}
+          {viewedReport?.settlement?.note && (
+            <p className="text-sm text-muted-foreground italic">{viewedReport.settlement.note}</p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -15,7 +15,8 @@ import {
 } from "@/components/ui/dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ShoppingCart, Info, ChevronLeft, ChevronRight, ArrowRight, Zap } from "lucide-react";
-import type { MenuItem, Category } from "@shared/schema";
+import { MenuItemOptionsPicker, useMenuItemOptions } from "@/components/menu-item-options";
+import type { MenuItem, Category, OrderItemOption } from "@shared/schema";
 import crepeImg from "@assets/generated_images/Chocolate_crepe_dessert_7dcc0141.png";
 import cheesecakeImg from "@assets/generated_images/Strawberry_cheesecake_slice_f00164f4.png";
 import donutImg from "@assets/generated_images/Colorful_glazed_donuts_99c8d4cb.png";
@@ -43,6 +44,7 @@ export function CategoryCarousel() {
   const { addItem } = useCart();
   const { toast } = useToast();
   const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
+  const itemOptions = useMenuItemOptions(selectedItem);
 
   const { data: categories, isLoading: categoriesLoading } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
@@ -83,8 +85,8 @@ export function CategoryCarousel() {
     (category) => getItemsByCategory(category.id).length > 0
   );
 
-  const handleAddToCart = (item: MenuItem) => {
-    addItem(item);
+  const handleAddToCart = (item: MenuItem, selectedOptions: OrderItemOption[] = []) => {
+    addItem(item, 1, selectedOptions);
     setSelectedItem(null);
     toast({
       title: "Item added to cart",
@@ -99,7 +101,7 @@ export function CategoryCarousel() {
   return (
     <>
       <Dialog open={!!selectedItem} onOpenChange={(open) => !open && setSelectedItem(null)}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{selectedItem?.name}</DialogTitle>
             <DialogDescription>Product Details</DialogDescription>
@@ -118,7 +120,7 @@ export function CategoryCarousel() {
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <span className="text-2xl font-bold text-primary">
-                    {selectedItem.price} DZD
+                    {itemOptions.unitPrice.toFixed(2)} DZD
                   </span>
                   {selectedItem.popular && (
                     <Badge variant="secondary">Popular</Badge>
@@ -128,8 +130,14 @@ export function CategoryCarousel() {
                   {selectedItem.description}
                 </p>
               </div>
-              <Button 
-                onClick={() => handleAddToCart(selectedItem)}
+              <MenuItemOptionsPicker
+                groups={selectedItem.optionGroups ?? []}
+                value={itemOptions.selections}
+                onChange={itemOptions.setSelections}
+              />
+              <Button
+                onClick={() => handleAddToCart(selectedItem, itemOptions.options)}
+                disabled={itemOptions.errors.length > 0}
                 className="w-full"
                 size="lg"
                 data-testid={`button-add-cart-dialog-${selectedItem.id}`}
@@ -259,7 +267,12 @@ export function CategoryCarousel() {
                                     <Button
                                       onClick={(e) => {
                                         e.stopPropagation();
-                                        handleAddToCart(item);
+                                        // Items with choices to make go through the details dialog
+                                        if (item.optionGroups?.length) {
+                                          handleViewDetails(item);
+                                        } else {
+                                          handleAddToCart(item);
+                                        }
                                       }}
                                       size="sm"
                                       className="flex-1"
@@ -0,0 +1,84 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CommuneReport as CommuneReportData } from '@shared/commune-report';
+
+const periods = [7, 30, 90, 365];
+
+// Where delivered orders went, per commune, over a chosen period
+export function CommuneReport() {
+  const [days, setDays] = useState('30');
+  const [report, setReport] = useState<CommuneReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/reports/communes?days=${days}`, { credentials: 'include' });
+        if (response.ok) {
+          setReport(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to fetch commune report:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchReport();
+  }, [days]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Deliveries by Commune</CardTitle>
+          <CardDescription>Delivered orders and revenue per commune</CardDescription>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map(period => (
+              <SelectItem key={period} value={String(period)}>Last {period} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center text-muted-foreground">Loading...</p>
+        ) : !report || report.lines.length === 0 ? (
+          <p className="text-center text-muted-foreground">No deliveries in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="p-2">Commune</th>
+                  <th className="p-2 text-right">Orders</th>
+                  <th className="p-2 text-right">Revenue (DZD)</th>
+                  <th className="p-2 text-right">Delivery Fees (DZD)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.lines.map(line => (
+                  <tr key={line.commune ?? 'none'} className="border-b">
+                    <td className="p-2">
+                      {line.communeName}
+                      {line.wilayaName && <span className="text-muted-foreground">, {line.wilayaName}</span>}
+                    </td>
+                    <td className="p-2 text-right">{line.orderCount}</td>
+                    <td className="p-2 text-right">{line.revenue}</td>
+                    <td className="p-2 text-right">{line.deliveryFees}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
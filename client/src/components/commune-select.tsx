@@ -0,0 +1,47 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { deliveryWilayas, getCommunes } from '@shared/algeria-locations';
+
+// Wilaya then commune, from the bundled reference list; changing the wilaya clears the commune
+export function CommuneSelect({
+  wilaya,
+  commune,
+  onChange,
+  idPrefix = 'address',
+}: {
+  wilaya: string;
+  commune: string;
+  onChange: (value: { wilaya: string; commune: string }) => void;
+  idPrefix?: string;
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-wilaya`}>Wilaya *</Label>
+        <Select value={wilaya} onValueChange={(value) => onChange({ wilaya: value, commune: '' })}>
+          <SelectTrigger id={`${idPrefix}-wilaya`} data-testid={`select-${idPrefix}-wilaya`}>
+            <SelectValue placeholder="Choose a wilaya" />
+          </SelectTrigger>
+          <SelectContent>
+            {deliveryWilayas.map(option => (
+              <SelectItem key={option.code} value={option.code}>{option.code} · {option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-commune`}>Commune *</Label>
+        <Select value={commune} onValueChange={(value) => onChange({ wilaya, commune: value })} disabled={!wilaya}>
+          <SelectTrigger id={`${idPrefix}-commune`} data-testid={`select-${idPrefix}-commune`}>
+            <SelectValue placeholder={wilaya ? 'Choose a commune' : 'Choose a wilaya first'} />
+          </SelectTrigger>
+          <SelectContent>
+            {getCommunes(wilaya).map(option => (
+              <SelectItem key={option.code} value={option.code}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Minus, Plus, Pencil, Trash2, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { describeError } from '@/lib/api-error';
+import { canCustomerModifyOrder } from '@shared/order-status';
+import type { OrderItem, OrderStatus } from '@shared/schema';
+
+type EditableItem = Pick<OrderItem, 'menuItemId' | 'name' | 'quantity' | 'unitPrice' | 'selectedOptions' | 'note'>;
+
+// Cancel / edit buttons for a customer's own pending order. `endpoint` is either
+// /api/orders/:id (signed-in client) or /api/orders/track/:token (guest).
+export function CustomerOrderActions({
+  endpoint,
+  status,
+  items,
+  notes,
+  onChanged,
+}: {
+  endpoint: string;
+  status: OrderStatus;
+  items: EditableItem[];
+  notes: string | null;
+  onChanged: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draftItems, setDraftItems] = useState<EditableItem[]>(items);
+  const [draftNotes, setDraftNotes] = useState(notes ?? '');
+  const { toast } = useToast();
+
+  if (!canCustomerModifyOrder(status)) return null;
+
+  const sendChange = async (change: Record<string, unknown>) => {
+    setSaving(true);
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(change),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast({
+          title: "Error",
+          description: describeError(data, "Failed to update order"),
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      onChanged();
+      return true;
+    } catch (error) {
+      console.error('Failed to update order:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update order",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm('Cancel this order?')) return;
+    if (await sendChange({ status: 'cancelled' })) {
+      toast({ title: "Order cancelled", description: "The restaurant has been notified." });
+    }
+  };
+
+  const handleSave = async () => {
+    const saved = await sendChange({
+      items: draftItems.map(item => ({
+        menuItemId: item.menuItemId,
+        name: item.name,
+        price: item.unitPrice,
+        quantity: item.quantity,
+        selectedOptions: item.selectedOptions.map(o => ({ groupId: o.groupId, optionId: o.optionId })),
+        note: item.note ?? undefined,
+      })),
+      notes: draftNotes.trim() || null,
+    });
+    if (saved) {
+      setOpen(false);
+      toast({ title: "Order updated", description: "The restaurant has been notified." });
+    }
+  };
+
+  const updateQuantity = (index: number, quantity: number) => {
+    setDraftItems(current =>
+      quantity <= 0
+        ? current.filter((_, i) => i !== index)
+        : current.map((item, i) => (i === index ? { ...item, quantity } : item))
+    );
+  };
+
+  const draftTotal = draftItems.reduce((sum, item) => sum + parseFloat(item.unitPrice) * item.quantity, 0);
+
+  return (
+    <div className="flex gap-2">
+      <Dialog
+        open={open}
+        onOpenChange={(value) => {
+          setOpen(value);
+          if (value) {
+            setDraftItems(items);
+            setDraftNotes(notes ?? '');
+          }
+        }}
+      >
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" disabled={saving}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit Order
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Order</DialogTitle>
+            <DialogDescription>
+              You can change your order until the restaurant confirms it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {draftItems.map((item, index) => (
+              <div key={index} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium">{item.name}</p>
+                  {item.selectedOptions.length > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {item.selectedOptions.map(o => o.optionName).join(', ')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => updateQuantity(index, item.quantity - 1)}>
+                    {item.quantity === 1 ? <Trash2 className="w-3 h-3" /> : <Minus className="w-3 h-3" />}
+                  </Button>
+                  <span className="w-8 text-center">{item.quantity}</span>
+                  <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => updateQuantity(index, item.quantity + 1)}>
+                    <Plus className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {draftItems.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Your order has no items left. Cancel the order instead.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="order-notes">Notes</Label>
+              <Textarea
+                id="order-notes"
+                value={draftNotes}
+                onChange={(e) => setDraftNotes(e.target.value)}
+                rows={3}
+              />
+            </div>
+            <p className="text-right font-semibold">Items: {draftTotal.toFixed(2)} DZD</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+              Close
+            </Button>
+            <Button onClick={handleSave} disabled={saving || draftItems.length === 0}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <Button variant="destructive" size="sm" onClick={handleCancel} disabled={saving}>
+        <XCircle className="w-4 h-4 mr-2" />
+        Cancel Order
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Route } from 'lucide-react';
+import type { DeliveryBatch } from '@shared/delivery-batching';
+
+// Ready orders turn up without reaching the livreur's order stream, so poll as well
+const REFRESH_MS = 60 * 1000;
+
+// Groups of nearby ready orders the livreur can take as one run, in the suggested visiting order.
+// `refreshKey` reloads the suggestions, e.g. when the livreur's orders change.
+export function DeliveryBatchSuggestions({ refreshKey }: { refreshKey?: unknown }) {
+  const [batches, setBatches] = useState<DeliveryBatch[]>([]);
+  const [accepting, setAccepting] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const response = await fetch('/api/delivery/batches', { credentials: 'include' });
+      if (response.ok) {
+        setBatches(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch delivery batches:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches, refreshKey]);
+
+  useEffect(() => {
+    const interval = setInterval(fetchBatches, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchBatches]);
+
+  const handleAccept = async (batch: DeliveryBatch) => {
+    const key = batch.stops.map(stop => stop.orderId).join(',');
+    setAccepting(key);
+    try {
+      const response = await fetch('/api/delivery/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderIds: batch.stops.map(stop => stop.orderId) }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast({
+          title: response.status === 409 ? "Batch no longer available" : "Error",
+          description: data.error || "Failed to accept the batch",
+          variant: "destructive"
+        });
+      } else {
+        toast({ title: "Batch accepted", description: `${batch.stops.length} deliveries added to your run` });
+      }
+      fetchBatches();
+    } catch (error) {
+      console.error('Failed to accept delivery batch:', error);
+    } finally {
+      setAccepting(null);
+    }
+  };
+
+  if (batches.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Suggested Batches</CardTitle>
+        <CardDescription>Ready orders close to each other; take them in one run in the order shown</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {batches.map(batch => {
+          const key = batch.stops.map(stop => stop.orderId).join(',');
+          return (
+            <div key={key} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-semibold flex items-center gap-2">
+                  <Route className="w-4 h-4 text-muted-foreground" />
+                  {batch.stops.length} stops · {batch.totalKm} km · about {batch.totalMinutes} min
+                </p>
+              </div>
+              <ol className="space-y-1 text-sm">
+                {batch.stops.map(stop => (
+                  <li key={stop.orderId} className="flex justify-between gap-4">
+                    <span>
+                      {stop.stop}. {stop.customerName}
+                      {stop.deliveryAddress && <span className="text-muted-foreground"> · {stop.deliveryAddress}</span>}
+                    </span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {stop.totalAmount} DZD · ~{stop.etaMinutes} min
+                    </span>
+                  </li>
+                ))}
+              </ol>
+              <Button className="w-full" onClick={() => handleAccept(batch)} disabled={accepting === key}>
+                {accepting === key ? 'Accepting...' : 'Accept Batch'}
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { validateImageFile } from '@/hooks/useImageUpload';
+import { CheckCircle2 } from 'lucide-react';
+
+// "Mark as Delivered" for delivery orders: the livreur enters the customer's handover code,
+// or uploads a photo of the handover when the customer can't be reached, and the cash they took
+export function DeliveryProofDialog({ orderId, totalAmount }: { orderId: string; totalAmount: string }) {
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState('');
+  const [cashCollected, setCashCollected] = useState(totalAmount);
+  const [cashNote, setCashNote] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const uploadPhoto = async (file: File): Promise<string> => {
+    const formData = new FormData();
+    formData.append('folder', 'delivery-proofs');
+    formData.append('orderId', orderId);
+    formData.append('image', file);
+
+    const response = await fetch('/api/upload-image', {
+      method: 'POST',
+      body: formData,
+      credentials: 'include',
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to upload photo');
+    }
+    return data.imageUrl;
+  };
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      const proof = code.trim()
+        ? { handoverCode: code.trim() }
+        : { proofPhotoUrl: await uploadPhoto(photo!) };
+
+      const response = await fetch(`/api/orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'delivered', ...proof, cashCollected, cashNote: cashNote.trim() || undefined }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast({
+          title: "Error",
+          description: data.error || "Failed to mark order as delivered",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setOpen(false);
+      setCode('');
+      setPhoto(null);
+      setCashNote('');
+    } catch (error: any) {
+      console.error('Failed to mark order as delivered:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to mark order as delivered",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cashValid = cashCollected.trim() !== '' && parseFloat(cashCollected) >= 0;
+  const cashMismatch = cashValid && parseFloat(cashCollected) !== parseFloat(totalAmount);
+
+  const handlePhotoChange = (file: File | null) => {
+    if (file) {
+      const validation = validateImageFile(file);
+      if (!validation.valid) {
+        toast({ title: "Invalid File", description: validation.error, variant: "destructive" });
+        return;
+      }
+    }
+    setPhoto(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="w-full mt-3">
+          <CheckCircle2 className="w-4 h-4 mr-2" />
+          Mark as Delivered
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Confirm Delivery</DialogTitle>
+          <DialogDescription>
+            Ask the customer for the 4-digit code on their tracking page
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`handover-code-${orderId}`}>Handover Code</Label>
+            <Input
+              id={`handover-code-${orderId}`}
+              inputMode="numeric"
+              maxLength={4}
+              placeholder="0000"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className="text-center text-2xl tracking-[0.3em]"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Separator className="flex-1" />
+            <span className="text-xs text-muted-foreground">customer unreachable?</span>
+            <Separator className="flex-1" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`proof-photo-${orderId}`}>Photo of the Delivery</Label>
+            <Input
+              id={`proof-photo-${orderId}`}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              disabled={!!code}
+              onChange={(e) => handlePhotoChange(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <Separator />
+          <div className="space-y-2">
+            <Label htmlFor={`cash-collected-${orderId}`}>Cash Collected (DZD)</Label>
+            <Input
+              id={`cash-collected-${orderId}`}
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="0.01"
+              value={cashCollected}
+              onChange={(e) => setCashCollected(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Order total: {totalAmount} DZD</p>
+          </div>
+          {cashMismatch && (
+            <div className="space-y-2">
+              <Label htmlFor={`cash-note-${orderId}`}>What happened?</Label>
+              <Input
+                id={`cash-note-${orderId}`}
+                maxLength={200}
+                placeholder="e.g. Customer had no change, short 50 DZD"
+                value={cashNote}
+                onChange={(e) => setCashNote(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving || (code.length !== 4 && !photo) || !cashValid}>
+            {saving ? 'Saving...' : 'Confirm Delivery'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
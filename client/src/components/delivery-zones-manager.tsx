@@ -0,0 +1,456 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { describeError } from '@/lib/api-error';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { communes as allCommunes, deliveryWilayas, getCommune, getCommunes } from '@shared/algeria-locations';
+import type { DeliverySettings, DeliveryZone, DeliveryZoneShape, GeoPoint, OutOfAreaRule } from '@shared/schema';
+
+interface ZoneForm {
+  name: string;
+  shape: DeliveryZoneShape;
+  radiusKm: string;
+  // One "lat, lng" pair per line
+  polygon: string;
+  communes: string[];
+  fee: string;
+  minimumOrder: string;
+  active: boolean;
+}
+
+const emptyZoneForm: ZoneForm = {
+  name: '',
+  shape: 'radius',
+  radiusKm: '',
+  polygon: '',
+  communes: [],
+  fee: '',
+  minimumOrder: '0',
+  active: true,
+};
+
+function formatPolygon(points: GeoPoint[] | null): string {
+  return (points ?? []).map(p => `${p.lat}, ${p.lng}`).join('\n');
+}
+
+function parsePolygon(text: string): GeoPoint[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const [lat, lng] = line.split(',').map(part => parseFloat(part));
+      return { lat, lng };
+    });
+}
+
+// Owner-managed delivery zones and the out-of-area rule used by checkout quotes
+export function DeliveryZonesManager() {
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [settings, setSettings] = useState<DeliverySettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingZoneId, setEditingZoneId] = useState<string | null>(null);
+  const [zoneForm, setZoneForm] = useState<ZoneForm>(emptyZoneForm);
+  const [savingZone, setSavingZone] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchZones();
+  }, []);
+
+  const fetchZones = async () => {
+    try {
+      const response = await fetch('/api/delivery/zones', { credentials: 'include' });
+      if (response.ok) {
+        const data = await response.json();
+        setZones(data.zones);
+        setSettings(data.settings);
+      } else {
+        toast({ title: 'Error', description: 'Failed to load delivery zones', variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Failed to fetch delivery zones:', error);
+      toast({ title: 'Error', description: 'Failed to load delivery zones', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+    setSavingSettings(true);
+    try {
+      const response = await fetch('/api/delivery/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          shopLat: settings.shopLat,
+          shopLng: settings.shopLng,
+          outOfAreaRule: settings.outOfAreaRule,
+          outOfAreaFee: settings.outOfAreaFee,
+          outOfAreaMaxKm: settings.outOfAreaMaxKm,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Error', description: describeError(data, 'Failed to save delivery settings'), variant: 'destructive' });
+        return;
+      }
+      setSettings(data);
+      toast({ title: 'Success', description: 'Delivery settings saved' });
+    } catch (error) {
+      console.error('Failed to save delivery settings:', error);
+      toast({ title: 'Error', description: 'Failed to save delivery settings', variant: 'destructive' });
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const openZoneDialog = (zone?: DeliveryZone) => {
+    setEditingZoneId(zone?.id ?? null);
+    setZoneForm(zone ? {
+      name: zone.name,
+      shape: zone.shape,
+      radiusKm: zone.radiusKm?.toString() ?? '',
+      polygon: formatPolygon(zone.polygon),
+      communes: zone.communes ?? [],
+      fee: zone.fee,
+      minimumOrder: zone.minimumOrder,
+      active: zone.active,
+    } : emptyZoneForm);
+    setDialogOpen(true);
+  };
+
+  const handleSaveZone = async () => {
+    setSavingZone(true);
+    try {
+      const response = await fetch(editingZoneId ? `/api/delivery/zones/${editingZoneId}` : '/api/delivery/zones', {
+        method: editingZoneId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          name: zoneForm.name,
+          shape: zoneForm.shape,
+          radiusKm: zoneForm.shape === 'radius' ? zoneForm.radiusKm : null,
+          polygon: zoneForm.shape === 'polygon' ? parsePolygon(zoneForm.polygon) : null,
+          communes: zoneForm.shape === 'communes' ? zoneForm.communes : null,
+          fee: zoneForm.fee,
+          minimumOrder: zoneForm.minimumOrder || '0',
+          active: zoneForm.active,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Error', description: describeError(data, 'Failed to save delivery zone'), variant: 'destructive' });
+        return;
+      }
+      setDialogOpen(false);
+      toast({ title: 'Success', description: 'Delivery zone saved' });
+      fetchZones();
+    } catch (error) {
+      console.error('Failed to save delivery zone:', error);
+      toast({ title: 'Error', description: 'Failed to save delivery zone', variant: 'destructive' });
+    } finally {
+      setSavingZone(false);
+    }
+  };
+
+  const handleDeleteZone = async (zone: DeliveryZone) => {
+    if (!confirm(`Delete the delivery zone "${zone.name}"?`)) return;
+    try {
+      const response = await fetch(`/api/delivery/zones/${zone.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        toast({ title: 'Error', description: 'Failed to delete delivery zone', variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Success', description: 'Delivery zone deleted' });
+      fetchZones();
+    } catch (error) {
+      console.error('Failed to delete delivery zone:', error);
+      toast({ title: 'Error', description: 'Failed to delete delivery zone', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Delivery Zones</CardTitle>
+          <CardDescription>
+            Delivery fees and minimum orders by area; the cheapest zone containing the address applies
+          </CardDescription>
+        </div>
+        <Button onClick={() => openZoneDialog()}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Zone
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-center text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            {settings && (
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                <div>
+                  <Label htmlFor="shop-lat">Shop Latitude</Label>
+                  <Input
+                    id="shop-lat"
+                    type="number"
+                    step="any"
+                    value={settings.shopLat}
+                    onChange={(e) => setSettings({ ...settings, shopLat: parseFloat(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="shop-lng">Shop Longitude</Label>
+                  <Input
+                    id="shop-lng"
+                    type="number"
+                    step="any"
+                    value={settings.shopLng}
+                    onChange={(e) => setSettings({ ...settings, shopLng: parseFloat(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label>Outside All Zones</Label>
+                  <Select
+                    value={settings.outOfAreaRule}
+                    onValueChange={(value) => setSettings({ ...settings, outOfAreaRule: value as OutOfAreaRule })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="reject">Don't deliver</SelectItem>
+                      <SelectItem value="flat_fee">Deliver for a flat fee</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {settings.outOfAreaRule === 'flat_fee' ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label htmlFor="out-of-area-fee">Fee (DZD)</Label>
+                      <Input
+                        id="out-of-area-fee"
+                        type="number"
+                        min="0"
+                        value={settings.outOfAreaFee}
+                        onChange={(e) => setSettings({ ...settings, outOfAreaFee: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="out-of-area-max">Up to (km)</Label>
+                      <Input
+                        id="out-of-area-max"
+                        type="number"
+                        min="0"
+                        step="any"
+                        placeholder="No limit"
+                        value={settings.outOfAreaMaxKm ?? ''}
+                        onChange={(e) => setSettings({ ...settings, outOfAreaMaxKm: e.target.value ? parseFloat(e.target.value) : null })}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div />
+                )}
+                <Button variant="outline" onClick={handleSaveSettings} disabled={savingSettings}>
+                  {savingSettings ? 'Saving...' : 'Save Settings'}
+                </Button>
+              </div>
+            )}
+
+            {zones.length === 0 ? (
+              <p className="text-center text-muted-foreground">No delivery zones yet</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">Name</th>
+                      <th className="text-left p-2">Area</th>
+                      <th className="text-left p-2">Fee</th>
+                      <th className="text-left p-2">Minimum Order</th>
+                      <th className="text-left p-2">Status</th>
+                      <th className="text-left p-2">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {zones.map((zone) => (
+                      <tr key={zone.id} className="border-b hover:bg-muted/50 transition-colors">
+                        <td className="p-2 font-medium">{zone.name}</td>
+                        <td className="p-2 text-sm text-muted-foreground">
+                          {zone.shape === 'radius'
+                            ? `Within ${zone.radiusKm} km of the shop`
+                            : zone.shape === 'communes'
+                              ? (zone.communes ?? []).map(code => getCommune(code)?.name ?? code).join(', ')
+                              : `Polygon, ${zone.polygon?.length ?? 0} points`}
+                        </td>
+                        <td className="p-2">{zone.fee} DZD</td>
+                        <td className="p-2">{zone.minimumOrder} DZD</td>
+                        <td className="p-2">
+                          <span className={`px-2 py-1 rounded text-xs ${zone.active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                            {zone.active ? 'Active' : 'Inactive'}
+                          </span>
+                        </td>
+                        <td className="p-2">
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="outline" onClick={() => openZoneDialog(zone)}>
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button size="sm" variant="destructive" onClick={() => handleDeleteZone(zone)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingZoneId ? 'Edit Delivery Zone' : 'Add Delivery Zone'}</DialogTitle>
+            <DialogDescription>
+              A ring around the shop, an area outlined by its corner coordinates, or a set of communes
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="zone-name">Name</Label>
+              <Input
+                id="zone-name"
+                value={zoneForm.name}
+                onChange={(e) => setZoneForm({ ...zoneForm, name: e.target.value })}
+                placeholder="City centre"
+              />
+            </div>
+            <div>
+              <Label>Shape</Label>
+              <Select
+                value={zoneForm.shape}
+                onValueChange={(value) => setZoneForm({ ...zoneForm, shape: value as DeliveryZoneShape })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="radius">Radius around the shop</SelectItem>
+                  <SelectItem value="polygon">Polygon</SelectItem>
+                  <SelectItem value="communes">Communes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {zoneForm.shape === 'radius' ? (
+              <div>
+                <Label htmlFor="zone-radius">Radius (km)</Label>
+                <Input
+                  id="zone-radius"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={zoneForm.radiusKm}
+                  onChange={(e) => setZoneForm({ ...zoneForm, radiusKm: e.target.value })}
+                />
+              </div>
+            ) : zoneForm.shape === 'communes' ? (
+              <div>
+                <Label>Communes ({zoneForm.communes.length} of {allCommunes.length})</Label>
+                <div className="max-h-56 overflow-y-auto rounded border p-3 space-y-3">
+                  {deliveryWilayas.map(wilaya => (
+                    <div key={wilaya.code} className="space-y-2">
+                      <p className="text-sm font-semibold">{wilaya.code} · {wilaya.name}</p>
+                      <div className="grid grid-cols-2 gap-2">
+                        {getCommunes(wilaya.code).map(commune => (
+                          <label key={commune.code} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={zoneForm.communes.includes(commune.code)}
+                              onCheckedChange={(checked) => setZoneForm({
+                                ...zoneForm,
+                                communes: checked === true
+                                  ? [...zoneForm.communes, commune.code]
+                                  : zoneForm.communes.filter(code => code !== commune.code),
+                              })}
+                            />
+                            {commune.name}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="zone-polygon">Corners (one "latitude, longitude" per line)</Label>
+                <Textarea
+                  id="zone-polygon"
+                  className="min-h-28 font-mono text-sm"
+                  value={zoneForm.polygon}
+                  onChange={(e) => setZoneForm({ ...zoneForm, polygon: e.target.value })}
+                  placeholder={'36.76, 3.04\n36.77, 3.07\n36.74, 3.08'}
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="zone-fee">Delivery Fee (DZD)</Label>
+                <Input
+                  id="zone-fee"
+                  type="number"
+                  min="0"
+                  value={zoneForm.fee}
+                  onChange={(e) => setZoneForm({ ...zoneForm, fee: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="zone-minimum">Minimum Order (DZD)</Label>
+                <Input
+                  id="zone-minimum"
+                  type="number"
+                  min="0"
+                  value={zoneForm.minimumOrder}
+                  onChange={(e) => setZoneForm({ ...zoneForm, minimumOrder: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="zone-active"
+                checked={zoneForm.active}
+                onCheckedChange={(checked) => setZoneForm({ ...zoneForm, active: checked === true })}
+              />
+              <Label htmlFor="zone-active">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveZone} disabled={savingZone}>
+              {savingZone ? 'Saving...' : 'Save Zone'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
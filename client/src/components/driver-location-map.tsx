@@ -0,0 +1,52 @@
+import { useQuery } from '@tanstack/react-query';
+import { Bike } from 'lucide-react';
+import { DRIVER_LOCATION_INTERVAL_MS, type DriverLocation } from '@shared/driver-location';
+
+// Roughly 1 km around the driver
+const MAP_SPAN_DEGREES = 0.01;
+
+function describeAge(updatedAt: string): string {
+  const seconds = Math.max(0, Math.round((Date.now() - new Date(updatedAt).getTime()) / 1000));
+  if (seconds < 60) return 'just now';
+  const minutes = Math.round(seconds / 60);
+  return `${minutes} min ago`;
+}
+
+// OpenStreetMap embed centred on the driver, with the time of the last ping
+export function DriverLocationMap({ location, className }: { location: DriverLocation; className?: string }) {
+  const bbox = [
+    location.lng - MAP_SPAN_DEGREES,
+    location.lat - MAP_SPAN_DEGREES,
+    location.lng + MAP_SPAN_DEGREES,
+    location.lat + MAP_SPAN_DEGREES,
+  ].join(',');
+  const src = `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${location.lat},${location.lng}`;
+
+  return (
+    <div className={className}>
+      <iframe
+        title="Driver location"
+        src={src}
+        className="w-full h-56 rounded-md border"
+        loading="lazy"
+      />
+      <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground" data-testid="text-driver-location-updated">
+        <Bike className="w-3 h-3" />
+        Driver position updated {describeAge(location.updatedAt)} ({new Date(location.updatedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})
+      </p>
+    </div>
+  );
+}
+
+// For staff and signed-in dashboards: polls GET /api/orders/:id/location while the order is out for delivery
+export function LiveDriverLocation({ orderId }: { orderId: string }) {
+  const { data } = useQuery<{ location: DriverLocation | null }>({
+    queryKey: ['/api/orders', orderId, 'location'],
+    refetchInterval: DRIVER_LOCATION_INTERVAL_MS,
+  });
+
+  if (!data?.location) {
+    return <p className="text-xs text-muted-foreground">Waiting for the driver's position...</p>;
+  }
+  return <DriverLocationMap location={data.location} />;
+}
@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { describeError } from '@/lib/api-error';
+import { Plus, Trash2 } from 'lucide-react';
+import { weekdayLabels, type LivreurAvailability } from '@shared/livreur-availability';
+import type { LivreurShift } from '@shared/schema';
+
+const emptyShiftForm = { livreurId: '', dayOfWeek: '1', startTime: '11:00', endTime: '15:00' };
+
+// Who is working right now and the weekly shift schedule that decides it
+export function LivreurShiftsManager({
+  availability,
+  onChange,
+}: {
+  availability: LivreurAvailability[];
+  onChange: () => void;
+}) {
+  const [shifts, setShifts] = useState<LivreurShift[]>([]);
+  const [shiftForm, setShiftForm] = useState(emptyShiftForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchShifts();
+  }, []);
+
+  const fetchShifts = async () => {
+    try {
+      const response = await fetch('/api/livreurs/shifts', { credentials: 'include' });
+      if (response.ok) {
+        setShifts(await response.json());
+      } else {
+        toast({ title: 'Error', description: 'Failed to load shifts', variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Failed to fetch shifts:', error);
+      toast({ title: 'Error', description: 'Failed to load shifts', variant: 'destructive' });
+    }
+  };
+
+  const handleAddShift = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/livreurs/shifts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(shiftForm),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Error', description: describeError(data, 'Failed to add shift'), variant: 'destructive' });
+        return;
+      }
+      setShiftForm({ ...emptyShiftForm, livreurId: shiftForm.livreurId });
+      fetchShifts();
+      onChange();
+    } catch (error) {
+      console.error('Failed to add shift:', error);
+      toast({ title: 'Error', description: 'Failed to add shift', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteShift = async (id: string) => {
+    try {
+      const response = await fetch(`/api/livreurs/shifts/${id}`, { method: 'DELETE', credentials: 'include' });
+      if (!response.ok) {
+        toast({ title: 'Error', description: 'Failed to delete shift', variant: 'destructive' });
+        return;
+      }
+      setShifts(shifts.filter(shift => shift.id !== id));
+      onChange();
+    } catch (error) {
+      console.error('Failed to delete shift:', error);
+      toast({ title: 'Error', description: 'Failed to delete shift', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Livreurs on Duty</CardTitle>
+        <CardDescription>
+          Only livreurs who are online during one of their shifts see open orders or can be assigned
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {availability.length === 0 ? (
+          <p className="text-center text-muted-foreground">No livreurs yet</p>
+        ) : (
+          <div className="space-y-4">
+            {availability.map(livreur => {
+              const livreurShifts = shifts.filter(shift => shift.livreurId === livreur.livreurId);
+              return (
+                <div key={livreur.livreurId} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold">{livreur.livreurName}</p>
+                      <Badge className={livreur.available ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}>
+                        {livreur.available ? 'Active' : livreur.online ? 'Online, off shift' : livreur.onShift ? 'Offline, on shift' : 'Offline'}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {livreur.currentShift ? `Shift ${livreur.currentShift} · ` : ''}
+                      {livreur.activeOrders} active order{livreur.activeOrders === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  {livreurShifts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No shifts scheduled</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {livreurShifts.map(shift => (
+                        <span key={shift.id} className="inline-flex items-center gap-1 rounded border px-2 py-1 text-sm">
+                          {weekdayLabels[shift.dayOfWeek].slice(0, 3)} {shift.startTime}–{shift.endTime}
+                          <button
+                            type="button"
+                            onClick={() => handleDeleteShift(shift.id)}
+                            className="text-muted-foreground hover:text-destructive"
+                            aria-label="Delete shift"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {availability.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-2">
+              <Label>Livreur</Label>
+              <Select value={shiftForm.livreurId} onValueChange={(value) => setShiftForm({ ...shiftForm, livreurId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availability.map(livreur => (
+                    <SelectItem key={livreur.livreurId} value={String(livreur.livreurId)}>{livreur.livreurName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Day</Label>
+              <Select value={shiftForm.dayOfWeek} onValueChange={(value) => setShiftForm({ ...shiftForm, dayOfWeek: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {weekdayLabels.map((label, day) => (
+                    <SelectItem key={day} value={String(day)}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shift-start">Start</Label>
+              <Input
+                id="shift-start"
+                type="time"
+                value={shiftForm.startTime}
+                onChange={(e) => setShiftForm({ ...shiftForm, startTime: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shift-end">End</Label>
+              <Input
+                id="shift-end"
+                type="time"
+                value={shiftForm.endTime}
+                onChange={(e) => setShiftForm({ ...shiftForm, endTime: e.target.value })}
+              />
+            </div>
+            <Button onClick={handleAddShift} disabled={saving || !shiftForm.livreurId}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Shift
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { resolveSelectedOptions, getOptionsPriceDelta, type OptionSelection } from "@shared/menu-options";
+import type { MenuItem, MenuOptionGroup } from "@shared/schema";
+
+// Tracks the options chosen for the item shown in a details dialog
+export function useMenuItemOptions(item: MenuItem | null) {
+  const [selections, setSelections] = useState<OptionSelection[]>([]);
+
+  useEffect(() => {
+    setSelections([]);
+  }, [item?.id]);
+
+  const { options, errors } = resolveSelectedOptions(item?.optionGroups ?? [], selections);
+  const unitPrice = item ? parseFloat(item.price) + getOptionsPriceDelta(options) : 0;
+
+  return { selections, setSelections, options, errors, unitPrice };
+}
+
+function describeGroupRule(group: MenuOptionGroup) {
+  if (group.selection === "single") {
+    return group.minChoices > 0 ? "Required" : "Optional";
+  }
+  if (group.minChoices > 0) {
+    return `Choose ${group.minChoices}${group.maxChoices > group.minChoices ? ` to ${group.maxChoices}` : ""}`;
+  }
+  return `Up to ${group.maxChoices}`;
+}
+
+function formatDelta(priceDelta: string) {
+  const delta = parseFloat(priceDelta);
+  return delta > 0 ? `+${delta.toFixed(2)} DZD` : "";
+}
+
+export function MenuItemOptionsPicker({
+  groups,
+  value,
+  onChange,
+}: {
+  groups: MenuOptionGroup[];
+  value: OptionSelection[];
+  onChange: (value: OptionSelection[]) => void;
+}) {
+  if (groups.length === 0) return null;
+
+  const selectSingle = (groupId: string, optionId: string) => {
+    onChange([...value.filter(s => s.groupId !== groupId), { groupId, optionId }]);
+  };
+
+  const toggleMultiple = (groupId: string, optionId: string, checked: boolean) => {
+    const others = value.filter(s => !(s.groupId === groupId && s.optionId === optionId));
+    onChange(checked ? [...others, { groupId, optionId }] : others);
+  };
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => {
+        const chosen = value.filter(s => s.groupId === group.id).map(s => s.optionId);
+
+        return (
+          <div key={group.id} className="space-y-2" data-testid={`option-group-${group.id}`}>
+            <div className="flex items-center justify-between">
+              <p className="font-semibold">{group.name}</p>
+              <span className="text-xs text-muted-foreground">{describeGroupRule(group)}</span>
+            </div>
+            {group.selection === "single" ? (
+              <RadioGroup
+                value={chosen[0] ?? ""}
+                onValueChange={(optionId) => selectSingle(group.id, optionId)}
+              >
+                {group.options.map((option) => (
+                  <div key={option.id} className="flex items-center gap-2">
+                    <RadioGroupItem value={option.id} id={`option-${group.id}-${option.id}`} />
+                    <Label htmlFor={`option-${group.id}-${option.id}`} className="font-normal cursor-pointer flex-1">
+                      {option.name}
+                    </Label>
+                    <span className="text-sm text-muted-foreground">{formatDelta(option.priceDelta)}</span>
+                  </div>
+                ))}
+              </RadioGroup>
+            ) : (
+              <div className="space-y-2">
+                {group.options.map((option) => {
+                  const checked = chosen.includes(option.id);
+                  return (
+                    <div key={option.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`option-${group.id}-${option.id}`}
+                        checked={checked}
+                        disabled={!checked && chosen.length >= group.maxChoices}
+                        onCheckedChange={(value) => toggleMultiple(group.id, option.id, value === true)}
+                      />
+                      <Label htmlFor={`option-${group.id}-${option.id}`} className="font-normal cursor-pointer flex-1">
+                        {option.name}
+                      </Label>
+                      <span className="text-sm text-muted-foreground">{formatDelta(option.priceDelta)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -15,7 +15,8 @@ import {
 import { ShoppingCart, Plus, Info } from "lucide-react";
 import { useCart } from "@/contexts/cart-context";
 import { useToast } from "@/hooks/use-toast";
-import type { MenuItem, Category } from "@shared/schema";
+import { MenuItemOptionsPicker, useMenuItemOptions } from "@/components/menu-item-options";
+import type { MenuItem, Category, OrderItemOption } from "@shared/schema";
 
 export function MenuSection() {
   const { data: categories, isLoading: categoriesLoading } = useQuery<Category[]>({
@@ -29,6 +30,7 @@ export function MenuSection() {
   const { addItem } = useCart();
   const { toast } = useToast();
   const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
+  const itemOptions = useMenuItemOptions(selectedItem);
 
   const isLoading = categoriesLoading || itemsLoading;
 
@@ -36,8 +38,8 @@ export function MenuSection() {
     return menuItems?.filter((item) => item.categoryId === categoryId && item.available) || [];
   };
 
-  const handleAddToCart = (item: MenuItem) => {
-    addItem(item);
+  const handleAddToCart = (item: MenuItem, selectedOptions: OrderItemOption[] = []) => {
+    addItem(item, 1, selectedOptions);
     setSelectedItem(null);
     toast({
       title: "Added to cart",
@@ -52,7 +54,7 @@ export function MenuSection() {
   return (
     <>
       <Dialog open={!!selectedItem} onOpenChange={(open) => !open && setSelectedItem(null)}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{selectedItem?.name}</DialogTitle>
             <DialogDescription>Product Details</DialogDescription>
@@ -71,7 +73,7 @@ export function MenuSection() {
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <span className="text-2xl font-bold text-primary">
-                    {selectedItem.price} DZD
+                    {itemOptions.unitPrice.toFixed(2)} DZD
                   </span>
                   {selectedItem.popular && (
                     <Badge variant="secondary">Popular</Badge>
@@ -81,8 +83,14 @@ export function MenuSection() {
                   {selectedItem.description}
                 </p>
               </div>
-              <Button 
-                onClick={() => handleAddToCart(selectedItem)}
+              <MenuItemOptionsPicker
+                groups={selectedItem.optionGroups ?? []}
+                value={itemOptions.selections}
+                onChange={itemOptions.setSelections}
+              />
+              <Button
+                onClick={() => handleAddToCart(selectedItem, itemOptions.options)}
+                disabled={itemOptions.errors.length > 0}
                 className="w-full"
                 size="lg"
                 data-testid={`button-add-cart-dialog-${selectedItem.id}`}
@@ -0,0 +1,176 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2, X } from 'lucide-react';
+import type { MenuOptionGroup, MenuItemOption } from '@shared/schema';
+
+function newId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// Owner-side editor for a menu item's option groups (sizes, toppings, extras...)
+export function OptionGroupsEditor({
+  value,
+  onChange,
+}: {
+  value: MenuOptionGroup[];
+  onChange: (value: MenuOptionGroup[]) => void;
+}) {
+  const updateGroup = (groupId: string, changes: Partial<MenuOptionGroup>) => {
+    onChange(value.map(g => (g.id === groupId ? { ...g, ...changes } : g)));
+  };
+
+  const updateOption = (group: MenuOptionGroup, optionId: string, changes: Partial<MenuItemOption>) => {
+    updateGroup(group.id, {
+      options: group.options.map(o => (o.id === optionId ? { ...o, ...changes } : o)),
+    });
+  };
+
+  const addGroup = () => {
+    onChange([
+      ...value,
+      {
+        id: newId(),
+        name: '',
+        selection: 'single',
+        minChoices: 1,
+        maxChoices: 1,
+        options: [{ id: newId(), name: '', priceDelta: '0' }],
+      },
+    ]);
+  };
+
+  const changeSelection = (group: MenuOptionGroup, selection: MenuOptionGroup['selection']) => {
+    if (selection === 'single') {
+      updateGroup(group.id, { selection, minChoices: Math.min(group.minChoices, 1), maxChoices: 1 });
+    } else {
+      updateGroup(group.id, { selection, maxChoices: Math.max(group.maxChoices, group.options.length) });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Options</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addGroup}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Option Group
+        </Button>
+      </div>
+
+      {value.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No options. Add a group for choices like size or extra toppings.
+        </p>
+      )}
+
+      {value.map((group) => (
+        <div key={group.id} className="border rounded-md p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <Input
+              value={group.name}
+              onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+              placeholder="Group name, e.g. Size"
+              required
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter(g => g.id !== group.id))}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Selection</Label>
+              <Select
+                value={group.selection}
+                onValueChange={(selection) => changeSelection(group, selection as MenuOptionGroup['selection'])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="single">Pick one</SelectItem>
+                  <SelectItem value="multiple">Pick several</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Min choices</Label>
+              <Input
+                type="number"
+                min="0"
+                max={group.selection === 'single' ? 1 : group.options.length}
+                value={group.minChoices}
+                onChange={(e) => updateGroup(group.id, { minChoices: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Max choices</Label>
+              <Input
+                type="number"
+                min="1"
+                value={group.maxChoices}
+                disabled={group.selection === 'single'}
+                onChange={(e) => updateGroup(group.id, { maxChoices: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {group.options.map((option) => (
+              <div key={option.id} className="flex items-center gap-2">
+                <Input
+                  value={option.name}
+                  onChange={(e) => updateOption(group, option.id, { name: e.target.value })}
+                  placeholder="Option name"
+                  required
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  className="w-32"
+                  value={option.priceDelta}
+                  onChange={(e) => updateOption(group, option.id, { priceDelta: e.target.value })}
+                  placeholder="+0.00"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={group.options.length === 1}
+                  onClick={() => updateGroup(group.id, { options: group.options.filter(o => o.id !== option.id) })}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => updateGroup(group.id, {
+                options: [...group.options, { id: newId(), name: '', priceDelta: '0' }],
+              })}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Option
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
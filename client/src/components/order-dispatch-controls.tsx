@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Truck } from 'lucide-react';
+import { canDispatchOrder } from '@shared/order-status';
+import type { OrderWithItems, User } from '@shared/schema';
+
+// `available`: online and on shift; only those can be given new orders
+type Livreur = Pick<User, 'id' | 'name'> & { available: boolean; activeOrders: number };
+
+const UNASSIGNED = 'none';
+
+// Owner controls to assign, reassign or unassign an order's livreur. Changing an existing
+// assignment asks for a reason, which ends up in the order history.
+export function OrderDispatchControls({
+  order,
+  livreurs,
+}: {
+  order: Pick<OrderWithItems, 'id' | 'status' | 'livreurId'>;
+  livreurs: Livreur[];
+}) {
+  const [pendingChoice, setPendingChoice] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const current = livreurs.find(l => l.id === order.livreurId);
+  const currentValue = order.livreurId ? String(order.livreurId) : UNASSIGNED;
+
+  if (!canDispatchOrder(order.status)) {
+    return current ? (
+      <p className="text-sm text-muted-foreground flex items-center gap-1">
+        <Truck className="w-4 h-4" /> {current.name}
+      </p>
+    ) : null;
+  }
+
+  const sendChoice = async (choice: string, reasonText?: string) => {
+    setSaving(true);
+    try {
+      const response = choice === UNASSIGNED
+        ? await fetch(`/api/orders/${order.id}/unassign`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ reason: reasonText }),
+            credentials: 'include',
+          })
+        : await fetch(`/api/orders/${order.id}/assign`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ livreurId: parseInt(choice, 10), reason: reasonText }),
+            credentials: 'include',
+          });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast({
+          title: "Error",
+          description: data.error || "Failed to update the order's livreur",
+          variant: "destructive"
+        });
+        return;
+      }
+      setPendingChoice(null);
+      setReason('');
+    } catch (error) {
+      console.error('Failed to dispatch order:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the order's livreur",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleChange = (choice: string) => {
+    if (choice === currentValue) return;
+    // First assignments go straight through; anything that takes the order from someone needs a reason
+    if (order.livreurId) {
+      setPendingChoice(choice);
+    } else {
+      sendChoice(choice);
+    }
+  };
+
+  const target = livreurs.find(l => String(l.id) === pendingChoice);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Truck className="w-4 h-4 text-muted-foreground" />
+      <Select value={currentValue} onValueChange={handleChange} disabled={saving}>
+        <SelectTrigger className="h-8 w-48">
+          <SelectValue placeholder="Assign a livreur" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNASSIGNED}>{order.livreurId ? 'Unassign' : 'Unassigned'}</SelectItem>
+          {livreurs.map(livreur => (
+            <SelectItem
+              key={livreur.id}
+              value={String(livreur.id)}
+              disabled={!livreur.available && livreur.id !== order.livreurId}
+            >
+              {livreur.name} · {livreur.available ? `${livreur.activeOrders} active` : 'off duty'}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog open={pendingChoice !== null} onOpenChange={(open) => !open && setPendingChoice(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{target ? `Reassign to ${target.name}` : 'Unassign livreur'}</DialogTitle>
+            <DialogDescription>
+              {current ? `${current.name} will no longer see this order. ` : ''}The reason is kept in the order history.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`dispatch-reason-${order.id}`}>Reason</Label>
+            <Input
+              id={`dispatch-reason-${order.id}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Driver is stuck in traffic"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingChoice(null)}>Cancel</Button>
+            <Button
+              onClick={() => pendingChoice && sendChoice(pendingChoice, reason.trim())}
+              disabled={saving || !reason.trim()}
+            >
+              {saving ? 'Saving...' : 'Confirm'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { History } from 'lucide-react';
+import { orderStatusLabels } from '@shared/order-status';
+import type { OrderEvent } from '@shared/schema';
+
+interface OrderHistoryEvent extends Omit<OrderEvent, 'createdAt'> {
+  actorName: string | null;
+  createdAt: string;
+}
+
+export function OrderHistoryDialog({ orderId, customerName }: { orderId: string; customerName: string }) {
+  const [open, setOpen] = useState(false);
+  const [events, setEvents] = useState<OrderHistoryEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchHistory();
+    }
+  }, [open]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/orders/${orderId}/history`, { credentials: 'include' });
+      if (response.ok) {
+        const data = await response.json();
+        setEvents(data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch order history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeActor = (event: OrderHistoryEvent) => {
+    if (!event.actorUserId) return 'Guest';
+    return `${event.actorName ?? `User #${event.actorUserId}`}${event.actorRole ? ` (${event.actorRole})` : ''}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="w-4 h-4 mr-2" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Order #{orderId.slice(0, 8)}</DialogTitle>
+          <DialogDescription>Status history for {customerName}</DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <p className="text-center text-muted-foreground">Loading...</p>
+        ) : events.length === 0 ? (
+          <p className="text-center text-muted-foreground">No history recorded for this order</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-6">
+            {events.map((event) => (
+              <li key={event.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary" />
+                <p className="text-xs text-muted-foreground">
+                  {new Date(event.createdAt).toLocaleString()}
+                </p>
+                <p className="font-medium">
+                  {event.fromStatus === event.toStatus
+                    ? 'Order updated'
+                    : event.fromStatus
+                    ? `${orderStatusLabels[event.fromStatus] ?? event.fromStatus} → ${orderStatusLabels[event.toStatus] ?? event.toStatus}`
+                    : `Order placed (${orderStatusLabels[event.toStatus] ?? event.toStatus})`}
+                </p>
+                <p className="text-sm text-muted-foreground">by {describeActor(event)}</p>
+                {event.note && (
+                  <p className="text-sm mt-1 bg-muted p-2 rounded-md">{event.note}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { addDays, restaurantDate, SCHEDULE_DAYS, type OrderSlot } from "@shared/order-slots";
+
+const ASAP = "asap";
+
+interface SlotsResponse {
+  date: string;
+  openNow: boolean;
+  slots: OrderSlot[];
+}
+
+function describeDay(date: string, today: string) {
+  if (date === today) return "Today";
+  if (date === addDays(today, 1)) return "Tomorrow";
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, {
+    weekday: "long",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+}
+
+// Day + time slot picker for checkout; value is the ISO slot start, or "" for as soon as possible
+export function OrderSlotPicker({
+  value,
+  onChange,
+  orderType,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  orderType: "pickup" | "delivery";
+}) {
+  const today = restaurantDate(new Date());
+  const [day, setDay] = useState(today);
+  const days = Array.from({ length: SCHEDULE_DAYS }, (_, i) => addDays(today, i));
+
+  const { data, isLoading } = useQuery<SlotsResponse>({
+    queryKey: [`/api/orders/slots?date=${day}`],
+    staleTime: 60 * 1000,
+  });
+
+  const slots = data?.slots ?? [];
+  const canOrderNow = day === today && !!data?.openNow;
+
+  return (
+    <div className="space-y-2">
+      <Label>{orderType === "delivery" ? "Delivery" : "Pickup"} Time</Label>
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          value={day}
+          onValueChange={(date) => {
+            setDay(date);
+            onChange("");
+          }}
+        >
+          <SelectTrigger data-testid="select-order-day">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {days.map((date) => (
+              <SelectItem key={date} value={date}>
+                {describeDay(date, today)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={value || (canOrderNow ? ASAP : "")}
+          onValueChange={(slot) => onChange(slot === ASAP ? "" : slot)}
+          disabled={isLoading}
+        >
+          <SelectTrigger data-testid="select-order-slot">
+            <SelectValue placeholder={isLoading ? "Loading..." : "Choose a time"} />
+          </SelectTrigger>
+          <SelectContent>
+            {canOrderNow && (
+              <SelectItem value={ASAP}>As soon as possible</SelectItem>
+            )}
+            {slots.map((slot) => (
+              <SelectItem key={slot.start} value={slot.start} disabled={!slot.available}>
+                {slot.label}{slot.remaining === 0 ? " (full)" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {!isLoading && !canOrderNow && !value && (
+        <p className="text-sm text-muted-foreground">
+          {slots.some(slot => slot.available)
+            ? "Please choose a time slot."
+            : "No time slots left on this day. Please choose another day."}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { holdsSeats } from '@shared/reservation-status';
+import type { Reservation, RestaurantTable } from '@shared/schema';
+
+// Positions are 0-100; keep a margin so tables at the edges stay fully on the plan
+const planPosition = (percent: number) => 10 + percent * 0.8;
+
+// The day's bookings on the tables they sit at; drag a booking onto another table to move it there
+export function ReservationFloorPlan({
+  tables,
+  reservations,
+  onMoved,
+}: {
+  tables: RestaurantTable[];
+  reservations: Reservation[];
+  onMoved: (reservation: Reservation) => void;
+}) {
+  const [dropTableId, setDropTableId] = useState<string | null>(null);
+  const [moving, setMoving] = useState(false);
+  const { toast } = useToast();
+
+  const seated = reservations.filter(holdsSeats);
+  const unassigned = seated.filter(r => !r.tableIds?.some(id => tables.some(table => table.id === id)));
+
+  const handleDrop = async (tableId: string, reservationId: string) => {
+    setDropTableId(null);
+    const reservation = seated.find(r => r.id === reservationId);
+    if (!reservation || reservation.tableIds?.length === 1 && reservation.tableIds[0] === tableId) return;
+
+    setMoving(true);
+    try {
+      const response = await fetch(`/api/reservations/${reservation.id}/tables`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ tableIds: [tableId] }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Cannot move reservation', description: data.error || 'Failed to move reservation', variant: 'destructive' });
+        return;
+      }
+      onMoved(data);
+    } catch (error) {
+      console.error('Failed to move reservation:', error);
+      toast({ title: 'Error', description: 'Failed to move reservation', variant: 'destructive' });
+    } finally {
+      setMoving(false);
+    }
+  };
+
+  const renderBooking = (reservation: Reservation) => (
+    <div
+      key={reservation.id}
+      draggable={!moving}
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', reservation.id)}
+      className="rounded bg-background border px-2 py-1 text-xs cursor-grab active:cursor-grabbing"
+      data-testid={`floor-plan-reservation-${reservation.id}`}
+    >
+      <span className="font-medium">{reservation.time}</span> · {reservation.name} ({reservation.partySize})
+      {(reservation.tableIds?.length ?? 0) > 1 && <span className="text-muted-foreground"> · combined</span>}
+    </div>
+  );
+
+  if (tables.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground">
+        Add tables below to seat reservations on a floor plan
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {unassigned.length > 0 && (
+        <div className="rounded-md border border-dashed p-3 space-y-2">
+          <p className="text-sm font-medium">Not seated yet: drag onto a table</p>
+          <div className="flex flex-wrap gap-2">{unassigned.map(renderBooking)}</div>
+        </div>
+      )}
+      <div className="relative w-full h-[28rem] rounded-md bg-muted overflow-hidden">
+        {tables.map((table) => (
+          <div
+            key={table.id}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTableId(table.id);
+            }}
+            onDragLeave={() => setDropTableId(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(table.id, e.dataTransfer.getData('text/plain'));
+            }}
+            className={`absolute w-40 -translate-x-1/2 -translate-y-1/2 rounded-md border-2 p-2 space-y-1 bg-card transition-colors ${
+              dropTableId === table.id ? 'border-primary' : 'border-border'
+            } ${table.active ? '' : 'opacity-50'}`}
+            style={{ left: `${planPosition(table.planX)}%`, top: `${planPosition(table.planY)}%` }}
+            data-testid={`floor-plan-table-${table.id}`}
+          >
+            <div className="flex items-center justify-between gap-1">
+              <span className="font-semibold">{table.name}</span>
+              <Badge variant={table.area === 'terrace' ? 'secondary' : 'outline'}>
+                {table.seats} · {table.area === 'terrace' ? 'Terrace' : 'Indoor'}
+              </Badge>
+            </div>
+            {seated
+              .filter(r => r.tableIds?.includes(table.id))
+              .sort((a, b) => a.time.localeCompare(b.time))
+              .map(renderBooking)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { History } from 'lucide-react';
+import { describeReservationChange } from '@shared/reservation-changes';
+import type { ReservationEvent } from '@shared/schema';
+
+interface ReservationHistoryEvent extends Omit<ReservationEvent, 'createdAt'> {
+  createdAt: string;
+}
+
+// What the guest (through their manage link) and the restaurant changed on a booking, oldest first
+export function ReservationHistoryDialog({ reservationId, guestName }: { reservationId: string; guestName: string }) {
+  const [open, setOpen] = useState(false);
+  const [events, setEvents] = useState<ReservationHistoryEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchHistory();
+    }
+  }, [open]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/reservations/${reservationId}/events`, { credentials: 'include' });
+      if (response.ok) {
+        setEvents(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch reservation history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" aria-label="Reservation history">
+          <History className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reservation History</DialogTitle>
+          <DialogDescription>Changes to {guestName}'s booking</DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <p className="text-center text-muted-foreground">Loading...</p>
+        ) : events.length === 0 ? (
+          <p className="text-center text-muted-foreground">Nothing has changed since it was booked</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-6">
+            {events.map((event) => (
+              <li key={event.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary" />
+                <p className="text-xs text-muted-foreground">
+                  {new Date(event.createdAt).toLocaleString()}
+                </p>
+                {event.changes.map((change) => (
+                  <p key={change.field} className="font-medium">{describeReservationChange(change)}</p>
+                ))}
+                <p className="text-sm text-muted-foreground">by {event.actor === 'guest' ? 'the guest' : 'the restaurant'}</p>
+                {event.note && (
+                  <p className="text-sm mt-1 bg-muted p-2 rounded-md">{event.note}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
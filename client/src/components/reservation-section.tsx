@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Badge } from "@/components/ui/badge";
@@ -15,21 +16,16 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+import { ReservationTimeSelect } from "@/components/reservation-time-select";
 import { useToast } from "@/hooks/use-toast";
-import { insertReservationSchema, type InsertReservation } from "@shared/schema";
+import { insertReservationSchema, type InsertReservation, type Reservation } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { CalendarDays } from "lucide-react";
 
 export function ReservationSection() {
   const { toast } = useToast();
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [, setLocation] = useLocation();
 
   const form = useForm<InsertReservation>({
     resolver: zodResolver(insertReservationSchema),
@@ -45,22 +41,27 @@ export function ReservationSection() {
   });
 
   const createReservation = useMutation({
-    mutationFn: async (data: InsertReservation) => {
-      return await apiRequest("POST", "/api/reservations", data);
+    mutationFn: async (data: InsertReservation): Promise<Reservation> => {
+      const response = await apiRequest("POST", "/api/reservations", data);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (reservation) => {
       queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
       setIsSubmitted(true);
       form.reset();
       toast({
         title: "Reservation Confirmed!",
-        description: "We look forward to serving you. A confirmation email has been sent.",
+        description: "We look forward to serving you. We've texted you a link to change or cancel your booking.",
       });
+      // The manage page is the guest's way back to their booking
+      if (reservation.manageToken) {
+        setLocation(`/reservations/manage/${reservation.manageToken}`);
+      }
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Reservation Failed",
-        description: "Please try again or call us directly.",
+        description: error.message || "Please try again or call us directly.",
         variant: "destructive",
       });
     },
@@ -70,12 +71,6 @@ export function ReservationSection() {
     createReservation.mutate(data);
   };
 
-  const timeSlots = [
-    "11:00", "11:30", "12:00", "12:30", "13:00", "13:30",
-    "14:00", "14:30", "18:00", "18:30", "19:00", "19:30",
-    "20:00", "20:30", "21:00", "21:30"
-  ];
-
   return (
     <section id="reservations" className="py-20 md:py-24 lg:py-32">
       <div className="max-w-3xl mx-auto px-4 md:px-6 lg:px-8">
@@ -175,7 +170,10 @@ export function ReservationSection() {
                             min="1"
                             max="20"
                             {...field}
-                            onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                            onChange={(e) => {
+                              field.onChange(parseInt(e.target.value) || 1);
+                              form.setValue("time", "");
+                            }}
                             data-testid="input-party-size"
                           />
                         </FormControl>
@@ -196,6 +194,10 @@ export function ReservationSection() {
                           <Input
                             type="date"
                             {...field}
+                            onChange={(e) => {
+                              field.onChange(e);
+                              form.setValue("time", "");
+                            }}
                             min={new Date().toISOString().split('T')[0]}
                             data-testid="input-date"
                           />
@@ -211,20 +213,12 @@ export function ReservationSection() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Time</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
-                          <FormControl>
-                            <SelectTrigger data-testid="select-time">
-                              <SelectValue placeholder="Select time" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {timeSlots.map((time) => (
-                              <SelectItem key={time} value={time}>
-                                {time}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                        <ReservationTimeSelect
+                          date={form.watch("date")}
+                          partySize={form.watch("partySize")}
+                          value={field.value}
+                          onChange={field.onChange}
+                        />
                         <FormMessage />
                       </FormItem>
                     )}
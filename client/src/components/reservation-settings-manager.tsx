@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { describeError } from '@/lib/api-error';
+import type { ReservationSettings } from '@shared/schema';
+
+// Seats and table time the reservation form books against
+export function ReservationSettingsManager() {
+  const [settings, setSettings] = useState<ReservationSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/reservations/settings', { credentials: 'include' });
+      if (response.ok) {
+        setSettings(await response.json());
+      } else {
+        toast({ title: 'Error', description: 'Failed to load reservation settings', variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Failed to fetch reservation settings:', error);
+      toast({ title: 'Error', description: 'Failed to load reservation settings', variant: 'destructive' });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setSaving(true);
+    try {
+      const response = await fetch('/api/reservations/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ seatingCapacity: settings.seatingCapacity, slotMinutes: settings.slotMinutes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Error', description: describeError(data, 'Failed to save reservation settings'), variant: 'destructive' });
+        return;
+      }
+      setSettings(data);
+      toast({ title: 'Success', description: 'Reservation settings saved' });
+    } catch (error) {
+      console.error('Failed to save reservation settings:', error);
+      toast({ title: 'Error', description: 'Failed to save reservation settings', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reservations</CardTitle>
+        <CardDescription>
+          How long a table is held, and how many guests fit at once until tables are set up; the reservation form only offers times that still fit
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!settings ? (
+          <p className="text-center text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <Label htmlFor="seating-capacity">Seating Capacity</Label>
+              <Input
+                id="seating-capacity"
+                type="number"
+                min="1"
+                value={settings.seatingCapacity}
+                onChange={(e) => setSettings({ ...settings, seatingCapacity: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="slot-minutes">Table Time (minutes)</Label>
+              <Input
+                id="slot-minutes"
+                type="number"
+                min="30"
+                step="15"
+                value={settings.slotMinutes}
+                onChange={(e) => setSettings({ ...settings, slotMinutes: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <Button variant="outline" onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ReservationAvailability } from "@shared/reservation-slots";
+
+// Only the times the server says a party of this size can still book on the chosen date.
+// With a manage token the guest's own booking doesn't count against the times offered.
+export function ReservationTimeSelect({
+  date,
+  partySize,
+  value,
+  onChange,
+  manageToken,
+}: {
+  date: string;
+  partySize: number;
+  value: string;
+  onChange: (value: string) => void;
+  manageToken?: string;
+}) {
+  const { data, isLoading } = useQuery<ReservationAvailability>({
+    queryKey: [`/api/reservations/availability?date=${date}&partySize=${partySize}${manageToken ? `&manageToken=${manageToken}` : ""}`],
+    enabled: !!date && partySize > 0,
+    staleTime: 60 * 1000,
+  });
+
+  const times = data?.times ?? [];
+  const placeholder = !date
+    ? "Choose a date first"
+    : isLoading
+      ? "Loading..."
+      : times.length > 0 ? "Select time" : "Fully booked";
+
+  return (
+    <Select onValueChange={onChange} value={value} disabled={!date || isLoading || times.length === 0}>
+      <SelectTrigger data-testid="select-time">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {times.map(({ time }) => (
+          <SelectItem key={time} value={time}>
+            {time}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ReservationFloorPlan } from '@/components/reservation-floor-plan';
+import { ReservationHistoryDialog } from '@/components/reservation-history-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { addDays, restaurantDate } from '@shared/order-slots';
+import { getAllowedReservationStatuses, holdsSeats, reservationStatusLabels } from '@shared/reservation-status';
+import { reservationStatuses, type Reservation, type ReservationStatus, type RestaurantTable } from '@shared/schema';
+
+const ALL_STATUSES = 'all';
+
+// What the owner clicks to move a booking to each status
+const actionLabels: Record<ReservationStatus, string> = {
+  pending: 'Reopen',
+  confirmed: 'Confirm',
+  declined: 'Decline',
+  seated: 'Seated',
+  completed: 'Completed',
+  no_show: 'No-show',
+  cancelled: 'Cancel',
+};
+
+// One day of bookings in seating order, with the lifecycle moves each one allows, and the floor plan they sit on
+export function ReservationsDayView({ tables }: { tables: RestaurantTable[] }) {
+  const [date, setDate] = useState(() => restaurantDate(new Date()));
+  const [status, setStatus] = useState<string>(ALL_STATUSES);
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReservations();
+  }, [date, status]);
+
+  const fetchReservations = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ date });
+      if (status !== ALL_STATUSES) params.set('status', status);
+      const response = await fetch(`/api/reservations?${params}`, { credentials: 'include' });
+      if (response.ok) {
+        setReservations(await response.json());
+      } else {
+        toast({ title: 'Error', description: 'Failed to load reservations', variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Failed to fetch reservations:', error);
+      toast({ title: 'Error', description: 'Failed to load reservations', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatusChange = async (reservation: Reservation, next: ReservationStatus) => {
+    setUpdatingId(reservation.id);
+    try {
+      const response = await fetch(`/api/reservations/${reservation.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ status: next }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Error', description: data.error || 'Failed to update reservation', variant: 'destructive' });
+        fetchReservations();
+        return;
+      }
+      replaceReservation(data);
+    } catch (error) {
+      console.error('Failed to update reservation:', error);
+      toast({ title: 'Error', description: 'Failed to update reservation', variant: 'destructive' });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const replaceReservation = (updated: Reservation) => {
+    setReservations(current => current.map(r => (r.id === updated.id ? updated : r)));
+  };
+
+  const tableNames = (reservation: Reservation) =>
+    (reservation.tableIds ?? []).map(id => tables.find(table => table.id === id)?.name).filter(Boolean).join(' + ');
+
+  const guests = reservations.filter(holdsSeats).reduce((sum, r) => sum + r.partySize, 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 flex-wrap">
+        <div>
+          <CardTitle>Reservations</CardTitle>
+          <CardDescription>
+            {guests} {guests === 1 ? 'guest' : 'guests'} expected on this day
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setDate(addDays(date, -1))} aria-label="Previous day">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="w-auto"
+            data-testid="input-reservations-date"
+          />
+          <Button variant="outline" size="icon" onClick={() => setDate(addDays(date, 1))} aria-label="Next day">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-40" data-testid="select-reservations-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+              {reservationStatuses.map(s => (
+                <SelectItem key={s} value={s}>{reservationStatusLabels[s]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center text-muted-foreground">Loading...</p>
+        ) : reservations.length === 0 ? (
+          <p className="text-center text-muted-foreground">No reservations on this day</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Time</th>
+                  <th className="text-left p-2">Guest</th>
+                  <th className="text-left p-2">Party</th>
+                  <th className="text-left p-2">Table</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reservations.map((reservation) => (
+                  <tr key={reservation.id} className="border-b hover:bg-muted/50 transition-colors">
+                    <td className="p-2 font-medium">{reservation.time}</td>
+                    <td className="p-2">
+                      <p className="font-medium">{reservation.name}</p>
+                      <p className="text-sm text-muted-foreground">{reservation.phone} · {reservation.email}</p>
+                      {reservation.specialRequests && (
+                        <p className="text-sm text-muted-foreground italic">{reservation.specialRequests}</p>
+                      )}
+                    </td>
+                    <td className="p-2">{reservation.partySize}</td>
+                    <td className="p-2 text-sm">{tableNames(reservation) || '—'}</td>
+                    <td className="p-2">
+                      <Badge variant={holdsSeats(reservation) ? 'default' : 'secondary'}>
+                        {reservationStatusLabels[reservation.status]}
+                      </Badge>
+                      {reservation.guestChangedAt && (
+                        <Badge variant="outline" className="ml-1" data-testid={`badge-guest-changed-${reservation.id}`}>
+                          Changed by guest
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="p-2">
+                      <div className="flex gap-2 flex-wrap">
+                        {getAllowedReservationStatuses(reservation.status).map(next => (
+                          <Button
+                            key={next}
+                            size="sm"
+                            variant={next === 'declined' || next === 'cancelled' || next === 'no_show' ? 'outline' : 'default'}
+                            disabled={updatingId === reservation.id}
+                            onClick={() => handleStatusChange(reservation, next)}
+                            data-testid={`button-reservation-${next}-${reservation.id}`}
+                          >
+                            {actionLabels[next]}
+                          </Button>
+                        ))}
+                        <ReservationHistoryDialog reservationId={reservation.id} guestName={reservation.name} />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {!loading && (
+          <div className="mt-6">
+            <ReservationFloorPlan tables={tables} reservations={reservations} onMoved={replaceReservation} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { describeError } from '@/lib/api-error';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import type { RestaurantTable, TableArea } from '@shared/schema';
+
+interface TableForm {
+  name: string;
+  seats: string;
+  area: TableArea;
+  combinableWith: string[];
+  planX: string;
+  planY: string;
+  active: boolean;
+}
+
+const emptyTableForm: TableForm = {
+  name: '',
+  seats: '4',
+  area: 'indoor',
+  combinableWith: [],
+  planX: '50',
+  planY: '50',
+  active: true,
+};
+
+// The dining room's tables: seats, area, which neighbours can be pushed together, and where they sit on the floor plan
+export function RestaurantTablesManager({
+  tables,
+  onChange,
+}: {
+  tables: RestaurantTable[];
+  onChange: () => void;
+}) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTableId, setEditingTableId] = useState<string | null>(null);
+  const [tableForm, setTableForm] = useState<TableForm>(emptyTableForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const tableName = (id: string) => tables.find(table => table.id === id)?.name;
+
+  const openTableDialog = (table?: RestaurantTable) => {
+    setEditingTableId(table?.id ?? null);
+    setTableForm(table ? {
+      name: table.name,
+      seats: table.seats.toString(),
+      area: table.area,
+      combinableWith: table.combinableWith,
+      planX: table.planX.toString(),
+      planY: table.planY.toString(),
+      active: table.active,
+    } : emptyTableForm);
+    setDialogOpen(true);
+  };
+
+  const handleSaveTable = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(editingTableId ? `/api/tables/${editingTableId}` : '/api/tables', {
+        method: editingTableId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(tableForm),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Error', description: describeError(data, 'Failed to save table'), variant: 'destructive' });
+        return;
+      }
+      setDialogOpen(false);
+      toast({ title: 'Success', description: 'Table saved' });
+      onChange();
+    } catch (error) {
+      console.error('Failed to save table:', error);
+      toast({ title: 'Error', description: 'Failed to save table', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTable = async (table: RestaurantTable) => {
+    if (!confirm(`Delete table "${table.name}"? Reservations seated there will need a new table.`)) return;
+    try {
+      const response = await fetch(`/api/tables/${table.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        toast({ title: 'Error', description: 'Failed to delete table', variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Success', description: 'Table deleted' });
+      onChange();
+    } catch (error) {
+      console.error('Failed to delete table:', error);
+      toast({ title: 'Error', description: 'Failed to delete table', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Tables</CardTitle>
+          <CardDescription>
+            Once tables are set up, reservations are seated at the best-fitting free table or group of neighbours
+            instead of counting against the seating capacity
+          </CardDescription>
+        </div>
+        <Button onClick={() => openTableDialog()}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Table
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {tables.length === 0 ? (
+          <p className="text-center text-muted-foreground">No tables yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Name</th>
+                  <th className="text-left p-2">Seats</th>
+                  <th className="text-left p-2">Area</th>
+                  <th className="text-left p-2">Combines With</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tables.map((table) => (
+                  <tr key={table.id} className="border-b hover:bg-muted/50 transition-colors">
+                    <td className="p-2 font-medium">{table.name}</td>
+                    <td className="p-2">{table.seats}</td>
+                    <td className="p-2">{table.area === 'terrace' ? 'Terrace' : 'Indoor'}</td>
+                    <td className="p-2 text-sm text-muted-foreground">
+                      {table.combinableWith.map(tableName).filter(Boolean).join(', ') || '—'}
+                    </td>
+                    <td className="p-2">
+                      <span className={`px-2 py-1 rounded text-xs ${table.active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                        {table.active ? 'Active' : 'Out of service'}
+                      </span>
+                    </td>
+                    <td className="p-2">
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openTableDialog(table)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => handleDeleteTable(table)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingTableId ? 'Edit Table' : 'Add Table'}</DialogTitle>
+            <DialogDescription>
+              Neighbours are tables staff can push against this one for a larger party
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="table-name">Name</Label>
+                <Input
+                  id="table-name"
+                  value={tableForm.name}
+                  onChange={(e) => setTableForm({ ...tableForm, name: e.target.value })}
+                  placeholder="T1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="table-seats">Seats</Label>
+                <Input
+                  id="table-seats"
+                  type="number"
+                  min="1"
+                  value={tableForm.seats}
+                  onChange={(e) => setTableForm({ ...tableForm, seats: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Area</Label>
+              <Select
+                value={tableForm.area}
+                onValueChange={(value) => setTableForm({ ...tableForm, area: value as TableArea })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="indoor">Indoor</SelectItem>
+                  <SelectItem value="terrace">Terrace</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Neighbours</Label>
+              <div className="max-h-40 overflow-y-auto rounded border p-3 grid grid-cols-3 gap-2">
+                {tables.filter(table => table.id !== editingTableId).length === 0 ? (
+                  <p className="col-span-3 text-sm text-muted-foreground">No other tables yet</p>
+                ) : tables.filter(table => table.id !== editingTableId).map(table => (
+                  <label key={table.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={tableForm.combinableWith.includes(table.id)}
+                      onCheckedChange={(checked) => setTableForm({
+                        ...tableForm,
+                        combinableWith: checked === true
+                          ? [...tableForm.combinableWith, table.id]
+                          : tableForm.combinableWith.filter(id => id !== table.id),
+                      })}
+                    />
+                    {table.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="table-plan-x">Floor Plan Left (%)</Label>
+                <Input
+                  id="table-plan-x"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={tableForm.planX}
+                  onChange={(e) => setTableForm({ ...tableForm, planX: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="table-plan-y">Floor Plan Top (%)</Label>
+                <Input
+                  id="table-plan-y"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={tableForm.planY}
+                  onChange={(e) => setTableForm({ ...tableForm, planY: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="table-active"
+                checked={tableForm.active}
+                onCheckedChange={(checked) => setTableForm({ ...tableForm, active: checked === true })}
+              />
+              <Label htmlFor="table-active">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveTable} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Table'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { describeError } from '@/lib/api-error';
+import { Bell, Link as LinkIcon, Plus } from 'lucide-react';
+import { waitlistStatusLabels, type QueuedWaitlistEntry } from '@shared/waitlist';
+
+// Waits tick by the minute, and guests may be added from another device
+const REFRESH_MS = 30 * 1000;
+
+const emptyEntryForm = { name: '', phone: '', partySize: '2' };
+
+const minutesSince = (value: Date | string) => Math.max(0, Math.round((Date.now() - new Date(value).getTime()) / 60000));
+
+// Walk-in queue for busy evenings: add parties, text them when their table is ready, then seat them
+export function WaitlistManager() {
+  const [entries, setEntries] = useState<QueuedWaitlistEntry[]>([]);
+  const [entryForm, setEntryForm] = useState(emptyEntryForm);
+  const [adding, setAdding] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchWaitlist();
+    const interval = setInterval(fetchWaitlist, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fetchWaitlist = async () => {
+    try {
+      const response = await fetch('/api/waitlist', { credentials: 'include' });
+      if (response.ok) {
+        setEntries(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch waitlist:', error);
+    }
+  };
+
+  const handleAdd = async () => {
+    setAdding(true);
+    try {
+      const response = await fetch('/api/waitlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(entryForm),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Error', description: describeError(data, 'Failed to add party'), variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Added to waitlist', description: `Tell ${data.name} about ${data.quotedMinutes} minutes` });
+      setEntryForm(emptyEntryForm);
+      fetchWaitlist();
+    } catch (error) {
+      console.error('Failed to add to waitlist:', error);
+      toast({ title: 'Error', description: 'Failed to add party', variant: 'destructive' });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleAction = async (entry: QueuedWaitlistEntry, action: 'notify' | 'seated' | 'left') => {
+    setUpdatingId(entry.id);
+    try {
+      const response = await fetch(action === 'notify' ? `/api/waitlist/${entry.id}/notify` : `/api/waitlist/${entry.id}`, {
+        method: action === 'notify' ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: action === 'notify' ? undefined : JSON.stringify({ status: action }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: 'Error', description: data.error || 'Failed to update waitlist', variant: 'destructive' });
+      } else if (action === 'notify') {
+        toast({ title: 'Guest notified', description: `${entry.name} was told their table is ready` });
+      }
+      fetchWaitlist();
+    } catch (error) {
+      console.error('Failed to update waitlist:', error);
+      toast({ title: 'Error', description: 'Failed to update waitlist', variant: 'destructive' });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCopyLink = async (entry: QueuedWaitlistEntry) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/waitlist/${entry.token}`);
+      toast({ title: 'Link copied', description: `Send it to ${entry.name} to follow their place` });
+    } catch (error) {
+      console.error('Failed to copy waitlist link:', error);
+    }
+  };
+
+  const queue = entries.filter(entry => entry.place);
+  const done = entries.filter(entry => !entry.place).reverse();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Waitlist</CardTitle>
+        <CardDescription>
+          {queue.length === 0
+            ? 'Nobody is waiting'
+            : `${queue.length} ${queue.length === 1 ? 'party' : 'parties'} waiting; waits are estimated from how fast tables turn over`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label htmlFor="waitlist-name">Name</Label>
+            <Input
+              id="waitlist-name"
+              value={entryForm.name}
+              onChange={(e) => setEntryForm({ ...entryForm, name: e.target.value })}
+              data-testid="input-waitlist-name"
+            />
+          </div>
+          <div>
+            <Label htmlFor="waitlist-phone">Phone</Label>
+            <Input
+              id="waitlist-phone"
+              type="tel"
+              placeholder="05 XX XX XX XX"
+              value={entryForm.phone}
+              onChange={(e) => setEntryForm({ ...entryForm, phone: e.target.value })}
+              data-testid="input-waitlist-phone"
+            />
+          </div>
+          <div>
+            <Label htmlFor="waitlist-party-size">Party Size</Label>
+            <Input
+              id="waitlist-party-size"
+              type="number"
+              min="1"
+              max="20"
+              value={entryForm.partySize}
+              onChange={(e) => setEntryForm({ ...entryForm, partySize: e.target.value })}
+              data-testid="input-waitlist-party-size"
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={adding} data-testid="button-add-waitlist">
+            <Plus className="w-4 h-4 mr-2" />
+            {adding ? 'Adding...' : 'Add Party'}
+          </Button>
+        </div>
+
+        {queue.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">#</th>
+                  <th className="text-left p-2">Party</th>
+                  <th className="text-left p-2">Waiting</th>
+                  <th className="text-left p-2">Estimated Wait</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {queue.map((entry) => (
+                  <tr key={entry.id} className="border-b hover:bg-muted/50 transition-colors">
+                    <td className="p-2 font-semibold">{entry.place!.position}</td>
+                    <td className="p-2">
+                      <p className="font-medium">{entry.name} ({entry.partySize})</p>
+                      <p className="text-sm text-muted-foreground">{entry.phone}</p>
+                    </td>
+                    <td className="p-2 text-sm">
+                      {minutesSince(entry.createdAt)} min
+                      <span className="text-muted-foreground"> (quoted {entry.quotedMinutes})</span>
+                    </td>
+                    <td className="p-2 text-sm">
+                      {entry.status === 'notified' ? '—' : `~${entry.place!.estimatedWaitMinutes} min`}
+                    </td>
+                    <td className="p-2">
+                      <Badge variant={entry.status === 'notified' ? 'default' : 'outline'}>
+                        {waitlistStatusLabels[entry.status]}
+                        {entry.notifiedAt && ` · ${minutesSince(entry.notifiedAt)} min ago`}
+                      </Badge>
+                    </td>
+                    <td className="p-2">
+                      <div className="flex gap-2 flex-wrap">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={updatingId === entry.id}
+                          onClick={() => handleAction(entry, 'notify')}
+                          data-testid={`button-waitlist-notify-${entry.id}`}
+                        >
+                          <Bell className="w-4 h-4 mr-1" />
+                          {entry.status === 'notified' ? 'Notify again' : 'Notify'}
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={updatingId === entry.id}
+                          onClick={() => handleAction(entry, 'seated')}
+                          data-testid={`button-waitlist-seat-${entry.id}`}
+                        >
+                          Seat
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={updatingId === entry.id}
+                          onClick={() => handleAction(entry, 'left')}
+                        >
+                          Left
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleCopyLink(entry)} aria-label="Copy guest link">
+                          <LinkIcon className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {done.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Earlier today: {done.map(entry => `${entry.name} (${waitlistStatusLabels[entry.status].toLowerCase()})`).join(', ')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,12 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
-import type { MenuItem } from "@shared/schema";
-import type { CartItem } from "@shared/cart-types";
+import type { MenuItem, OrderItemOption } from "@shared/schema";
+import { getCartLineId, getCartItemUnitPrice, type CartItem } from "@shared/cart-types";
 
 interface CartContextType {
   items: CartItem[];
-  addItem: (item: MenuItem, quantity?: number) => void;
-  removeItem: (itemId: string) => void;
-  updateQuantity: (itemId: string, quantity: number) => void;
+  addItem: (item: MenuItem, quantity?: number, selectedOptions?: OrderItemOption[]) => void;
+  removeItem: (lineId: string) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
   clearCart: () => void;
   totalItems: number;
   totalPrice: number;
@@ -16,13 +16,25 @@ const CartContext = createContext<CartContextType | undefined>(undefined);
 
 const CART_STORAGE_KEY = "creperie-cart";
 
+// Carts saved before option groups existed have no lineId or selectedOptions
+function restoreCartItem(item: any): CartItem {
+  const selectedOptions = item.selectedOptions ?? [];
+  return {
+    ...item,
+    optionGroups: item.optionGroups ?? [],
+    selectedOptions,
+    lineId: item.lineId ?? getCartLineId(item.id, selectedOptions),
+  };
+}
+
 export function CartProvider({ children }: { children: ReactNode }) {
   const [items, setItems] = useState<CartItem[]>(() => {
     if (typeof window !== "undefined") {
       const stored = localStorage.getItem(CART_STORAGE_KEY);
       if (stored) {
         try {
-          return JSON.parse(stored);
+          const parsed = JSON.parse(stored);
+          return Array.isArray(parsed) ? parsed.map(restoreCartItem) : [];
         } catch {
           return [];
         }
@@ -35,29 +47,30 @@ export function CartProvider({ children }: { children: ReactNode }) {
     localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
   }, [items]);
 
-  const addItem = (item: MenuItem, quantity: number = 1) => {
+  const addItem = (item: MenuItem, quantity: number = 1, selectedOptions: OrderItemOption[] = []) => {
+    const lineId = getCartLineId(item.id, selectedOptions);
     setItems((currentItems) => {
-      const existingItem = currentItems.find((i) => i.id === item.id);
+      const existingItem = currentItems.find((i) => i.lineId === lineId);
       if (existingItem) {
         return currentItems.map((i) =>
-          i.id === item.id ? { ...i, quantity: i.quantity + quantity } : i
+          i.lineId === lineId ? { ...i, quantity: i.quantity + quantity } : i
         );
       }
-      return [...currentItems, { ...item, quantity }];
+      return [...currentItems, { ...item, lineId, selectedOptions, quantity }];
     });
   };
 
-  const removeItem = (itemId: string) => {
-    setItems((currentItems) => currentItems.filter((i) => i.id !== itemId));
+  const removeItem = (lineId: string) => {
+    setItems((currentItems) => currentItems.filter((i) => i.lineId !== lineId));
   };
 
-  const updateQuantity = (itemId: string, quantity: number) => {
+  const updateQuantity = (lineId: string, quantity: number) => {
     if (quantity <= 0) {
-      removeItem(itemId);
+      removeItem(lineId);
       return;
     }
     setItems((currentItems) =>
-      currentItems.map((i) => (i.id === itemId ? { ...i, quantity } : i))
+      currentItems.map((i) => (i.lineId === lineId ? { ...i, quantity } : i))
     );
   };
 
@@ -67,7 +80,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
   const totalPrice = items.reduce(
-    (sum, item) => sum + parseFloat(item.price) * item.quantity,
+    (sum, item) => sum + getCartItemUnitPrice(item) * item.quantity,
     0
   );
 
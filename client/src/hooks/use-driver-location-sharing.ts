@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from "react";
+import { DRIVER_LOCATION_INTERVAL_MS } from "@shared/driver-location";
+
+export type LocationSharingState = "idle" | "sharing" | "denied" | "unsupported";
+
+// Watches the device position while the livreur has orders out for delivery and sends it
+// to each of them at most every DRIVER_LOCATION_INTERVAL_MS. Stops as soon as none are left,
+// e.g. once the last one is marked delivered.
+export function useDriverLocationSharing(orderIds: string[]): LocationSharingState {
+  const [state, setState] = useState<LocationSharingState>("idle");
+  const lastSentAt = useRef<Map<string, number>>(new Map());
+  // Stable key so a re-render with the same orders doesn't restart the watch
+  const key = [...orderIds].sort().join(",");
+
+  useEffect(() => {
+    if (!key) {
+      setState("idle");
+      return;
+    }
+    if (!("geolocation" in navigator)) {
+      setState("unsupported");
+      return;
+    }
+
+    const ids = key.split(",");
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        setState("sharing");
+        const now = Date.now();
+        ids.forEach((orderId) => {
+          if (now - (lastSentAt.current.get(orderId) ?? 0) < DRIVER_LOCATION_INTERVAL_MS) return;
+          lastSentAt.current.set(orderId, now);
+
+          fetch(`/api/orders/${orderId}/location`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              lat: position.coords.latitude,
+              lng: position.coords.longitude,
+              accuracy: position.coords.accuracy,
+            }),
+            credentials: "include",
+          }).catch((error) => console.error("Failed to send driver location:", error));
+        });
+      },
+      (error) => {
+        console.error("Failed to watch driver location:", error);
+        if (error.code === error.PERMISSION_DENIED) setState("denied");
+      },
+      { enableHighAccuracy: true, maximumAge: DRIVER_LOCATION_INTERVAL_MS / 2 },
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      ids.forEach((orderId) => lastSentAt.current.delete(orderId));
+    };
+  }, [key]);
+
+  return state;
+}
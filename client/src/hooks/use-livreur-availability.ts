@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from "react";
+import type { LivreurAvailability } from "@shared/livreur-availability";
+
+// Shifts start and end on their own, so poll on top of refreshing when something changes
+const REFRESH_MS = 60 * 1000;
+
+// Owner view of who is online and on shift. Pass anything whose change should trigger
+// a reload, e.g. the live order list, since assigning or delivering changes each livreur's load.
+export function useLivreurAvailability(refreshKey?: unknown) {
+  const [availability, setAvailability] = useState<LivreurAvailability[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch("/api/livreurs/availability", { credentials: "include" });
+      if (response.ok) {
+        setAvailability(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch livreur availability:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  useEffect(() => {
+    const interval = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return { availability, refresh };
+}
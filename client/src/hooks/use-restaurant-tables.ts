@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from "react";
+import type { RestaurantTable } from "@shared/schema";
+
+// Owner view of the dining room's tables, shared by the floor plan and the table editor
+export function useRestaurantTables() {
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch("/api/tables", { credentials: "include" });
+      if (response.ok) {
+        setTables(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch tables:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { tables, refresh };
+}
@@ -0,0 +1,17 @@
+// Error bodies sent by the API: { error } plus, for validation errors, the Zod issues in `details`
+function issueMessages(details: unknown): string[] {
+  if (!Array.isArray(details)) return [];
+  return details
+    .map((issue: unknown) =>
+      typeof issue === "object" && issue !== null && "message" in issue && typeof issue.message === "string"
+        ? issue.message
+        : "")
+    .filter(Boolean);
+}
+
+// Toast text for a failed API call, e.g. "Invalid reservation data: Please pick a date. Use HH:MM"
+export function describeError(data: unknown, fallback: string): string {
+  const body = typeof data === "object" && data !== null ? data as { error?: unknown; details?: unknown } : {};
+  const error = typeof body.error === "string" && body.error ? body.error : fallback;
+  return [error, issueMessages(body.details).join(". ")].filter(Boolean).join(": ");
+}
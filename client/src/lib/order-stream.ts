@@ -0,0 +1,68 @@
+import type { OrderWithItems } from '@shared/schema';
+
+const byNewest = (a: OrderWithItems, b: OrderWithItems) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+// Loads the orders visible to the signed-in user and keeps them current through
+// the server's SSE stream (GET /api/orders/stream)
+export const subscribeToOrders = (
+  callback: (orders: OrderWithItems[]) => void,
+  onNotice?: (message: string) => void
+) => {
+  let orders: OrderWithItems[] = [];
+  let closed = false;
+  let connectedBefore = false;
+
+  const emit = () => {
+    if (!closed) callback([...orders].sort(byNewest));
+  };
+
+  const loadOrders = async () => {
+    try {
+      const response = await fetch('/api/orders', { credentials: 'include' });
+      if (response.ok) {
+        orders = await response.json();
+      }
+    } catch (error) {
+      console.error('Failed to fetch orders:', error);
+    } finally {
+      emit();
+    }
+  };
+
+  const upsert = (event: MessageEvent) => {
+    const order: OrderWithItems = JSON.parse(event.data);
+    orders = [order, ...orders.filter(o => o.id !== order.id)];
+    emit();
+  };
+
+  const source = new EventSource('/api/orders/stream', { withCredentials: true });
+  source.addEventListener('order.created', upsert);
+  source.addEventListener('order.updated', upsert);
+  source.addEventListener('order.removed', (event) => {
+    const { id } = JSON.parse((event as MessageEvent).data);
+    orders = orders.filter(o => o.id !== id);
+    emit();
+  });
+
+  // Sent to livreurs going online/offline or starting/ending a shift: which open orders they see changed
+  source.addEventListener('order.resync', () => loadOrders());
+
+  source.addEventListener('order.notice', (event) => {
+    const { message } = JSON.parse((event as MessageEvent).data);
+    if (!closed) onNotice?.(message);
+  });
+
+  // Changes made while disconnected are not replayed, so resync after a reconnect
+  source.onopen = () => {
+    if (connectedBefore) loadOrders();
+    connectedBefore = true;
+  };
+
+  loadOrders();
+
+  return () => {
+    closed = true;
+    source.close();
+  };
+};
@@ -6,6 +6,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useCart } from "@/contexts/cart-context";
+import { getCartItemUnitPrice } from "@shared/cart-types";
 import { Minus, Plus, Trash2, ShoppingBag, ArrowRight } from "lucide-react";
 
 export default function CartPage() {
@@ -60,7 +61,7 @@ export default function CartPage() {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             <div className="lg:col-span-2 space-y-4">
               {items.map((item) => (
-                <Card key={item.id} data-testid={`cart-item-${item.id}`}>
+                <Card key={item.lineId} data-testid={`cart-item-${item.lineId}`}>
                   <CardContent className="p-4">
                     <div className="flex gap-4">
                       {item.imageUrl && (
@@ -69,16 +70,21 @@ export default function CartPage() {
                             src={item.imageUrl}
                             alt={item.name}
                             className="w-full h-full object-cover"
-                            data-testid={`cart-img-${item.id}`}
+                            data-testid={`cart-img-${item.lineId}`}
                           />
                         </div>
                       )}
                       <div className="flex-1 min-w-0">
                         <div className="flex items-start justify-between gap-4 mb-3">
                           <div>
-                            <h3 className="font-semibold text-lg mb-1" data-testid={`cart-item-name-${item.id}`}>
+                            <h3 className="font-semibold text-lg mb-1" data-testid={`cart-item-name-${item.lineId}`}>
                               {item.name}
                             </h3>
+                            {item.selectedOptions.length > 0 && (
+                              <p className="text-sm font-medium mb-1">
+                                {item.selectedOptions.map(o => o.optionName).join(", ")}
+                              </p>
+                            )}
                             <p className="text-sm text-muted-foreground line-clamp-2">
                               {item.description}
                             </p>
@@ -86,9 +92,9 @@ export default function CartPage() {
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => removeItem(item.id)}
+                            onClick={() => removeItem(item.lineId)}
                             className="flex-shrink-0"
-                            data-testid={`button-remove-${item.id}`}
+                            data-testid={`button-remove-${item.lineId}`}
                           >
                             <Trash2 className="w-4 h-4" />
                           </Button>
@@ -99,14 +105,14 @@ export default function CartPage() {
                               variant="outline"
                               size="icon"
                               className="h-8 w-8"
-                              onClick={() => updateQuantity(item.id, item.quantity - 1)}
-                              data-testid={`button-decrease-${item.id}`}
+                              onClick={() => updateQuantity(item.lineId, item.quantity - 1)}
+                              data-testid={`button-decrease-${item.lineId}`}
                             >
                               <Minus className="w-3 h-3" />
                             </Button>
                             <span 
                               className="w-12 text-center font-medium"
-                              data-testid={`quantity-${item.id}`}
+                              data-testid={`quantity-${item.lineId}`}
                             >
                               {item.quantity}
                             </span>
@@ -114,17 +120,17 @@ export default function CartPage() {
                               variant="outline"
                               size="icon"
                               className="h-8 w-8"
-                              onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                              data-testid={`button-increase-${item.id}`}
+                              onClick={() => updateQuantity(item.lineId, item.quantity + 1)}
+                              data-testid={`button-increase-${item.lineId}`}
                             >
                               <Plus className="w-3 h-3" />
                             </Button>
                           </div>
                           <span 
                             className="font-bold text-lg text-primary"
-                            data-testid={`cart-item-price-${item.id}`}
+                            data-testid={`cart-item-price-${item.lineId}`}
                           >
-                            {(parseFloat(item.price) * item.quantity).toFixed(2)} DZD
+                            {(getCartItemUnitPrice(item) * item.quantity).toFixed(2)} DZD
                           </span>
                         </div>
                       </div>
@@ -141,12 +147,13 @@ export default function CartPage() {
                   
                   <div className="space-y-3 mb-4">
                     {items.map((item) => (
-                      <div key={item.id} className="flex justify-between text-sm">
+                      <div key={item.lineId} className="flex justify-between text-sm">
                         <span className="text-muted-foreground">
                           {item.name} × {item.quantity}
+                          {item.selectedOptions.length > 0 && ` (${item.selectedOptions.map(o => o.optionName).join(", ")})`}
                         </span>
                         <span className="font-medium">
-                          {(parseFloat(item.price) * item.quantity).toFixed(2)} DZD
+                          {(getCartItemUnitPrice(item) * item.quantity).toFixed(2)} DZD
                         </span>
                       </div>
                     ))}
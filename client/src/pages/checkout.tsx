@@ -20,25 +20,62 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useCart } from "@/contexts/cart-context";
+import { useAuth } from "@/contexts/auth-context";
+import { OrderSlotPicker } from "@/components/order-slot-picker";
+import { CommuneSelect } from "@/components/commune-select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { customerOrderSchema, type CustomerOrder, type OrderItem } from "@shared/cart-types";
-import { CheckCircle2, Loader2, MapPin } from "lucide-react";
+import { customerOrderSchema, getCartItemUnitPrice, type CustomerOrder } from "@shared/cart-types";
+import type { DeliveryQuote } from "@shared/delivery-quote";
+import { formatAlgerianAddress, formatCustomerAddress } from "@shared/customer-address";
+import { algerianAddressSchema, orderTypes, type AlgerianAddress, type CustomerAddress, type Order, type OrderType } from "@shared/schema";
+import { CheckCircle2, Loader2, MapPin, AlertCircle } from "lucide-react";
 import { auth } from "@/lib/firebase";
 import { signInWithPopup, GoogleAuthProvider, onAuthStateChanged } from "firebase/auth";
-import { createFirebaseOrder } from "@/lib/firebase-orders";
+
+const NEW_ADDRESS = "new";
+
+const isOrderType = (value: string): value is OrderType => (orderTypes as readonly string[]).includes(value);
+
+const toAddressParts = (data: CustomerOrder): AlgerianAddress => ({
+  wilaya: data.wilaya ?? "",
+  commune: data.commune ?? "",
+  district: data.district ?? "",
+  building: data.building?.trim() || null,
+  floor: data.floor?.trim() || null,
+  landmark: data.landmark?.trim() || null,
+});
 
 export default function CheckoutPage() {
   const [, setLocation] = useLocation();
+  const { user } = useAuth();
   const { items, totalPrice, clearCart } = useCart();
   const { toast } = useToast();
   const [orderSuccess, setOrderSuccess] = useState(false);
-  const [deliveryType, setDeliveryType] = useState<'pickup' | 'delivery'>('pickup');
-  const [deliveryFee] = useState(200); // 200 DZD delivery fee
+  const [deliveryType, setDeliveryType] = useState<OrderType>('pickup');
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [deliveryQuote, setDeliveryQuote] = useState<DeliveryQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const deliveryFee = deliveryType === 'delivery' && deliveryQuote?.available ? parseFloat(deliveryQuote.fee) : 0;
+  const canPlaceOrder = deliveryType === 'pickup' || !!deliveryQuote?.available;
   const [googleUser, setGoogleUser] = useState<any>(null);
   const [loadingAuth, setLoadingAuth] = useState(false);
+  const [savedAddresses, setSavedAddresses] = useState<CustomerAddress[]>([]);
+  const [addressId, setAddressId] = useState(NEW_ADDRESS);
+  const [saveAddress, setSaveAddress] = useState(false);
+  const [saveAddressLabel, setSaveAddressLabel] = useState("Home");
+
+  // Signed-in customers pick from their address book; the server copies the chosen one onto the order
+  useEffect(() => {
+    if (!user) return;
+    fetch("/api/me/addresses", { credentials: "include" })
+      .then(response => response.ok ? response.json() : [])
+      .then(setSavedAddresses)
+      .catch(error => console.error("Failed to fetch saved addresses:", error));
+  }, [user]);
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (user) => {
@@ -73,14 +110,88 @@ export default function CheckoutPage() {
     }
   };
 
+  // The fee shown here is only a preview; the server quotes it again when the order is placed
+  const requestDeliveryQuote = async (location: { lat?: number; lng?: number; address?: string; commune?: string }) => {
+    setQuoting(true);
+    setQuoteError(null);
+    try {
+      const response = await fetch("/api/delivery/quote", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...location, subtotal: totalPrice.toFixed(2) }),
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setDeliveryQuote(null);
+        setQuoteError(data.error || "Failed to check delivery for this address");
+        return;
+      }
+      setDeliveryQuote(data as DeliveryQuote);
+    } catch (error) {
+      console.error("Failed to quote delivery:", error);
+      setDeliveryQuote(null);
+      setQuoteError("Failed to check delivery for this address");
+    } finally {
+      setQuoting(false);
+    }
+  };
+
+  const handleAddressChoice = (id: string) => {
+    setAddressId(id);
+    const address = savedAddresses.find(a => a.id === id);
+    const location = address?.lat != null && address.lng != null ? { lat: address.lat, lng: address.lng } : null;
+    setUserLocation(location);
+    setDeliveryQuote(null);
+    if (address) {
+      requestDeliveryQuote({
+        ...(location ?? { address: formatCustomerAddress(address) }),
+        commune: address.commune ?? undefined,
+      });
+    }
+  };
+
+  // Commune zones price by commune, so a shared location is quoted again once the commune is known
+  const handleCommuneChange = ({ wilaya, commune }: { wilaya: string; commune: string }) => {
+    form.setValue("wilaya", wilaya);
+    form.setValue("commune", commune, { shouldValidate: form.formState.isSubmitted });
+    setDeliveryQuote(null);
+    if (userLocation && commune) {
+      requestDeliveryQuote({ ...userLocation, commune });
+    }
+  };
+
+  // Keeps a newly typed address for next time, once the order went through
+  const saveNewAddress = async (data: CustomerOrder, point: { lat: number; lng: number } | null) => {
+    try {
+      await fetch("/api/me/addresses", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label: saveAddressLabel.trim() || "Home",
+          ...toAddressParts(data),
+          street: data.district,
+          district: null,
+          lat: point?.lat ?? null,
+          lng: point?.lng ?? null,
+        }),
+        credentials: "include",
+      });
+    } catch (error) {
+      console.error("Failed to save address:", error);
+    }
+  };
+
   const getCurrentLocation = () => {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          setUserLocation({
+          const location = {
             lat: position.coords.latitude,
             lng: position.coords.longitude,
-          });
+          };
+          setUserLocation(location);
+          requestDeliveryQuote({ ...location, commune: form.getValues("commune") || undefined });
           toast({
             title: "Location captured",
             description: "Your location has been saved for delivery.",
@@ -105,8 +216,13 @@ export default function CheckoutPage() {
       phone: "",
       email: "",
       message: "",
-      preferredTime: "",
-      deliveryAddress: "",
+      scheduledFor: "",
+      wilaya: "",
+      commune: "",
+      district: "",
+      building: "",
+      floor: "",
+      landmark: "",
     },
   });
 
@@ -115,75 +231,57 @@ export default function CheckoutPage() {
       const orderItems = items.map(item => ({
         menuItemId: item.id,
         name: item.name,
-        price: item.price,
+        price: getCartItemUnitPrice(item).toFixed(2),
         quantity: item.quantity,
+        selectedOptions: item.selectedOptions.map(o => ({ groupId: o.groupId, optionId: o.optionId })),
       }));
 
-      const finalTotal = deliveryType === 'delivery' ? totalPrice + deliveryFee : totalPrice;
-
-      // Create order in Firebase
-      const firebaseOrderData: any = {
-        customerFirstName: data.firstName,
-        customerLastName: data.lastName,
-        customerEmail: data.email,
-        customerPhone: data.phone,
-        items: orderItems,
-        totalAmount: finalTotal.toString(),
-        deliveryFee: deliveryType === 'delivery' ? deliveryFee.toString() : '0',
-        deliveryType,
-        status: 'pending' as const,
-      };
-
-      // Only add location if delivery type is delivery AND address exists
-      if (deliveryType === 'delivery' && data.deliveryAddress) {
-        firebaseOrderData.location = {
-          address: data.deliveryAddress,
-        };
-        // Only add coordinates if they exist
-        if (userLocation) {
-          firebaseOrderData.location.coordinates = userLocation;
-        }
-      }
+      const finalTotal = totalPrice + deliveryFee;
+      const isDelivery = deliveryType === 'delivery';
 
-      // Only add notes if they exist
-      if (data.message) {
-        firebaseOrderData.notes = data.message;
-      }
-
-      // Only add preferredTime if it exists
-      if (data.preferredTime) {
-        firebaseOrderData.preferredTime = data.preferredTime;
-      }
-
-      await createFirebaseOrder(firebaseOrderData);
-
-      // Also save to PostgreSQL for backup
+      // The server re-prices the order and publishes it to the live dashboards
       const orderData = {
         customerName: `${data.firstName} ${data.lastName}`,
         customerEmail: data.email,
         customerPhone: data.phone,
-        items: JSON.stringify(orderItems),
+        items: orderItems,
         totalAmount: finalTotal.toString(),
         orderType: deliveryType,
-        deliveryAddress: data.deliveryAddress,
-        notes: data.message 
-          ? `${data.message}${data.preferredTime ? `\n\nPreferred Time: ${data.preferredTime}` : ''}`
-          : data.preferredTime 
-            ? `Preferred Time: ${data.preferredTime}` 
-            : undefined,
+        addressParts: isDelivery && addressId === NEW_ADDRESS ? toAddressParts(data) : undefined,
+        deliveryLat: isDelivery ? deliveryQuote?.point.lat ?? null : null,
+        deliveryLng: isDelivery ? deliveryQuote?.point.lng ?? null : null,
+        addressId: isDelivery && addressId !== NEW_ADDRESS ? addressId : undefined,
+        scheduledFor: data.scheduledFor || null,
+        notes: data.message || null,
       };
 
-      return await apiRequest("POST", "/api/orders", orderData);
+      const response = await fetch("/api/orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(orderData),
+        credentials: "include",
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        // Zones may have changed since the preview; show the server's quote instead
+        if (result.quote) setDeliveryQuote(result.quote);
+        throw new Error(result.error || "Failed to place order");
+      }
+      if (isDelivery && user && addressId === NEW_ADDRESS && saveAddress) {
+        await saveNewAddress(data, deliveryQuote?.point ?? null);
+      }
+      return result as Order;
     },
-    onSuccess: () => {
+    onSuccess: (order) => {
       setOrderSuccess(true);
       clearCart();
       toast({
         title: "Order Placed Successfully!",
         description: "Thank you for your order. We will contact you shortly to confirm.",
       });
+      // The tracking page is the only way back to the order for guests
       setTimeout(() => {
-        setLocation("/");
+        setLocation(order.trackingToken ? `/track/${order.trackingToken}` : "/");
       }, 3000);
     },
     onError: (error: any) => {
@@ -196,6 +294,24 @@ export default function CheckoutPage() {
   });
 
   const onSubmit = (data: CustomerOrder) => {
+    // The address fields are only required for a new delivery address, so they are checked here
+    if (deliveryType === 'delivery' && addressId === NEW_ADDRESS) {
+      const address = algerianAddressSchema.safeParse(toAddressParts(data));
+      if (!address.success) {
+        address.error.issues.forEach(issue => {
+          form.setError(issue.path[0] as keyof CustomerOrder, { message: issue.message });
+        });
+        return;
+      }
+    }
+    if (!canPlaceOrder) {
+      toast({
+        title: "Delivery unavailable",
+        description: deliveryQuote?.message || quoteError || "Please check delivery to your address first.",
+        variant: "destructive",
+      });
+      return;
+    }
     createOrder.mutate(data);
   };
 
@@ -216,7 +332,7 @@ export default function CheckoutPage() {
               Thank you for your order. We've received your request and will contact you shortly.
             </p>
             <p className="text-sm text-muted-foreground">
-              Redirecting to home page...
+              Redirecting to your order tracking page...
             </p>
           </div>
         </main>
@@ -279,14 +395,16 @@ export default function CheckoutPage() {
                     <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                       <div className="space-y-4">
                         <Label>Delivery Type</Label>
-                        <RadioGroup value={deliveryType} onValueChange={(v) => setDeliveryType(v as any)}>
+                        <RadioGroup value={deliveryType} onValueChange={(v) => { if (isOrderType(v)) setDeliveryType(v); }}>
                           <div className="flex items-center space-x-2">
                             <RadioGroupItem value="pickup" id="pickup" />
                             <Label htmlFor="pickup">Pickup (Free)</Label>
                           </div>
                           <div className="flex items-center space-x-2">
                             <RadioGroupItem value="delivery" id="delivery" />
-                            <Label htmlFor="delivery">Delivery (+{deliveryFee} DZD)</Label>
+                            <Label htmlFor="delivery">
+                              Delivery{deliveryQuote?.available ? ` (+${deliveryFee.toFixed(2)} DZD)` : ' (fee depends on your area)'}
+                            </Label>
                           </div>
                         </RadioGroup>
                       </div>
@@ -368,49 +486,164 @@ export default function CheckoutPage() {
 
                       {deliveryType === 'delivery' && (
                         <>
-                          <FormField
-                            control={form.control}
-                            name="deliveryAddress"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Delivery Address *</FormLabel>
-                                <FormControl>
-                                  <Textarea
-                                    placeholder="Enter your full delivery address"
-                                    className="min-h-20"
-                                    {...field}
+                          {savedAddresses.length > 0 && (
+                            <div className="space-y-2">
+                              <Label>Deliver To</Label>
+                              <Select value={addressId} onValueChange={handleAddressChoice}>
+                                <SelectTrigger data-testid="select-saved-address">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {savedAddresses.map(address => (
+                                    <SelectItem key={address.id} value={address.id}>
+                                      {address.label} · {formatCustomerAddress(address)}
+                                    </SelectItem>
+                                  ))}
+                                  <SelectItem value={NEW_ADDRESS}>A new address</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                          {addressId === NEW_ADDRESS && (
+                            <>
+                              <CommuneSelect
+                                wilaya={form.watch('wilaya') ?? ''}
+                                commune={form.watch('commune') ?? ''}
+                                onChange={handleCommuneChange}
+                              />
+                              {form.formState.errors.commune && (
+                                <p className="text-sm font-medium text-destructive">{form.formState.errors.commune.message}</p>
+                              )}
+                              <FormField
+                                control={form.control}
+                                name="district"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>District / Cité / Street *</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        placeholder="Cité 500 Logements"
+                                        {...field}
+                                        onChange={(e) => {
+                                          field.onChange(e);
+                                          // A typed address needs a new quote unless the shared location is used
+                                          if (!userLocation) setDeliveryQuote(null);
+                                        }}
+                                        data-testid="input-district"
+                                      />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                              <div className="grid grid-cols-2 gap-4">
+                                <FormField
+                                  control={form.control}
+                                  name="building"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Building</FormLabel>
+                                      <FormControl>
+                                        <Input placeholder="Bt 12, entrée B" {...field} data-testid="input-building" />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                <FormField
+                                  control={form.control}
+                                  name="floor"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Floor</FormLabel>
+                                      <FormControl>
+                                        <Input placeholder="3" {...field} data-testid="input-floor" />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </div>
+                              <FormField
+                                control={form.control}
+                                name="landmark"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Landmark</FormLabel>
+                                    <FormControl>
+                                      <Input placeholder="Blue gate next to the pharmacy" {...field} data-testid="input-landmark" />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                              <Button
+                                type="button"
+                                variant="outline"
+                                onClick={getCurrentLocation}
+                                className="w-full"
+                              >
+                                <MapPin className="w-4 h-4 mr-2" />
+                                {userLocation ? 'Location Captured ✓' : 'Capture My Location'}
+                              </Button>
+                              {!userLocation && (
+                                <Button
+                                  type="button"
+                                  variant="secondary"
+                                  onClick={() => requestDeliveryQuote({
+                                    address: formatAlgerianAddress(toAddressParts(form.getValues())),
+                                    commune: form.getValues('commune'),
+                                  })}
+                                  disabled={quoting || !form.watch('commune') || !form.watch('district')?.trim()}
+                                  className="w-full"
+                                >
+                                  {quoting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                                  Check Delivery Fee
+                                </Button>
+                              )}
+                              {user && (
+                                <div className="flex items-center gap-3">
+                                  <Checkbox
+                                    id="save-address"
+                                    checked={saveAddress}
+                                    onCheckedChange={(checked) => setSaveAddress(checked === true)}
                                   />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <Button
-                            type="button"
-                            variant="outline"
-                            onClick={getCurrentLocation}
-                            className="w-full"
-                          >
-                            <MapPin className="w-4 h-4 mr-2" />
-                            {userLocation ? 'Location Captured ✓' : 'Capture My Location'}
-                          </Button>
+                                  <Label htmlFor="save-address">Save to my addresses as</Label>
+                                  <Input
+                                    value={saveAddressLabel}
+                                    onChange={(e) => setSaveAddressLabel(e.target.value)}
+                                    disabled={!saveAddress}
+                                    className="h-8 w-32"
+                                  />
+                                </div>
+                              )}
+                            </>
+                          )}
+                          {deliveryQuote?.available && (
+                            <p className="text-sm text-muted-foreground" data-testid="text-delivery-quote">
+                              {deliveryQuote.zoneName ?? 'Delivery'}: {deliveryFee.toFixed(2)} DZD
+                              {' '}({deliveryQuote.distanceKm.toFixed(1)} km)
+                            </p>
+                          )}
+                          {(quoteError || (deliveryQuote && !deliveryQuote.available)) && (
+                            <p className="flex items-center gap-2 text-sm text-destructive">
+                              <AlertCircle className="w-4 h-4 shrink-0" />
+                              {quoteError || deliveryQuote?.message}
+                            </p>
+                          )}
                         </>
                       )}
 
                       <FormField
                         control={form.control}
-                        name="preferredTime"
+                        name="scheduledFor"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Preferred {deliveryType === 'delivery' ? 'Delivery' : 'Pickup'} Time (Optional)</FormLabel>
-                            <FormControl>
-                              <Input 
-                                type="text" 
-                                placeholder="e.g., Today at 3 PM, Tomorrow morning" 
-                                {...field} 
-                                data-testid="input-preferred-time"
-                              />
-                            </FormControl>
+                            <OrderSlotPicker
+                              value={field.value || ""}
+                              onChange={field.onChange}
+                              orderType={deliveryType}
+                            />
                             <FormMessage />
                           </FormItem>
                         )}
@@ -439,7 +672,7 @@ export default function CheckoutPage() {
                         type="submit" 
                         size="lg" 
                         className="w-full"
-                        disabled={createOrder.isPending}
+                        disabled={createOrder.isPending || !canPlaceOrder}
                         data-testid="button-place-order"
                       >
                         {createOrder.isPending ? (
@@ -448,7 +681,7 @@ export default function CheckoutPage() {
                             Placing Order...
                           </>
                         ) : (
-                          `Place Order - ${(deliveryType === 'delivery' ? totalPrice + deliveryFee : totalPrice).toFixed(2)} DZD`
+                          `Place Order - ${(totalPrice + deliveryFee).toFixed(2)} DZD`
                         )}
                       </Button>
                     </form>
@@ -465,12 +698,13 @@ export default function CheckoutPage() {
                 <CardContent>
                   <div className="space-y-3 mb-4">
                     {items.map((item) => (
-                      <div key={item.id} className="flex justify-between text-sm">
+                      <div key={item.lineId} className="flex justify-between text-sm">
                         <span className="text-muted-foreground">
                           {item.name} × {item.quantity}
+                          {item.selectedOptions.length > 0 && ` (${item.selectedOptions.map(o => o.optionName).join(", ")})`}
                         </span>
                         <span className="font-medium">
-                          {(parseFloat(item.price) * item.quantity).toFixed(2)} DZD
+                          {(getCartItemUnitPrice(item) * item.quantity).toFixed(2)} DZD
                         </span>
                       </div>
                     ))}
@@ -486,7 +720,9 @@ export default function CheckoutPage() {
                       </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-muted-foreground">Delivery Fee</span>
-                        <span className="font-medium">{deliveryFee.toFixed(2)} DZD</span>
+                        <span className="font-medium">
+                          {deliveryQuote?.available ? `${deliveryFee.toFixed(2)} DZD` : '—'}
+                        </span>
                       </div>
                       <Separator className="my-2" />
                     </>
@@ -495,7 +731,7 @@ export default function CheckoutPage() {
                   <div className="flex justify-between items-center">
                     <span className="text-lg font-semibold">Total</span>
                     <span className="text-2xl font-bold text-primary" data-testid="text-checkout-total">
-                      {(deliveryType === 'delivery' ? totalPrice + deliveryFee : totalPrice).toFixed(2)} DZD
+                      {(totalPrice + deliveryFee).toFixed(2)} DZD
                     </span>
                   </div>
                 </CardContent>
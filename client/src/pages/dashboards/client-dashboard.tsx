@@ -5,20 +5,16 @@ import { Footer } from '@/components/footer';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CategoryCarousel } from '@/components/category-carousel';
+import { CustomerOrderActions } from '@/components/customer-order-actions';
+import { AddressBook } from '@/components/address-book';
 import { useState, useEffect } from 'react';
-
-interface Order {
-  id: string;
-  customerName: string;
-  status: string;
-  totalAmount: string;
-  createdAt: Date;
-}
+import { orderStatusLabels } from '@shared/order-status';
+import type { OrderWithItems } from '@shared/schema';
 
 export default function ClientDashboard() {
   const { user, logout } = useAuth();
   const [, setLocation] = useLocation();
-  const [orders, setOrders] = useState<Order[]>([]);
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -78,6 +74,14 @@ export default function ClientDashboard() {
                       <p className="text-sm text-muted-foreground">
                         {new Date(order.createdAt).toLocaleDateString()}
                       </p>
+                      {order.estimatedAt && !['delivered', 'refused', 'cancelled'].includes(order.status) && (
+                        <p className="text-sm" data-testid={`text-eta-${order.id}`}>
+                          {order.orderType === 'delivery' ? 'Expected at your door' : 'Ready'} around{' '}
+                          <span className="font-semibold">
+                            {new Date(order.estimatedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                        </p>
+                      )}
                     </div>
                     <div className="text-right">
                       <p className="font-bold">{order.totalAmount} DT</p>
@@ -85,13 +89,32 @@ export default function ClientDashboard() {
                         <span className={`px-2 py-1 rounded ${
                           order.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
                           order.status === 'confirmed' ? 'bg-green-100 text-green-800' :
-                          order.status === 'refused' ? 'bg-red-100 text-red-800' :
+                          order.status === 'preparing' || order.status === 'ready' ? 'bg-orange-100 text-orange-800' :
+                          order.status === 'out_for_delivery' ? 'bg-purple-100 text-purple-800' :
+                          order.status === 'refused' || order.status === 'cancelled' ? 'bg-red-100 text-red-800' :
                           order.status === 'delivered' ? 'bg-blue-100 text-blue-800' :
                           'bg-gray-100 text-gray-800'
                         }`}>
-                          {order.status}
+                          {orderStatusLabels[order.status] ?? order.status}
                         </span>
                       </p>
+                      {order.trackingToken && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="mt-1"
+                          onClick={() => setLocation(`/track/${order.trackingToken}`)}
+                        >
+                          Track order
+                        </Button>
+                      )}
+                      <CustomerOrderActions
+                        endpoint={`/api/orders/${order.id}`}
+                        status={order.status}
+                        items={order.items}
+                        notes={order.notes}
+                        onChanged={fetchOrders}
+                      />
                     </div>
                   </div>
                 ))}
@@ -100,6 +123,10 @@ export default function ClientDashboard() {
           </CardContent>
         </Card>
 
+        <div className="mb-8">
+          <AddressBook />
+        </div>
+
         <div>
           <h2 className="text-2xl font-bold mb-4">Browse Our Menu</h2>
           <CategoryCarousel />
@@ -7,14 +7,28 @@ import { Footer } from '@/components/footer';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { subscribeToOrders, updateFirebaseOrderStatus, type FirebaseOrder } from '@/lib/firebase-orders';
-import { CheckCircle2, Package, MapPin, Phone, Mail, User, Clock } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { subscribeToOrders } from '@/lib/order-stream';
+import { useDriverLocationSharing } from '@/hooks/use-driver-location-sharing';
+import { DeliveryProofDialog } from '@/components/delivery-proof-dialog';
+import { DeliveryBatchSuggestions } from '@/components/delivery-batch-suggestions';
+import { getAllowedOrderStatuses, isOrderOpenForClaim, orderStatusLabels } from '@shared/order-status';
+import type { OrderWithItems, OrderStatus } from '@shared/schema';
+import type { CashReport } from '@shared/cash-settlement';
+import { weekdayLabels, type LivreurAvailability } from '@shared/livreur-availability';
+import type { LivreurShift } from '@shared/schema';
+import { CheckCircle2, Package, MapPin, Phone, Mail, User, Clock, Navigation as NavigationIcon } from 'lucide-react';
 
 export default function LivreurDashboard() {
   const { user, logout } = useAuth();
   const [, setLocation] = useLocation();
-  const [orders, setOrders] = useState<FirebaseOrder[]>([]);
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
   const [loading, setLoading] = useState(true);
+  const [cash, setCash] = useState<CashReport | null>(null);
+  const [availability, setAvailability] = useState<(LivreurAvailability & { shifts: LivreurShift[] }) | null>(null);
+  const [togglingOnline, setTogglingOnline] = useState(false);
+  const { toast } = useToast();
 
   useEffect(() => {
     const unsubscribe = subscribeToOrders((newOrders) => {
@@ -25,22 +39,104 @@ export default function LivreurDashboard() {
     return () => unsubscribe();
   }, []);
 
-  const handleOrderAction = async (orderId: string, status: FirebaseOrder['status']) => {
+  // Cash in hand only moves when one of the orders does (delivered, or settled by the owner)
+  useEffect(() => {
+    fetch('/api/cash/me', { credentials: 'include' })
+      .then(response => response.ok ? response.json() : null)
+      .then(setCash)
+      .catch(error => console.error('Failed to fetch cash in hand:', error));
+  }, [orders]);
+
+  // Reloaded with the orders too: going on or off shift resyncs them
+  useEffect(() => {
+    fetch('/api/livreurs/me/availability', { credentials: 'include' })
+      .then(response => response.ok ? response.json() : null)
+      .then(setAvailability)
+      .catch(error => console.error('Failed to fetch availability:', error));
+  }, [orders]);
+
+  const handleOnlineChange = async (online: boolean) => {
+    setTogglingOnline(true);
+    try {
+      const response = await fetch('/api/livreurs/me/online', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ online }),
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: "Error", description: data.error || "Failed to update your status", variant: "destructive" });
+        return;
+      }
+      setAvailability(current => current ? { ...current, ...data } : current);
+    } catch (error) {
+      console.error('Failed to update online status:', error);
+    } finally {
+      setTogglingOnline(false);
+    }
+  };
+
+  const handleOrderAction = async (orderId: string, status: OrderStatus) => {
     try {
-      await updateFirebaseOrderStatus(orderId, status);
+      const response = await fetch(`/api/orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast({
+          title: "Error",
+          description: data.error || "Failed to update order",
+          variant: "destructive"
+        });
+      }
     } catch (error) {
       console.error('Failed to update order:', error);
     }
   };
 
+  // Claims are first come, first served; a conflict means another livreur was faster
+  const handleClaim = async (orderId: string) => {
+    try {
+      const response = await fetch(`/api/orders/${orderId}/claim`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast({
+          title: response.status === 409 ? "Order already taken" : "Error",
+          description: data.error || "Failed to claim order",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Failed to claim order:', error);
+    }
+  };
+
   const handleLogout = async () => {
     await logout();
     setLocation('/');
   };
 
-  const pendingOrders = orders.filter(o => o.status === 'pending');
-  const confirmedOrders = orders.filter(o => o.status === 'confirmed');
-  const myDeliveries = orders.filter(o => o.status === 'confirmed' || o.status === 'delivered');
+  const openOrders = orders.filter(isOrderOpenForClaim);
+  // Batched orders stay together where the batch first appears, in the order the route visits them
+  const assignedOrders = orders.filter(o => o.livreurId === user?.id);
+  const listPosition = (order: OrderWithItems) =>
+    assignedOrders.findIndex(o => o.id === order.id || (!!order.batchId && o.batchId === order.batchId));
+  const myDeliveries = [...assignedOrders].sort((a, b) =>
+    listPosition(a) - listPosition(b) || (a.batchStop ?? 0) - (b.batchStop ?? 0)
+  );
+  const activeDeliveries = myDeliveries.filter(o => o.status !== 'delivered' && o.status !== 'cancelled');
+  const locationSharing = useDriverLocationSharing(
+    myDeliveries.filter(o => o.status === 'out_for_delivery').map(o => o.id)
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -54,44 +150,82 @@ export default function LivreurDashboard() {
           <Button onClick={handleLogout} variant="outline">Logout</Button>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        {availability && (
+          <Card className="mb-8">
+            <CardContent className="p-4 flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="livreur-online"
+                  checked={availability.online}
+                  disabled={togglingOnline}
+                  onCheckedChange={handleOnlineChange}
+                />
+                <label htmlFor="livreur-online" className="font-semibold">
+                  {availability.online ? 'Online' : 'Offline'}
+                </label>
+                <span className="text-sm text-muted-foreground">
+                  {availability.available ? `On shift ${availability.currentShift}; you will see new orders` :
+                   availability.online ? 'You are not on shift right now, so no new orders will reach you' :
+                   'Go online to receive new orders'}
+                </span>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {availability.shifts.length === 0 ? 'No shifts scheduled' :
+                  availability.shifts.map(shift => `${weekdayLabels[shift.dayOfWeek].slice(0, 3)} ${shift.startTime}–${shift.endTime}`).join(' · ')}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">{openOrders.length}</CardTitle>
+              <CardDescription>Open Orders</CardDescription>
+            </CardHeader>
+          </Card>
           <Card>
             <CardHeader>
-              <CardTitle className="text-2xl">{pendingOrders.length}</CardTitle>
-              <CardDescription>Available for Pickup</CardDescription>
+              <CardTitle className="text-2xl">{activeDeliveries.length}</CardTitle>
+              <CardDescription>Assigned to You</CardDescription>
             </CardHeader>
           </Card>
           <Card>
             <CardHeader>
-              <CardTitle className="text-2xl">{confirmedOrders.length}</CardTitle>
-              <CardDescription>Active Deliveries</CardDescription>
+              <CardTitle className="text-2xl">{cash?.collected ?? '0.00'} DZD</CardTitle>
+              <CardDescription>
+                Cash in Hand{cash && cash.lines.length > 0 && ` · ${cash.lines.length} order${cash.lines.length === 1 ? '' : 's'} to settle`}
+              </CardDescription>
             </CardHeader>
           </Card>
         </div>
 
+        <DeliveryBatchSuggestions refreshKey={orders} />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {/* Available Orders */}
+          {/* Open Orders */}
           <Card>
             <CardHeader>
-              <CardTitle>Available Orders</CardTitle>
-              <CardDescription>Orders ready for delivery</CardDescription>
+              <CardTitle>Open Orders</CardTitle>
+              <CardDescription>Not taken by anyone yet; the first livreur to accept gets it</CardDescription>
             </CardHeader>
             <CardContent>
               {loading ? (
                 <p className="text-center text-muted-foreground">Loading orders...</p>
-              ) : pendingOrders.length === 0 ? (
-                <p className="text-center text-muted-foreground">No pending orders</p>
+              ) : openOrders.length === 0 ? (
+                <p className="text-center text-muted-foreground">No open orders</p>
               ) : (
                 <div className="space-y-4">
-                  {pendingOrders.map((order) => (
+                  {openOrders.map((order) => (
                     <Card key={order.id} className="border-yellow-300 bg-yellow-50/50">
                       <CardContent className="p-4">
                         <div className="space-y-3">
-                          <div className="flex items-center gap-2">
-                            <User className="w-4 h-4 text-muted-foreground" />
-                            <p className="font-bold">
-                              {order.customerFirstName} {order.customerLastName}
-                            </p>
+                          <div className="flex justify-between items-start">
+                            <div className="flex items-center gap-2">
+                              <User className="w-4 h-4 text-muted-foreground" />
+                              <p className="font-bold">{order.customerName}</p>
+                            </div>
+                            <Badge className="bg-yellow-100 text-yellow-800">Open</Badge>
                           </div>
 
                           <div className="flex items-center gap-2 text-sm">
@@ -99,19 +233,27 @@ export default function LivreurDashboard() {
                             <p>{order.customerPhone}</p>
                           </div>
 
-                          {order.location && (
+                          {order.deliveryAddress && (
                             <div className="flex items-start gap-2 text-sm">
                               <MapPin className="w-4 h-4 mt-0.5 text-muted-foreground" />
-                              <p className="flex-1">{order.location.address}</p>
+                              <p className="flex-1">{order.deliveryAddress}</p>
                             </div>
                           )}
 
                           <div className="flex items-center gap-2 text-sm">
                             <Package className="w-4 h-4 text-muted-foreground" />
-                            <p className="capitalize">{order.deliveryType}</p>
+                            <p className="capitalize">{order.orderType}</p>
                           </div>
 
-                          {order.preferredTime && (
+                          {order.scheduledFor ? (
+                            <div className="flex items-center gap-2 text-sm">
+                              <Clock className="w-4 h-4 text-muted-foreground" />
+                              <p>
+                                Scheduled for{' '}
+                                {new Date(order.scheduledFor).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                              </p>
+                            </div>
+                          ) : order.preferredTime && (
                             <div className="flex items-center gap-2 text-sm">
                               <Clock className="w-4 h-4 text-muted-foreground" />
                               <p>Preferred time: {order.preferredTime}</p>
@@ -126,9 +268,11 @@ export default function LivreurDashboard() {
 
                           <div className="border-t pt-3 space-y-1">
                             <p className="font-semibold text-sm">Items:</p>
-                            {order.items.map((item, idx) => (
-                              <p key={idx} className="text-sm text-muted-foreground">
-                                {item.quantity}x {item.name} - {item.price} DZD
+                            {order.items.map((item) => (
+                              <p key={item.id} className="text-sm text-muted-foreground">
+                                {item.quantity}x {item.name} - {item.unitPrice} DZD
+                                {item.selectedOptions.length > 0 && ` [${item.selectedOptions.map(o => o.optionName).join(', ')}]`}
+                                {item.note && <span className="italic"> ({item.note})</span>}
                               </p>
                             ))}
                           </div>
@@ -141,7 +285,7 @@ export default function LivreurDashboard() {
                           )}
 
                           <Button
-                            onClick={() => handleOrderAction(order.id!, 'confirmed')}
+                            onClick={() => handleClaim(order.id)}
                             className="w-full mt-3"
                           >
                             <CheckCircle2 className="w-4 h-4 mr-2" />
@@ -159,12 +303,12 @@ export default function LivreurDashboard() {
           {/* My Deliveries */}
           <Card>
             <CardHeader>
-              <CardTitle>My Deliveries</CardTitle>
-              <CardDescription>Orders you've accepted for delivery</CardDescription>
+              <CardTitle>Assigned to You</CardTitle>
+              <CardDescription>Orders you accepted or the restaurant assigned to you</CardDescription>
             </CardHeader>
             <CardContent>
               {myDeliveries.length === 0 ? (
-                <p className="text-center text-muted-foreground">No confirmed deliveries yet</p>
+                <p className="text-center text-muted-foreground">No orders assigned to you yet</p>
               ) : (
                 <div className="space-y-4">
                   {myDeliveries.map((order) => (
@@ -176,15 +320,24 @@ export default function LivreurDashboard() {
                           <div className="flex justify-between items-start">
                             <div className="flex items-center gap-2">
                               <User className="w-4 h-4 text-muted-foreground" />
-                              <p className="font-bold">
-                                {order.customerFirstName} {order.customerLastName}
-                              </p>
+                              <p className="font-bold">{order.customerName}</p>
+                            </div>
+                            <div className="flex gap-1">
+                              {order.batchStop ? (
+                                <Badge variant="outline">
+                                  Stop {order.batchStop} of {myDeliveries.filter(o => o.batchId === order.batchId).length}
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline">Assigned to you</Badge>
+                              )}
+                              <Badge className={
+                                order.status === 'delivered' ? 'bg-blue-100 text-blue-800' :
+                                order.status === 'cancelled' ? 'bg-red-100 text-red-800' :
+                                'bg-green-100 text-green-800'
+                              }>
+                                {orderStatusLabels[order.status] ?? order.status}
+                              </Badge>
                             </div>
-                            <Badge className={
-                              order.status === 'delivered' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'
-                            }>
-                              {order.status}
-                            </Badge>
                           </div>
 
                           <div className="flex items-center gap-2 text-sm">
@@ -192,10 +345,10 @@ export default function LivreurDashboard() {
                             <p>{order.customerPhone}</p>
                           </div>
 
-                          {order.location && (
+                          {order.deliveryAddress && (
                             <div className="flex items-start gap-2 text-sm">
                               <MapPin className="w-4 h-4 mt-0.5 text-muted-foreground" />
-                              <p className="flex-1">{order.location.address}</p>
+                              <p className="flex-1">{order.deliveryAddress}</p>
                             </div>
                           )}
 
@@ -207,21 +360,39 @@ export default function LivreurDashboard() {
 
                           <div className="border-t pt-3 space-y-1">
                             <p className="font-semibold text-sm">Items:</p>
-                            {order.items.map((item, idx) => (
-                              <p key={idx} className="text-sm text-muted-foreground">
+                            {order.items.map((item) => (
+                              <p key={item.id} className="text-sm text-muted-foreground">
                                 {item.quantity}x {item.name}
+                                {item.selectedOptions.length > 0 && ` [${item.selectedOptions.map(o => o.optionName).join(', ')}]`}
+                                {item.note && <span className="italic"> ({item.note})</span>}
                               </p>
                             ))}
                           </div>
 
-                          {order.status === 'confirmed' && (
-                            <Button
-                              onClick={() => handleOrderAction(order.id!, 'delivered')}
-                              className="w-full mt-3"
-                            >
-                              <CheckCircle2 className="w-4 h-4 mr-2" />
-                              Mark as Delivered
-                            </Button>
+                          {order.status === 'out_for_delivery' && (
+                            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                              <NavigationIcon className="w-4 h-4" />
+                              {locationSharing === 'sharing' ? 'Sharing your location with the customer' :
+                               locationSharing === 'denied' ? 'Location access is blocked; the customer cannot see where you are' :
+                               locationSharing === 'unsupported' ? 'This device cannot share its location' :
+                               'Waiting for your location...'}
+                            </p>
+                          )}
+
+                          {getAllowedOrderStatuses(order.status, 'livreur').map((status) =>
+                            // Delivery orders need the customer's code or a photo to count as delivered
+                            status === 'delivered' && order.orderType === 'delivery' ? (
+                              <DeliveryProofDialog key={status} orderId={order.id} totalAmount={order.totalAmount} />
+                            ) : (
+                              <Button
+                                key={status}
+                                onClick={() => handleOrderAction(order.id, status)}
+                                className="w-full mt-3"
+                              >
+                                <CheckCircle2 className="w-4 h-4 mr-2" />
+                                Mark as {orderStatusLabels[status]}
+                              </Button>
+                            )
                           )}
                         </div>
                       </CardContent>
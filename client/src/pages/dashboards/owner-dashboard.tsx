@@ -6,24 +6,35 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { AddMenuItemDialog } from '@/components/add-menu-item-dialog';
 import { AssetManager } from '@/components/asset-manager';
+import { DeliveryZonesManager } from '@/components/delivery-zones-manager';
+import { CashSettlementsManager } from '@/components/cash-settlements-manager';
+import { CommuneReport } from '@/components/commune-report';
+import { LivreurShiftsManager } from '@/components/livreur-shifts-manager';
+import { ReservationSettingsManager } from '@/components/reservation-settings-manager';
+import { ReservationsDayView } from '@/components/reservations-day-view';
+import { RestaurantTablesManager } from '@/components/restaurant-tables-manager';
+import { WaitlistManager } from '@/components/waitlist-manager';
+import { OrderHistoryDialog } from '@/components/order-history-dialog';
+import { OptionGroupsEditor } from '@/components/option-groups-editor';
+import { OrderDispatchControls } from '@/components/order-dispatch-controls';
+import { LiveDriverLocation } from '@/components/driver-location-map';
+import { subscribeToOrders } from '@/lib/order-stream';
+import { useLivreurAvailability } from '@/hooks/use-livreur-availability';
+import { useRestaurantTables } from '@/hooks/use-restaurant-tables';
 import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { UserPlus, Trash2, Edit, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { uploadImageToFirebase, deleteImageFromFirebase } from '@/lib/firebase-storage';
-
-interface Order {
-  id: string;
-  customerName: string;
-  status: string;
-  totalAmount: string;
-  createdAt: Date;
-}
+import { getAllowedOrderStatuses, orderStatusLabels } from '@shared/order-status';
+import { isOrderReleased } from '@shared/order-slots';
+import type { OrderWithItems, OrderStatus, MenuOptionGroup } from '@shared/schema';
 
 interface MenuItem {
   id: string;
@@ -35,12 +46,14 @@ interface MenuItem {
   imageUrl: string | null;
   available: boolean;
   popular: boolean;
+  optionGroups?: MenuOptionGroup[];
+  prepMinutes?: number | null;
 }
 
 export default function OwnerDashboard() {
   const { user, logout } = useAuth();
   const [, setLocation] = useLocation();
-  const [orders, setOrders] = useState<Order[]>([]);
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
   const [users, setUsers] = useState<any[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -60,31 +73,39 @@ export default function OwnerDashboard() {
     description: '',
     price: '',
     deliveryFee: '',
+    prepMinutes: '',
     categoryId: '',
     available: true,
     popular: false,
   });
+  const [leadTimeMinutes, setLeadTimeMinutes] = useState(45);
+  const [editOptionGroups, setEditOptionGroups] = useState<MenuOptionGroup[]>([]);
   const [editImageFile, setEditImageFile] = useState<File | null>(null);
   const { toast } = useToast();
+  const { availability, refresh: refreshAvailability } = useLivreurAvailability(orders);
+  const { tables, refresh: refreshTables } = useRestaurantTables();
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Orders stay live through the server's order stream
+  useEffect(() => {
+    const unsubscribe = subscribeToOrders(setOrders, (message) => {
+      toast({ title: "Order changed", description: message });
+    });
+    return () => unsubscribe();
+  }, []);
+
   const fetchData = async () => {
     try {
-      const [ordersRes, usersRes, menuItemsRes, categoriesRes] = await Promise.all([
-        fetch('/api/orders', { credentials: 'include' }),
+      const [usersRes, menuItemsRes, categoriesRes, configRes] = await Promise.all([
         fetch('/api/users', { credentials: 'include' }),
         fetch('/api/menu-items'),
         fetch('/api/categories'),
+        fetch('/api/config'),
       ]);
 
-      if (ordersRes.ok) {
-        const ordersData = await ordersRes.json();
-        setOrders(ordersData);
-      }
-
       if (usersRes.ok) {
         const usersData = await usersRes.json();
         setUsers(usersData);
@@ -99,6 +120,11 @@ export default function OwnerDashboard() {
         const categoriesData = await categoriesRes.json();
         setCategories(categoriesData);
       }
+
+      if (configRes.ok) {
+        const configData = await configRes.json();
+        setLeadTimeMinutes(configData.orderLeadTimeMinutes ?? 45);
+      }
     } catch (error) {
       console.error('Failed to fetch data:', error);
     } finally {
@@ -106,7 +132,7 @@ export default function OwnerDashboard() {
     }
   };
 
-  const handleOrderAction = async (orderId: string, status: string) => {
+  const handleOrderAction = async (orderId: string, status: OrderStatus) => {
     try {
       const response = await fetch(`/api/orders/${orderId}`, {
         method: 'PATCH',
@@ -115,8 +141,13 @@ export default function OwnerDashboard() {
         credentials: 'include',
       });
 
-      if (response.ok) {
-        fetchData();
+      if (!response.ok) {
+        const data = await response.json();
+        toast({
+          title: "Error",
+          description: data.error || "Failed to update order",
+          variant: "destructive"
+        });
       }
     } catch (error) {
       console.error('Failed to update order:', error);
@@ -128,6 +159,126 @@ export default function OwnerDashboard() {
     setLocation('/');
   };
 
+  // Scheduled orders stay out of the live list until their kitchen lead time
+  const upcomingOrders = orders.filter(o => !isOrderReleased(o, leadTimeMinutes));
+  const liveOrders = orders.filter(o => isOrderReleased(o, leadTimeMinutes));
+  const livreurs = users.filter(u => u.role === 'livreur').map(u => {
+    const status = availability.find(a => a.livreurId === u.id);
+    return { id: u.id, name: u.name, available: status?.available ?? false, activeOrders: status?.activeOrders ?? 0 };
+  });
+
+  const renderOrderCard = (order: OrderWithItems) => (
+    <div key={order.id} className="border rounded-lg p-4">
+      <div className="flex justify-between items-start mb-2">
+        <div>
+          <p className="font-bold">{order.customerName}</p>
+          <p className="text-sm text-muted-foreground">
+            {new Date(order.createdAt).toLocaleDateString()} at{' '}
+            {new Date(order.createdAt).toLocaleTimeString()}
+          </p>
+          {order.scheduledFor && (
+            <p className="text-sm font-medium">
+              Scheduled for {new Date(order.scheduledFor).toLocaleDateString()} at{' '}
+              {new Date(order.scheduledFor).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </p>
+          )}
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <OrderHistoryDialog orderId={order.id} customerName={order.customerName} />
+            <OrderDispatchControls order={order} livreurs={livreurs} />
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="font-bold text-lg">{order.totalAmount} DT</p>
+          <span className={`text-xs px-2 py-1 rounded ${
+            order.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+            order.status === 'confirmed' ? 'bg-green-100 text-green-800' :
+            order.status === 'preparing' || order.status === 'ready' ? 'bg-orange-100 text-orange-800' :
+            order.status === 'out_for_delivery' ? 'bg-purple-100 text-purple-800' :
+            order.status === 'refused' || order.status === 'cancelled' ? 'bg-red-100 text-red-800' :
+            order.status === 'delivered' ? 'bg-blue-100 text-blue-800' :
+            'bg-gray-100 text-gray-800'
+          }`}>
+            {orderStatusLabels[order.status] ?? order.status}
+          </span>
+        </div>
+      </div>
+      {order.batchStop && (
+        <p className="mt-1 text-sm text-muted-foreground">
+          Batch stop {order.batchStop} · ~{order.routeMinutes} min from the shop
+        </p>
+      )}
+      {order.status === 'out_for_delivery' && (
+        <div className="mt-2">
+          <LiveDriverLocation orderId={order.id} />
+        </div>
+      )}
+      {order.deliveryProof && (
+        <div className="mt-2 text-sm text-muted-foreground">
+          <p>
+            Delivered {new Date(order.deliveryProof.recordedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} ·{' '}
+            {order.deliveryProof.method === 'code' ? 'customer gave the handover code' :
+             order.deliveryProof.method === 'photo' ? 'photo proof (customer unreachable)' :
+             'marked delivered by the owner'}
+            {' '}by {users.find(u => u.id === order.deliveryProof?.recordedBy)?.name ?? 'staff'}
+          </p>
+          {order.cashCollected !== null && (
+            <p>
+              Cash collected: {order.cashCollected} DZD
+              {parseFloat(order.cashCollected) !== parseFloat(order.totalAmount) && (
+                <span className="text-red-600"> ({(parseFloat(order.cashCollected) - parseFloat(order.totalAmount)).toFixed(2)})</span>
+              )}
+              {order.cashNote && <span className="italic"> · {order.cashNote}</span>}
+              {order.settlementId && ' · settled'}
+            </p>
+          )}
+          {order.deliveryProof.photoUrl && (
+            <a href={order.deliveryProof.photoUrl} target="_blank" rel="noreferrer">
+              <img
+                src={order.deliveryProof.photoUrl}
+                alt="Proof of delivery"
+                className="mt-1 w-24 h-24 object-cover rounded border"
+              />
+            </a>
+          )}
+        </div>
+      )}
+      {order.items.length > 0 && (
+        <div className="border-t pt-2 mt-2 space-y-1">
+          {order.items.map((item) => (
+            <div key={item.id} className="flex justify-between text-sm">
+              <span>
+                {item.quantity}x {item.name}
+                {item.selectedOptions.length > 0 && ` [${item.selectedOptions.map(o => o.optionName).join(', ')}]`}
+                {item.note && <span className="text-muted-foreground italic"> ({item.note})</span>}
+              </span>
+              <span className="text-muted-foreground">
+                {(parseFloat(item.unitPrice) * item.quantity).toFixed(2)} DT
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      {getAllowedOrderStatuses(order.status, 'owner').length > 0 && (
+        <div className="flex gap-2 mt-4">
+          {getAllowedOrderStatuses(order.status, 'owner').map((status) => (
+            <Button
+              key={status}
+              onClick={() => handleOrderAction(order.id, status)}
+              variant={status === 'refused' || status === 'cancelled' ? 'destructive' : 'default'}
+              className="flex-1"
+              size="sm"
+            >
+              {status === 'confirmed' ? 'Confirm Order' :
+               status === 'refused' ? 'Decline Order' :
+               status === 'cancelled' ? 'Cancel Order' :
+               `Mark as ${orderStatusLabels[status]}`}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   const handleDeleteItem = async (itemId: string, itemName: string) => {
     if (!confirm(`Are you sure you want to delete "${itemName}"?`)) {
       return;
@@ -168,10 +319,12 @@ export default function OwnerDashboard() {
       description: item.description,
       price: item.price,
       deliveryFee: item.deliveryFee,
+      prepMinutes: item.prepMinutes != null ? String(item.prepMinutes) : '',
       categoryId: item.categoryId,
       available: item.available,
       popular: item.popular,
     });
+    setEditOptionGroups(item.optionGroups ?? []);
     setEditImageFile(null);
     setEditDialogOpen(true);
   };
@@ -185,9 +338,11 @@ export default function OwnerDashboard() {
       formDataToSend.append('description', editForm.description);
       formDataToSend.append('price', editForm.price);
       formDataToSend.append('deliveryFee', editForm.deliveryFee);
+      formDataToSend.append('prepMinutes', editForm.prepMinutes);
       formDataToSend.append('categoryId', editForm.categoryId);
       formDataToSend.append('available', editForm.available.toString());
       formDataToSend.append('popular', editForm.popular.toString());
+      formDataToSend.append('optionGroups', JSON.stringify(editOptionGroups));
 
       if (editImageFile) {
         console.log('Uploading image file:', editImageFile.name, editImageFile.size, 'bytes');
@@ -320,66 +475,59 @@ export default function OwnerDashboard() {
           </Card>
         </div>
 
-        <Card className="mb-8">
-          <CardHeader>
-            <CardTitle>All Orders</CardTitle>
-            <CardDescription>Manage all customer orders</CardDescription>
-          </CardHeader>
-          <CardContent>
-            {loading ? (
-              <p className="text-center text-muted-foreground">Loading...</p>
-            ) : orders.length === 0 ? (
-              <p className="text-center text-muted-foreground">No orders yet</p>
-            ) : (
-              <div className="space-y-4">
-                {orders.map((order) => (
-                  <div key={order.id} className="border rounded-lg p-4">
-                    <div className="flex justify-between items-start mb-2">
-                      <div>
-                        <p className="font-bold">{order.customerName}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {new Date(order.createdAt).toLocaleDateString()} at{' '}
-                          {new Date(order.createdAt).toLocaleTimeString()}
-                        </p>
-                      </div>
-                      <div className="text-right">
-                        <p className="font-bold text-lg">{order.totalAmount} DT</p>
-                        <span className={`text-xs px-2 py-1 rounded ${
-                          order.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                          order.status === 'confirmed' ? 'bg-green-100 text-green-800' :
-                          order.status === 'refused' ? 'bg-red-100 text-red-800' :
-                          order.status === 'delivered' ? 'bg-blue-100 text-blue-800' :
-                          'bg-gray-100 text-gray-800'
-                        }`}>
-                          {order.status}
-                        </span>
-                      </div>
-                    </div>
-                    {order.status === 'pending' && (
-                      <div className="flex gap-2 mt-4">
-                        <Button
-                          onClick={() => handleOrderAction(order.id, 'confirmed')}
-                          className="flex-1"
-                          size="sm"
-                        >
-                          Confirm Order
-                        </Button>
-                        <Button
-                          onClick={() => handleOrderAction(order.id, 'refused')}
-                          variant="destructive"
-                          className="flex-1"
-                          size="sm"
-                        >
-                          Decline Order
-                        </Button>
-                      </div>
-                    )}
+        <Tabs defaultValue="orders" className="mb-8">
+          <TabsList className="mb-4">
+            <TabsTrigger value="orders">Orders</TabsTrigger>
+            <TabsTrigger value="reservations">Reservations</TabsTrigger>
+            <TabsTrigger value="waitlist">Waitlist</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="orders">
+            {upcomingOrders.length > 0 && (
+              <Card className="mb-8">
+                <CardHeader>
+                  <CardTitle>Scheduled for Later</CardTitle>
+                  <CardDescription>
+                    These orders move to the live list {leadTimeMinutes} minutes before their time slot
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {upcomingOrders.map(renderOrderCard)}
                   </div>
-                ))}
-              </div>
+                </CardContent>
+              </Card>
             )}
-          </CardContent>
-        </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>All Orders</CardTitle>
+                <CardDescription>Manage all customer orders</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <p className="text-center text-muted-foreground">Loading...</p>
+                ) : liveOrders.length === 0 ? (
+                  <p className="text-center text-muted-foreground">No orders yet</p>
+                ) : (
+                  <div className="space-y-4">
+                    {liveOrders.map(renderOrderCard)}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="reservations" className="space-y-8">
+            <ReservationsDayView tables={tables} />
+            <RestaurantTablesManager tables={tables} onChange={refreshTables} />
+            <ReservationSettingsManager />
+          </TabsContent>
+
+          <TabsContent value="waitlist">
+            <WaitlistManager />
+          </TabsContent>
+        </Tabs>
 
         <Card className="mb-8">
           <CardHeader className="flex flex-row items-center justify-between">
@@ -481,6 +629,22 @@ export default function OwnerDashboard() {
           </CardContent>
         </Card>
 
+        <div className="mb-8">
+          <DeliveryZonesManager />
+        </div>
+
+        <div className="mb-8">
+          <LivreurShiftsManager availability={availability} onChange={refreshAvailability} />
+        </div>
+
+        <div className="mb-8">
+          <CashSettlementsManager />
+        </div>
+
+        <div className="mb-8">
+          <CommuneReport />
+        </div>
+
         <div className="mb-8">
           <AssetManager />
         </div>
@@ -694,6 +858,21 @@ export default function OwnerDashboard() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="edit-prepMinutes">Prep Time (minutes)</Label>
+                <Input
+                  id="edit-prepMinutes"
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={editForm.prepMinutes}
+                  onChange={(e) => setEditForm({ ...editForm, prepMinutes: e.target.value })}
+                  placeholder="20"
+                />
+              </div>
+
+              <OptionGroupsEditor value={editOptionGroups} onChange={setEditOptionGroups} />
+
               <div className="space-y-2">
                 <Label htmlFor="edit-image">Item Image</Label>
                 {editingItem?.imageUrl && !editImageFile && (
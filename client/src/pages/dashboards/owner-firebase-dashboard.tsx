@@ -7,14 +7,18 @@ import { Footer } from '@/components/footer';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { subscribeToOrders, updateFirebaseOrderStatus, type FirebaseOrder } from '@/lib/firebase-orders';
+import { useToast } from '@/hooks/use-toast';
+import { subscribeToOrders } from '@/lib/order-stream';
+import { getAllowedOrderStatuses, orderStatusLabels } from '@shared/order-status';
+import type { OrderWithItems, OrderStatus } from '@shared/schema';
 import { CheckCircle2, XCircle, Clock, Package, MapPin, Phone, Mail, User } from 'lucide-react';
 
 export default function OwnerFirebaseDashboard() {
   const { user, logout } = useAuth();
   const [, setLocation] = useLocation();
-  const [orders, setOrders] = useState<FirebaseOrder[]>([]);
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
   const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
 
   useEffect(() => {
     const unsubscribe = subscribeToOrders((newOrders) => {
@@ -25,9 +29,23 @@ export default function OwnerFirebaseDashboard() {
     return () => unsubscribe();
   }, []);
 
-  const handleOrderAction = async (orderId: string, status: FirebaseOrder['status']) => {
+  const handleOrderAction = async (orderId: string, status: OrderStatus) => {
     try {
-      await updateFirebaseOrderStatus(orderId, status);
+      const response = await fetch(`/api/orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast({
+          title: "Error",
+          description: data.error || "Failed to update order",
+          variant: "destructive"
+        });
+      }
     } catch (error) {
       console.error('Failed to update order:', error);
     }
@@ -50,7 +68,7 @@ export default function OwnerFirebaseDashboard() {
       <main className="container mx-auto px-4 py-8">
         <div className="flex justify-between items-center mb-8">
           <div>
-            <h1 className="text-3xl font-bold">Owner Dashboard - Firebase Live Orders</h1>
+            <h1 className="text-3xl font-bold">Owner Dashboard - Live Orders</h1>
             <p className="text-muted-foreground">Welcome back, {user?.name}</p>
           </div>
           <Button onClick={handleLogout} variant="outline">Logout</Button>
@@ -86,7 +104,7 @@ export default function OwnerFirebaseDashboard() {
         <Card>
           <CardHeader>
             <CardTitle>All Orders (Real-time)</CardTitle>
-            <CardDescription>Orders update automatically via Firebase</CardDescription>
+            <CardDescription>Orders update automatically as they change</CardDescription>
           </CardHeader>
           <CardContent>
             {loading ? (
@@ -104,9 +122,7 @@ export default function OwnerFirebaseDashboard() {
                         <div className="flex-1">
                           <div className="flex items-center gap-2 mb-2">
                             <User className="w-4 h-4 text-muted-foreground" />
-                            <h3 className="font-bold text-lg">
-                              {order.customerFirstName} {order.customerLastName}
-                            </h3>
+                            <h3 className="font-bold text-lg">{order.customerName}</h3>
                           </div>
                           <div className="space-y-1 text-sm text-muted-foreground">
                             <div className="flex items-center gap-2">
@@ -125,20 +141,24 @@ export default function OwnerFirebaseDashboard() {
                           order.status === 'refused' ? 'destructive' :
                           'outline'
                         }>
-                          {order.status.toUpperCase()}
+                          {(orderStatusLabels[order.status] ?? order.status).toUpperCase()}
                         </Badge>
                       </div>
 
                       <div className="border-t pt-4 mb-4">
                         <h4 className="font-semibold mb-2">Order Summary</h4>
                         <div className="space-y-1">
-                          {order.items.map((item, idx) => (
-                            <div key={idx} className="flex justify-between text-sm">
-                              <span>{item.name} × {item.quantity}</span>
-                              <span>{(parseFloat(item.price) * item.quantity).toFixed(2)} DZD</span>
+                          {order.items.map((item) => (
+                            <div key={item.id} className="flex justify-between text-sm">
+                              <span>
+                                {item.name} × {item.quantity}
+                                {item.selectedOptions.length > 0 && ` [${item.selectedOptions.map(o => o.optionName).join(', ')}]`}
+                                {item.note && <span className="text-muted-foreground italic"> ({item.note})</span>}
+                              </span>
+                              <span>{(parseFloat(item.unitPrice) * item.quantity).toFixed(2)} DZD</span>
                             </div>
                           ))}
-                          {order.deliveryType === 'delivery' && (
+                          {order.orderType === 'delivery' && (
                             <div className="flex justify-between text-sm text-muted-foreground">
                               <span>Delivery Fee</span>
                               <span>{order.deliveryFee} DZD</span>
@@ -156,19 +176,19 @@ export default function OwnerFirebaseDashboard() {
                           <Package className="w-4 h-4 mt-0.5 text-muted-foreground" />
                           <div>
                             <span className="font-semibold">Type: </span>
-                            <span className="capitalize">{order.deliveryType}</span>
+                            <span className="capitalize">{order.orderType}</span>
                           </div>
                         </div>
 
-                        {order.location && (
+                        {order.deliveryAddress && (
                           <div className="flex items-start gap-2">
                             <MapPin className="w-4 h-4 mt-0.5 text-muted-foreground" />
                             <div className="flex-1">
                               <span className="font-semibold">Delivery Address: </span>
-                              <p className="text-sm">{order.location.address}</p>
-                              {order.location.coordinates && (
+                              <p className="text-sm">{order.deliveryAddress}</p>
+                              {order.deliveryLat != null && order.deliveryLng != null && (
                                 <p className="text-xs text-muted-foreground">
-                                  Coordinates: {order.location.coordinates.lat.toFixed(6)}, {order.location.coordinates.lng.toFixed(6)}
+                                  Coordinates: {order.deliveryLat.toFixed(6)}, {order.deliveryLng.toFixed(6)}
                                 </p>
                               )}
                             </div>
@@ -194,38 +214,29 @@ export default function OwnerFirebaseDashboard() {
                       </div>
 
                       <div className="text-xs text-muted-foreground mb-4">
-                        Order placed: {order.createdAt.toDate().toLocaleString()}
+                        Order placed: {order.createdAt.toLocaleString()}
                       </div>
 
-                      {order.status === 'pending' && (
+                      {getAllowedOrderStatuses(order.status, 'owner').length > 0 && (
                         <div className="flex gap-2">
-                          <Button
-                            onClick={() => handleOrderAction(order.id!, 'confirmed')}
-                            className="flex-1 bg-green-600 hover:bg-green-700"
-                          >
-                            <CheckCircle2 className="w-4 h-4 mr-2" />
-                            Confirm Order
-                          </Button>
-                          <Button
-                            onClick={() => handleOrderAction(order.id!, 'refused')}
-                            variant="destructive"
-                            className="flex-1"
-                          >
-                            <XCircle className="w-4 h-4 mr-2" />
-                            Decline Order
-                          </Button>
+                          {getAllowedOrderStatuses(order.status, 'owner').map((status) => (
+                            <Button
+                              key={status}
+                              onClick={() => handleOrderAction(order.id, status)}
+                              variant={status === 'refused' || status === 'cancelled' ? 'destructive' : 'default'}
+                              className="flex-1"
+                            >
+                              {status === 'refused' || status === 'cancelled'
+                                ? <XCircle className="w-4 h-4 mr-2" />
+                                : <CheckCircle2 className="w-4 h-4 mr-2" />}
+                              {status === 'confirmed' ? 'Confirm Order' :
+                               status === 'refused' ? 'Decline Order' :
+                               status === 'cancelled' ? 'Cancel Order' :
+                               `Mark as ${orderStatusLabels[status]}`}
+                            </Button>
+                          ))}
                         </div>
                       )}
-
-                      {order.status === 'confirmed' && (
-                        <Button
-                          onClick={() => handleOrderAction(order.id!, 'delivered')}
-                          className="w-full"
-                        >
-                          <CheckCircle2 className="w-4 h-4 mr-2" />
-                          Mark as Delivered
-                        </Button>
-                      )}
                     </CardContent>
                   </Card>
                 ))}
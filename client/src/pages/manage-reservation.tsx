@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Navigation } from "@/components/navigation";
+import { Footer } from "@/components/footer";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ReservationTimeSelect } from "@/components/reservation-time-select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { describeError } from "@/lib/api-error";
+import { CalendarDays, Clock, Pencil, Users, XCircle } from "lucide-react";
+import { reservationStatusLabels } from "@shared/reservation-status";
+import type { ManagedReservation } from "@shared/reservation-changes";
+
+export default function ManageReservationPage() {
+  const [, params] = useRoute("/reservations/manage/:token");
+  const token = params?.token;
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState({ date: "", time: "", partySize: 2 });
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const { data: reservation, isLoading, isError } = useQuery<ManagedReservation>({
+    queryKey: ["/api/reservations/manage", token],
+    enabled: !!token,
+  });
+
+  const sendChange = async (change: Record<string, unknown>) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/reservations/manage/${token}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(change),
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({
+          title: "Error",
+          description: describeError(data, "Failed to change your booking"),
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      queryClient.setQueryData(["/api/reservations/manage", token], data);
+      return true;
+    } catch (error) {
+      console.error("Failed to change reservation:", error);
+      toast({ title: "Error", description: "Failed to change your booking", variant: "destructive" });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = () => {
+    if (!reservation) return;
+    setDraft({ date: reservation.date, time: reservation.time, partySize: reservation.partySize });
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (await sendChange(draft)) {
+      setEditing(false);
+      toast({ title: "Booking updated", description: "The restaurant has been notified." });
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm("Cancel this booking?")) return;
+    if (await sendChange({ status: "cancelled" })) {
+      setEditing(false);
+      toast({ title: "Booking cancelled", description: "The restaurant has been notified." });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+      <main className="flex-1 py-20 md:py-24 lg:py-32">
+        <div className="max-w-2xl mx-auto px-4 md:px-6 lg:px-8">
+          <h1 className="text-4xl font-bold mb-8">Your Reservation</h1>
+
+          {isLoading ? (
+            <Skeleton className="h-64" />
+          ) : isError || !reservation ? (
+            <Card>
+              <CardContent className="p-6 text-center text-muted-foreground">
+                We couldn't find this reservation. Please check your link.
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <CardTitle>{reservation.name}</CardTitle>
+                    <CardDescription>Crêperie Kinder 5</CardDescription>
+                  </div>
+                  <Badge data-testid="badge-reservation-status">{reservationStatusLabels[reservation.status]}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {editing ? (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="manage-date">Date</Label>
+                      <Input
+                        id="manage-date"
+                        type="date"
+                        value={draft.date}
+                        min={new Date().toISOString().split("T")[0]}
+                        onChange={(e) => setDraft({ ...draft, date: e.target.value, time: "" })}
+                        data-testid="input-manage-date"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="manage-party-size">Party Size</Label>
+                      <Input
+                        id="manage-party-size"
+                        type="number"
+                        min="1"
+                        max="20"
+                        value={draft.partySize}
+                        onChange={(e) => setDraft({ ...draft, partySize: parseInt(e.target.value) || 1, time: "" })}
+                        data-testid="input-manage-party-size"
+                      />
+                    </div>
+                    <div>
+                      <Label>Time</Label>
+                      <ReservationTimeSelect
+                        date={draft.date}
+                        partySize={draft.partySize}
+                        value={draft.time}
+                        onChange={(time) => setDraft({ ...draft, time })}
+                        manageToken={token}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-3">
+                      <CalendarDays className="w-5 h-5 text-primary" />
+                      <p data-testid="text-reservation-date">{reservation.date}</p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Clock className="w-5 h-5 text-primary" />
+                      <p data-testid="text-reservation-time">{reservation.time}</p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Users className="w-5 h-5 text-primary" />
+                      <p>Table for {reservation.partySize}</p>
+                    </div>
+                    {reservation.specialRequests && (
+                      <p className="text-sm bg-muted p-2 rounded-md">{reservation.specialRequests}</p>
+                    )}
+                  </div>
+                )}
+
+                <p className="text-sm text-muted-foreground">
+                  {reservation.changeableUntil
+                    ? `You can change or cancel online until ${new Date(reservation.changeableUntil).toLocaleString()}.`
+                    : reservation.status === "cancelled"
+                      ? "This booking is cancelled."
+                      : "This booking can no longer be changed online. Please call us."}
+                </p>
+              </CardContent>
+              {reservation.changeableUntil && (
+                <CardFooter className="flex gap-2 flex-wrap">
+                  {editing ? (
+                    <>
+                      <Button onClick={handleSave} disabled={saving || !draft.time} data-testid="button-save-reservation">
+                        {saving ? "Saving..." : "Save Changes"}
+                      </Button>
+                      <Button variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+                        Keep Booking As Is
+                      </Button>
+                    </>
+                  ) : (
+                    <Button variant="outline" onClick={handleEdit} disabled={saving} data-testid="button-edit-reservation">
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Change Booking
+                    </Button>
+                  )}
+                  <Button variant="destructive" onClick={handleCancel} disabled={saving} data-testid="button-cancel-reservation">
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Cancel Booking
+                  </Button>
+                </CardFooter>
+              )}
+            </Card>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Badge } from "@/components/ui/badge";
@@ -15,15 +16,9 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+import { ReservationTimeSelect } from "@/components/reservation-time-select";
 import { useToast } from "@/hooks/use-toast";
-import { insertReservationSchema, type InsertReservation } from "@shared/schema";
+import { insertReservationSchema, type InsertReservation, type Reservation } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { CalendarDays } from "lucide-react";
 import { Navigation } from "@/components/navigation";
@@ -32,6 +27,7 @@ import { Footer } from "@/components/footer";
 export default function ReservationPage() {
   const { toast } = useToast();
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [, setLocation] = useLocation();
 
   const form = useForm<InsertReservation>({
     resolver: zodResolver(insertReservationSchema),
@@ -47,22 +43,27 @@ export default function ReservationPage() {
   });
 
   const createReservation = useMutation({
-    mutationFn: async (data: InsertReservation) => {
-      return await apiRequest("POST", "/api/reservations", data);
+    mutationFn: async (data: InsertReservation): Promise<Reservation> => {
+      const response = await apiRequest("POST", "/api/reservations", data);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (reservation) => {
       queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
       setIsSubmitted(true);
       form.reset();
       toast({
         title: "Reservation Confirmed!",
-        description: "We look forward to serving you. A confirmation email has been sent.",
+        description: "We look forward to serving you. We've texted you a link to change or cancel your booking.",
       });
+      // The manage page is the guest's way back to their booking
+      if (reservation.manageToken) {
+        setLocation(`/reservations/manage/${reservation.manageToken}`);
+      }
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Reservation Failed",
-        description: "Please try again or call us directly.",
+        description: error.message || "Please try again or call us directly.",
         variant: "destructive",
       });
     },
@@ -72,12 +73,6 @@ export default function ReservationPage() {
     createReservation.mutate(data);
   };
 
-  const timeSlots = [
-    "11:00", "11:30", "12:00", "12:30", "13:00", "13:30",
-    "14:00", "14:30", "18:00", "18:30", "19:00", "19:30",
-    "20:00", "20:30", "21:00", "21:30"
-  ];
-
   return (
     <div className="min-h-screen">
       <Navigation />
@@ -179,7 +174,10 @@ export default function ReservationPage() {
                               min="1"
                               max="20"
                               {...field}
-                              onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                              onChange={(e) => {
+                                field.onChange(parseInt(e.target.value) || 1);
+                                form.setValue("time", "");
+                              }}
                               data-testid="input-party-size"
                             />
                           </FormControl>
@@ -200,6 +198,10 @@ export default function ReservationPage() {
                             <Input
                               type="date"
                               {...field}
+                              onChange={(e) => {
+                                field.onChange(e);
+                                form.setValue("time", "");
+                              }}
                               min={new Date().toISOString().split('T')[0]}
                               data-testid="input-date"
                             />
@@ -215,20 +217,12 @@ export default function ReservationPage() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Time</FormLabel>
-                          <Select onValueChange={field.onChange} value={field.value}>
-                            <FormControl>
-                              <SelectTrigger data-testid="select-time">
-                                <SelectValue placeholder="Select time" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {timeSlots.map((time) => (
-                                <SelectItem key={time} value={time}>
-                                  {time}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
+                          <ReservationTimeSelect
+                            date={form.watch("date")}
+                            partySize={form.watch("partySize")}
+                            value={field.value}
+                            onChange={field.onChange}
+                          />
                           <FormMessage />
                         </FormItem>
                       )}
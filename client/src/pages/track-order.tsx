@@ -0,0 +1,170 @@
+import { useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Navigation } from "@/components/navigation";
+import { Footer } from "@/components/footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Clock, Bike, Package, KeyRound } from "lucide-react";
+import { CustomerOrderActions } from "@/components/customer-order-actions";
+import { DriverLocationMap } from "@/components/driver-location-map";
+import { orderStatusLabels } from "@shared/order-status";
+import type { TrackedOrder } from "@shared/order-tracking";
+import { DRIVER_LOCATION_INTERVAL_MS } from "@shared/driver-location";
+import type { OrderStatus } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 15000;
+
+const finishedStatuses: OrderStatus[] = ["delivered", "refused", "cancelled"];
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export default function TrackOrderPage() {
+  const [, params] = useRoute("/track/:token");
+  const token = params?.token;
+
+  const { data: order, isLoading, isError, refetch } = useQuery<TrackedOrder>({
+    queryKey: ["/api/orders/track", token],
+    enabled: !!token,
+    // Keep polling until the order reaches a final status, in step with driver pings while it is on its way
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      if (status === "out_for_delivery") return DRIVER_LOCATION_INTERVAL_MS;
+      return status && finishedStatuses.includes(status) ? false : POLL_INTERVAL_MS;
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+      <main className="flex-1 py-20 md:py-24 lg:py-32">
+        <div className="max-w-2xl mx-auto px-4 md:px-6 lg:px-8">
+          <h1 className="text-4xl font-bold mb-8">Track Your Order</h1>
+
+          {isLoading ? (
+            <Skeleton className="h-96" />
+          ) : isError || !order ? (
+            <Card>
+              <CardContent className="p-6 text-center text-muted-foreground">
+                We couldn't find this order. Please check your tracking link.
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <CardTitle>Order #{order.reference}</CardTitle>
+                    <CardDescription>
+                      Placed {new Date(order.createdAt).toLocaleString()} · {order.orderType === "delivery" ? "Delivery" : "Pickup"}
+                    </CardDescription>
+                  </div>
+                  <Badge data-testid="badge-order-status">
+                    {orderStatusLabels[order.status] ?? order.status}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {order.estimatedAt && (
+                  <div className="flex items-center gap-3">
+                    <Clock className="w-5 h-5 text-primary" />
+                    <p>
+                      {order.orderType === "delivery" ? "Estimated delivery" : "Estimated ready"} around{" "}
+                      <span className="font-semibold" data-testid="text-eta">{formatTime(order.estimatedAt)}</span>
+                    </p>
+                  </div>
+                )}
+                {order.scheduledFor ? (
+                  <div className="flex items-center gap-3">
+                    <Package className="w-5 h-5 text-primary" />
+                    <p>
+                      Scheduled for {new Date(order.scheduledFor).toLocaleDateString()} at {formatTime(order.scheduledFor)}
+                    </p>
+                  </div>
+                ) : order.preferredTime && (
+                  <div className="flex items-center gap-3">
+                    <Package className="w-5 h-5 text-primary" />
+                    <p>Requested time: {order.preferredTime}</p>
+                  </div>
+                )}
+                {order.livreurFirstName && (
+                  <div className="flex items-center gap-3">
+                    <Bike className="w-5 h-5 text-primary" />
+                    <p>
+                      Your courier is <span className="font-semibold">{order.livreurFirstName}</span>
+                    </p>
+                  </div>
+                )}
+                {order.driverLocation && <DriverLocationMap location={order.driverLocation} />}
+                {order.handoverCode && (
+                  <div className="flex items-center gap-3 rounded-md border p-3">
+                    <KeyRound className="w-5 h-5 text-primary" />
+                    <div>
+                      <p className="text-sm text-muted-foreground">Give this code to your courier when your order arrives</p>
+                      <p className="text-2xl font-bold tracking-[0.3em]" data-testid="text-handover-code">{order.handoverCode}</p>
+                    </div>
+                  </div>
+                )}
+
+                <Separator />
+
+                <div className="space-y-2">
+                  {order.items.map((item, index) => (
+                    <div key={index} className="flex justify-between text-sm">
+                      <span>
+                        {item.quantity}x {item.name}
+                        {item.selectedOptions.length > 0 && (
+                          <span className="text-muted-foreground"> ({item.selectedOptions.map(o => o.optionName).join(", ")})</span>
+                        )}
+                      </span>
+                      <span>{(parseFloat(item.unitPrice) * item.quantity).toFixed(2)} DZD</span>
+                    </div>
+                  ))}
+                  {parseFloat(order.deliveryFee) > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span>Delivery</span>
+                      <span>{order.deliveryFee} DZD</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-bold pt-2">
+                    <span>Total</span>
+                    <span>{order.totalAmount} DZD</span>
+                  </div>
+                </div>
+
+                {order.notes && (
+                  <p className="text-sm text-muted-foreground">Notes: {order.notes}</p>
+                )}
+
+                <CustomerOrderActions
+                  endpoint={`/api/orders/track/${token}`}
+                  status={order.status}
+                  items={order.items}
+                  notes={order.notes}
+                  onChanged={() => refetch()}
+                />
+
+                {order.history.length > 0 && (
+                  <>
+                    <Separator />
+                    <ol className="space-y-2">
+                      {order.history.map((entry, index) => (
+                        <li key={index} className="flex justify-between text-sm">
+                          <span>{orderStatusLabels[entry.status] ?? entry.status}</span>
+                          <span className="text-muted-foreground">{formatTime(entry.at)}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
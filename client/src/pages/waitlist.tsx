@@ -0,0 +1,86 @@
+import { useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Navigation } from "@/components/navigation";
+import { Footer } from "@/components/footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BellRing, Clock, Users } from "lucide-react";
+import { waitlistStatusLabels, type TrackedWaitlistEntry } from "@shared/waitlist";
+
+const POLL_INTERVAL_MS = 20000;
+
+export default function WaitlistPage() {
+  const [, params] = useRoute("/waitlist/:token");
+  const token = params?.token;
+
+  const { data: entry, isLoading, isError } = useQuery<TrackedWaitlistEntry>({
+    queryKey: ["/api/waitlist/track", token],
+    enabled: !!token,
+    // Keep polling while the party is still queuing
+    refetchInterval: (query) => (query.state.data && !query.state.data.place ? false : POLL_INTERVAL_MS),
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+      <main className="flex-1 py-20 md:py-24 lg:py-32">
+        <div className="max-w-2xl mx-auto px-4 md:px-6 lg:px-8">
+          <h1 className="text-4xl font-bold mb-8">Your Place in Line</h1>
+
+          {isLoading ? (
+            <Skeleton className="h-64" />
+          ) : isError || !entry ? (
+            <Card>
+              <CardContent className="p-6 text-center text-muted-foreground">
+                We couldn't find this waitlist entry. Please check your link.
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <CardTitle>{entry.name}</CardTitle>
+                    <CardDescription className="flex items-center gap-1">
+                      <Users className="w-4 h-4" /> Table for {entry.partySize}
+                    </CardDescription>
+                  </div>
+                  <Badge data-testid="badge-waitlist-status">{waitlistStatusLabels[entry.status]}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {entry.status === "notified" ? (
+                  <div className="flex items-center gap-3 rounded-md border border-primary p-4">
+                    <BellRing className="w-6 h-6 text-primary" />
+                    <p className="font-semibold">Your table is ready! Please come to the front desk.</p>
+                  </div>
+                ) : entry.place ? (
+                  <>
+                    <p className="text-5xl font-bold" data-testid="text-waitlist-position">
+                      #{entry.place.position}
+                    </p>
+                    <div className="flex items-center gap-3">
+                      <Clock className="w-5 h-5 text-primary" />
+                      <p>
+                        About <span className="font-semibold" data-testid="text-waitlist-wait">{entry.place.estimatedWaitMinutes} minutes</span> to go
+                      </p>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      We'll text you when your table is ready. This page updates on its own.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">
+                    {entry.status === "seated" ? "You've been seated. Enjoy your meal!" : "You're no longer on the waitlist."}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
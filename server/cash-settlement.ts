@@ -0,0 +1,117 @@
+import { z } from "zod";
+import type { CashBalance, CashReport } from "@shared/cash-settlement";
+import type { CashSettlement, OrderWithItems, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { formatAmount } from "./order-pricing";
+
+// Sent with status "delivered" on delivery orders; required from livreurs, optional for the owner
+export const cashCollectionSchema = z.object({
+  cashCollected: z.coerce.number().min(0, "Amount collected cannot be negative"),
+  cashNote: z.string().trim().max(200).optional(),
+});
+
+export const cashSettlementInputSchema = z.object({
+  handedInAmount: z.coerce.number().min(0, "Amount handed in cannot be negative"),
+  note: z.string().trim().max(500).optional(),
+});
+
+export class CashSettlementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CashSettlementError";
+  }
+}
+
+// The order fields to store when a delivery order is marked delivered
+export function readCashCollection(body: unknown, required: boolean): { cashCollected: string; cashNote: string | null } | null {
+  const hasAmount = typeof body === "object" && body !== null
+    && (body as Record<string, unknown>).cashCollected !== undefined
+    && (body as Record<string, unknown>).cashCollected !== "";
+  if (!hasAmount && !required) return null;
+
+  const { cashCollected, cashNote } = cashCollectionSchema.parse(body);
+  return { cashCollected: formatAmount(cashCollected), cashNote: cashNote || null };
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export function buildCashReport(
+  livreur: Pick<User, "id" | "name">,
+  orders: OrderWithItems[],
+  settlement: CashSettlement | null = null,
+): CashReport {
+  const lines = orders.map(order => {
+    const expected = parseFloat(order.totalAmount);
+    const collected = parseFloat(order.cashCollected ?? "0");
+    return {
+      orderId: order.id,
+      reference: order.id.slice(0, 8),
+      customerName: order.customerName,
+      deliveredAt: new Date(order.updatedAt).toISOString(),
+      expected: formatAmount(expected),
+      collected: formatAmount(collected),
+      difference: formatAmount(collected - expected),
+      note: order.cashNote,
+    };
+  });
+  const expected = sum(lines.map(line => parseFloat(line.expected)));
+  const collected = sum(lines.map(line => parseFloat(line.collected)));
+
+  return {
+    livreurId: livreur.id,
+    livreurName: livreur.name,
+    shiftStart: settlement ? new Date(settlement.shiftStart).toISOString() : lines[0]?.deliveredAt ?? null,
+    shiftEnd: settlement ? new Date(settlement.shiftEnd).toISOString() : null,
+    lines,
+    expected: formatAmount(expected),
+    collected: formatAmount(collected),
+    discrepancy: formatAmount(collected - expected),
+    settlement,
+  };
+}
+
+export async function getCashBalances(storage: IStorage): Promise<CashBalance[]> {
+  const livreurs = (await storage.getAllUsers()).filter(user => user.role === "livreur");
+  return Promise.all(livreurs.map(async livreur => {
+    const orders = await storage.getUnsettledCashOrders(livreur.id);
+    return {
+      livreurId: livreur.id,
+      livreurName: livreur.name,
+      orderCount: orders.length,
+      cashInHand: formatAmount(sum(orders.map(order => parseFloat(order.cashCollected ?? "0")))),
+    };
+  }));
+}
+
+// The owner counts the livreur's cash and closes the shift: every unsettled order goes into one settlement
+export async function settleLivreurCash(
+  storage: IStorage,
+  livreur: Pick<User, "id" | "name">,
+  owner: Pick<User, "id">,
+  body: unknown,
+  now: Date = new Date(),
+): Promise<CashReport> {
+  const input = cashSettlementInputSchema.parse(body);
+  const orders = await storage.getUnsettledCashOrders(livreur.id);
+  if (orders.length === 0) {
+    throw new CashSettlementError(`${livreur.name} has no cash to settle`);
+  }
+
+  const report = buildCashReport(livreur, orders);
+  const settlement = await storage.createCashSettlement({
+    livreurId: livreur.id,
+    settledBy: owner.id,
+    shiftStart: new Date(report.shiftStart!),
+    shiftEnd: now,
+    orderCount: orders.length,
+    expectedAmount: report.expected,
+    collectedAmount: report.collected,
+    handedInAmount: formatAmount(input.handedInAmount),
+    note: input.note || null,
+  }, orders.map(order => order.id));
+  if (!settlement) {
+    throw new CashSettlementError("Some of these orders were settled meanwhile. Please reload and try again.");
+  }
+
+  return { ...report, shiftEnd: now.toISOString(), settlement };
+}
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { getCommune, getWilaya } from "@shared/algeria-locations";
+import type { CommuneReport, CommuneReportLine } from "@shared/commune-report";
+import type { OrderWithItems } from "@shared/schema";
+import { formatAmount } from "./order-pricing";
+
+export const communeReportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(366).default(30),
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Where deliveries went over the last `days` days, busiest commune first
+export function buildCommuneReport(orders: OrderWithItems[], days: number, now = new Date()): CommuneReport {
+  const from = new Date(now.getTime() - days * DAY);
+  const groups = new Map<string | null, OrderWithItems[]>();
+
+  for (const order of orders) {
+    const placedAt = new Date(order.createdAt);
+    if (order.orderType !== "delivery" || order.status !== "delivered" || placedAt < from || placedAt > now) continue;
+    const key = order.deliveryCommune ?? null;
+    groups.set(key, [...(groups.get(key) ?? []), order]);
+  }
+
+  const lines: CommuneReportLine[] = Array.from(groups, ([code, group]) => {
+    const commune = code ? getCommune(code) : undefined;
+    return {
+      commune: code,
+      communeName: commune?.name ?? code ?? "Free-text address",
+      wilayaName: commune ? getWilaya(commune.wilayaCode)?.name ?? null : null,
+      orderCount: group.length,
+      revenue: formatAmount(group.reduce((sum, order) => sum + parseFloat(order.totalAmount), 0)),
+      deliveryFees: formatAmount(group.reduce((sum, order) => sum + parseFloat(order.deliveryFee), 0)),
+    };
+  });
+
+  return {
+    from: from.toISOString(),
+    to: now.toISOString(),
+    lines: lines.sort((a, b) => b.orderCount - a.orderCount || parseFloat(b.revenue) - parseFloat(a.revenue)),
+  };
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { formatCustomerAddress, toAlgerianAddress } from "@shared/customer-address";
+import type { CustomerAddress, Order } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export class CustomerAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CustomerAddressError";
+  }
+}
+
+// An address from someone else's book answers the same as a missing one
+export async function getOwnAddress(storage: IStorage, userId: number, id: string): Promise<CustomerAddress | undefined> {
+  const address = await storage.getCustomerAddress(id);
+  return address && address.userId === userId ? address : undefined;
+}
+
+// Orders keep a copy of the saved address, so editing or deleting it later leaves past orders alone
+export async function snapshotSavedAddress(
+  storage: IStorage,
+  userId: number | undefined,
+  addressId: unknown,
+): Promise<Pick<Order, "deliveryAddress" | "deliveryLat" | "deliveryLng" | "addressParts">> {
+  const id = z.string().min(1).parse(addressId);
+  const address = userId ? await getOwnAddress(storage, userId, id) : undefined;
+  if (!address) {
+    throw new CustomerAddressError("This saved address is no longer available. Please choose another one.");
+  }
+
+  return {
+    deliveryAddress: formatCustomerAddress(address),
+    deliveryLat: address.lat,
+    deliveryLng: address.lng,
+    addressParts: toAlgerianAddress(address),
+  };
+}
@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { canCustomerModifyOrder, orderStatusLabels } from "@shared/order-status";
+import type { OrderStatus, OrderWithItems, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { priceOrder, formatAmount } from "./order-pricing";
+import { publishOrderChange } from "./order-stream";
+import { quoteDelivery, withMinimumOrderCheck, assertDeliverable } from "./delivery-quote";
+
+export const customerOrderChangeSchema = z.object({
+  status: z.literal("cancelled").optional(),
+  items: z.unknown().optional(),
+  notes: z.string().max(500).nullable().optional(),
+  reason: z.string().max(200).optional(),
+}).refine(
+  (change) => change.status !== undefined || change.items !== undefined || change.notes !== undefined,
+  { message: "Nothing to change" },
+);
+
+export class OrderChangeRejectedError extends Error {
+  constructor(message: string, public currentStatus: string) {
+    super(message);
+    this.name = "OrderChangeRejectedError";
+  }
+}
+
+function rejectChange(status: OrderStatus): never {
+  throw new OrderChangeRejectedError(
+    `Order is already ${orderStatusLabels[status].toLowerCase()} and can no longer be changed. Please contact the restaurant.`,
+    status,
+  );
+}
+
+// The guarded write found the order gone, or moved on (e.g. the owner confirmed it meanwhile)
+async function rejectIfMovedOn(storage: IStorage, orderId: string): Promise<undefined> {
+  const current = await storage.getOrder(orderId);
+  if (current) rejectChange(current.status);
+  return undefined;
+}
+
+// Cancel or edit an order on behalf of its customer (a signed-in client, or a guest when actor is undefined).
+// Edits are re-priced against the current menu and delivery zones like a new order, and the owner dashboard gets a notice.
+export async function applyCustomerOrderChange(
+  storage: IStorage,
+  order: OrderWithItems,
+  body: unknown,
+  actor?: Pick<User, "id" | "role">,
+): Promise<OrderWithItems | undefined> {
+  const change = customerOrderChangeSchema.parse(body);
+  const reference = `#${order.id.slice(0, 8)}`;
+
+  if (!canCustomerModifyOrder(order.status)) {
+    rejectChange(order.status);
+  }
+
+  // Every write below only goes through while the order is still in the status checked here
+  if (change.status === "cancelled") {
+    const updatedOrder = await storage.updateOrderIfStatus(order.id, order.status, { status: "cancelled", estimatedAt: null });
+    if (!updatedOrder) return rejectIfMovedOn(storage, order.id);
+
+    await storage.createOrderEvent({
+      orderId: order.id,
+      actorUserId: actor?.id ?? null,
+      actorRole: actor?.role ?? null,
+      fromStatus: order.status,
+      toStatus: "cancelled",
+      note: change.reason?.trim() || "Cancelled by customer",
+    });
+    publishOrderChange("order.updated", updatedOrder, order, `Order ${reference} was cancelled by the customer`);
+    return updatedOrder;
+  }
+
+  const updates: Record<string, any> = {};
+  if (change.notes !== undefined) {
+    updates.notes = change.notes?.trim() || null;
+  }
+
+  let updatedOrder: OrderWithItems | undefined;
+  if (change.items !== undefined) {
+    // Orders from before delivery zones have no coordinates and keep the fee they were placed with
+    const delivery = order.orderType === "delivery" && order.deliveryLat != null && order.deliveryLng != null
+      ? await quoteDelivery(storage, { lat: order.deliveryLat, lng: order.deliveryLng, commune: order.deliveryCommune })
+      : null;
+    const deliveryFee = delivery ? parseFloat(delivery.fee) : parseFloat(order.deliveryFee);
+    const pricing = await priceOrder(storage, change.items, deliveryFee);
+    if (delivery) {
+      assertDeliverable(withMinimumOrderCheck(delivery, pricing.subtotal));
+      updates.deliveryZoneId = delivery.zoneId;
+    }
+    updatedOrder = await storage.replaceOrderItems(order.id, order.status, pricing.items, {
+      ...updates,
+      totalAmount: formatAmount(pricing.totalAmount),
+      deliveryFee: formatAmount(pricing.deliveryFee),
+    });
+  } else {
+    updatedOrder = await storage.updateOrderIfStatus(order.id, order.status, updates);
+  }
+  if (!updatedOrder) return rejectIfMovedOn(storage, order.id);
+
+  // Edits keep the status, so the history shows them as pending -> pending with a note
+  await storage.createOrderEvent({
+    orderId: order.id,
+    actorUserId: actor?.id ?? null,
+    actorRole: actor?.role ?? null,
+    fromStatus: order.status,
+    toStatus: order.status,
+    note: change.items !== undefined ? "Items changed by customer" : "Notes changed by customer",
+  });
+  publishOrderChange("order.updated", updatedOrder, order, `Order ${reference} was modified by the customer`);
+  return updatedOrder;
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { randomUUID } from "crypto";
+import { hasCoordinates, planRoute, suggestBatches, MAX_BATCH_SIZE, type DeliveryBatch, type DeliveryRoute } from "@shared/delivery-batching";
+import type { OrderWithItems, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { publishOrderChange } from "./order-stream";
+import { isAvailableNow } from "./livreur-availability";
+import { computeOrderEta } from "./order-eta";
+
+export const deliveryBatchSchema = z.object({
+  orderIds: z.array(z.string().min(1)).min(2, "A batch needs at least two orders").max(MAX_BATCH_SIZE),
+});
+
+export class DeliveryBatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeliveryBatchError";
+  }
+}
+
+type Livreur = Pick<User, "id" | "role" | "active" | "online">;
+
+// Ready delivery orders with a known door, not batched yet: the livreur's own, plus unassigned ones while on duty
+function isBatchable(order: OrderWithItems, livreur: Livreur, available: boolean): boolean {
+  return order.orderType === "delivery"
+    && order.status === "ready"
+    && hasCoordinates(order)
+    && !order.batchId
+    && (order.livreurId === livreur.id || (available && !order.livreurId));
+}
+
+function toDeliveryBatch(route: DeliveryRoute<OrderWithItems>, batchId: string | null): DeliveryBatch {
+  return {
+    batchId,
+    totalKm: Math.round(route.totalKm * 10) / 10,
+    totalMinutes: route.totalMinutes,
+    stops: route.stops.map(({ order, stop, legKm, etaMinutes }) => ({
+      orderId: order.id,
+      reference: order.id.slice(0, 8),
+      customerName: order.customerName,
+      deliveryAddress: order.deliveryAddress,
+      totalAmount: order.totalAmount,
+      stop,
+      legKm: Math.round(legKm * 10) / 10,
+      etaMinutes,
+    })),
+  };
+}
+
+async function shopLocation(storage: IStorage) {
+  const settings = await storage.getDeliverySettings();
+  return { lat: settings.shopLat, lng: settings.shopLng };
+}
+
+export async function getBatchSuggestions(storage: IStorage, livreur: Livreur): Promise<DeliveryBatch[]> {
+  const [orders, shop, available] = await Promise.all([
+    storage.getReadyOrders(),
+    shopLocation(storage),
+    isAvailableNow(storage, livreur),
+  ]);
+
+  return suggestBatches(orders.filter(order => isBatchable(order, livreur, available)))
+    .map(batch => toDeliveryBatch(planRoute(shop, batch), null));
+}
+
+// The livreur takes the whole batch; each order learns its stop and an ETA along the route
+export async function acceptDeliveryBatch(storage: IStorage, livreur: Livreur, body: unknown): Promise<DeliveryBatch> {
+  const { orderIds } = deliveryBatchSchema.parse(body);
+  if (new Set(orderIds).size !== orderIds.length) {
+    throw new DeliveryBatchError("An order appears twice in this batch");
+  }
+
+  const [orders, shop, available] = await Promise.all([
+    Promise.all(orderIds.map(id => storage.getOrder(id))),
+    shopLocation(storage),
+    isAvailableNow(storage, livreur),
+  ]);
+  if (orders.some(order => !order || !isBatchable(order, livreur, available))) {
+    throw new DeliveryBatchError("Some of these orders can no longer be batched. Please reload the suggestions.");
+  }
+
+  const previous = orders as OrderWithItems[];
+  const route = planRoute(shop, previous);
+  const batchId = randomUUID();
+  const updated = await storage.assignDeliveryBatch(livreur.id, await Promise.all(route.stops.map(async ({ order, stop, etaMinutes }) => ({
+    orderId: order.id,
+    updates: {
+      batchId,
+      batchStop: stop,
+      routeMinutes: etaMinutes,
+      estimatedAt: await computeOrderEta(storage, { ...order, routeMinutes: etaMinutes }),
+    },
+  }))));
+  if (!updated) {
+    throw new DeliveryBatchError("One of these orders was just taken by another livreur");
+  }
+
+  for (const order of updated) {
+    const before = previous.find(o => o.id === order.id);
+    await storage.createOrderEvent({
+      orderId: order.id,
+      actorUserId: livreur.id,
+      actorRole: livreur.role,
+      fromStatus: order.status,
+      toStatus: order.status,
+      note: `Batched by livreur: stop ${order.batchStop} of ${updated.length}`,
+    });
+    publishOrderChange("order.updated", order, before);
+  }
+
+  return toDeliveryBatch({
+    ...route,
+    stops: route.stops.map(stop => ({ ...stop, order: updated.find(o => o.id === stop.order.id) ?? stop.order })),
+  }, batchId);
+}
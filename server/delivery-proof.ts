@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { Client } from "@replit/object-storage";
+import type { DeliveryProof, OrderWithItems, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Where POST /api/upload-image puts proof photos; only photos from there are accepted as proof
+export const DELIVERY_PROOF_FOLDER = "delivery-proofs";
+
+// Proof photos are named after their order ("<orderId>_<upload>"), so a photo can only prove its own delivery
+export function proofPhotoFileName(orderId: string, upload: string): string {
+  return `${orderId}_${upload}`;
+}
+
+export function proofPhotoOrderId(fileName: string): string | null {
+  const separator = fileName.indexOf("_");
+  return separator > 0 ? fileName.slice(0, separator) : null;
+}
+
+// Photos of a customer's door: the owner and the livreur who made the delivery only
+export function canViewProofPhotos(order: OrderWithItems, user: Pick<User, "id" | "role">): boolean {
+  return user.role === "owner" || (user.role === "livreur" && order.livreurId === user.id);
+}
+
+export const deliveryProofInputSchema = z.object({
+  handoverCode: z.string().trim().regex(/^\d{4}$/, "The handover code has 4 digits").optional(),
+  proofPhotoUrl: z.string().startsWith(`/storage/${DELIVERY_PROOF_FOLDER}/`, "Invalid proof photo").optional(),
+});
+
+// Wrong handover codes allowed per order before the code locks and the owner has to confirm the delivery
+export const MAX_HANDOVER_ATTEMPTS = 5;
+
+export class DeliveryProofError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeliveryProofError";
+  }
+}
+
+// Check the proof a livreur gives when marking a delivery order delivered: the customer's
+// handover code, or a photo of this order uploaded earlier when the customer couldn't be reached.
+// Owners may mark orders delivered without proof; that is recorded as such. Every try at the code is counted
+// before it is checked, and after MAX_HANDOVER_ATTEMPTS only the owner can mark the order delivered.
+export async function buildDeliveryProof(
+  storage: IStorage,
+  order: OrderWithItems,
+  body: unknown,
+  actor: Pick<User, "id" | "role">,
+  now: Date = new Date(),
+): Promise<DeliveryProof> {
+  const proof = (method: DeliveryProof["method"], photoUrl: string | null = null): DeliveryProof => ({
+    method,
+    photoUrl,
+    recordedBy: actor.id,
+    recordedAt: now.toISOString(),
+  });
+
+  const input = deliveryProofInputSchema.parse(body);
+
+  if (input.handoverCode) {
+    const attempt = await storage.takeHandoverAttempt(order.id);
+    if (attempt === undefined || attempt > MAX_HANDOVER_ATTEMPTS) {
+      throw new DeliveryProofError("Too many wrong handover codes. Ask the owner to confirm this delivery.");
+    }
+    if (!order.handoverCode || input.handoverCode !== order.handoverCode) {
+      const left = MAX_HANDOVER_ATTEMPTS - attempt;
+      throw new DeliveryProofError(left > 0
+        ? `Wrong handover code. Ask the customer to check their tracking page (${left} ${left === 1 ? "try" : "tries"} left).`
+        : "Wrong handover code. The code is now locked: ask the owner to confirm this delivery.");
+    }
+    return proof("code");
+  }
+  if (input.proofPhotoUrl) {
+    if (order.handoverAttempts >= MAX_HANDOVER_ATTEMPTS && actor.role !== "owner") {
+      throw new DeliveryProofError("The handover code is locked after too many wrong tries. Ask the owner to confirm this delivery.");
+    }
+    const objectName = input.proofPhotoUrl.slice("/storage/".length);
+    if (proofPhotoOrderId(objectName.slice(DELIVERY_PROOF_FOLDER.length + 1)) !== order.id) {
+      throw new DeliveryProofError("This photo was not taken for this order");
+    }
+    const found = await new Client().exists(objectName);
+    if (!found.ok || !found.value) {
+      throw new DeliveryProofError("The proof photo was not uploaded. Please take it again.");
+    }
+    return proof("photo", input.proofPhotoUrl);
+  }
+  if (actor.role === "owner") {
+    return proof("owner");
+  }
+  throw new DeliveryProofError("Enter the customer's handover code or attach a photo of the delivery");
+}
+
+// Livreurs must get the code from the customer, so it never goes out in their order views
+export function hideHandoverCode(order: OrderWithItems): OrderWithItems {
+  return { ...order, handoverCode: null };
+}
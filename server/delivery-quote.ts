@@ -0,0 +1,241 @@
+import { z } from "zod";
+import { distanceKm, isPointInPolygon } from "@shared/geo";
+import { formatCommune, getCommune } from "@shared/algeria-locations";
+import { geoPointSchema, type DeliverySettings, type DeliveryZone, type GeoPoint } from "@shared/schema";
+import type { DeliveryQuote } from "@shared/delivery-quote";
+import type { IStorage } from "./storage";
+import { formatAmount } from "./order-pricing";
+
+export const deliveryQuoteConfig = {
+  // Nominatim-compatible search endpoint used when a customer only gives an address
+  geocoderUrl: process.env.GEOCODER_URL || "https://nominatim.openstreetmap.org/search",
+  geocoderTimeoutMs: parseInt(process.env.GEOCODER_TIMEOUT_MS || "5000", 10),
+  // Nominatim's usage policy allows about one request per second for the whole server
+  geocoderIntervalMs: parseInt(process.env.GEOCODER_INTERVAL_MS || "1000", 10),
+  // How long a looked-up address is reused before asking the geocoder again
+  geocodeCacheMinutes: parseInt(process.env.GEOCODE_CACHE_MINUTES || "1440", 10),
+  // Quotes one visitor (by IP) may ask for per minute; the endpoint needs no login
+  quotesPerMinute: parseInt(process.env.DELIVERY_QUOTES_PER_MINUTE || "10", 10),
+};
+
+const MINUTE = 60 * 1000;
+const MAX_CACHED_ADDRESSES = 1000;
+const MAX_TRACKED_VISITORS = 10000;
+
+// Used until the owner saves delivery settings; keeps the old flat 200 DZD fee until zones are set up
+export function defaultDeliverySettings(): DeliverySettings {
+  return {
+    id: "delivery",
+    shopLat: parseFloat(process.env.SHOP_LAT || "36.7538"),
+    shopLng: parseFloat(process.env.SHOP_LNG || "3.0588"),
+    outOfAreaRule: "flat_fee",
+    outOfAreaFee: "200.00",
+    outOfAreaMaxKm: null,
+  };
+}
+
+export const deliveryLocationSchema = z.object({
+  lat: z.coerce.number().min(-90).max(90).nullish(),
+  lng: z.coerce.number().min(-180).max(180).nullish(),
+  address: z.string().trim().max(500).nullish(),
+  // Commune code from a structured address; matches commune zones and helps geocoding
+  commune: z.string().refine((code) => !!getCommune(code), "Unknown commune").nullish(),
+}).refine(
+  (location) => (location.lat != null && location.lng != null) || !!location.address,
+  { message: "Delivery coordinates or an address are required" },
+);
+
+export type DeliveryLocation = z.infer<typeof deliveryLocationSchema>;
+
+export class DeliveryQuoteError extends Error {
+  constructor(message: string, public quote?: DeliveryQuote) {
+    super(message);
+    this.name = "DeliveryQuoteError";
+  }
+}
+
+// Lookups by normalized address; misses (null) are kept too, so an unknown address isn't asked for again
+const geocodeCache = new Map<string, { point: GeoPoint | null; expiresAt: number }>();
+let nextGeocodeAt = 0;
+
+function normalizeAddress(address: string): string {
+  return address.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Spaces geocoder requests out to the configured interval; refuses when the queue is longer than a request may wait
+async function waitForGeocoderTurn(): Promise<void> {
+  const now = Date.now();
+  const wait = Math.max(0, nextGeocodeAt - now);
+  if (wait > deliveryQuoteConfig.geocoderTimeoutMs) {
+    throw new DeliveryQuoteError("We can't look up addresses right now. Please try again in a moment or share your location.");
+  }
+  nextGeocodeAt = Math.max(now, nextGeocodeAt) + deliveryQuoteConfig.geocoderIntervalMs;
+  if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+}
+
+async function geocodeAddress(address: string): Promise<GeoPoint | null> {
+  const key = normalizeAddress(address);
+  const cached = geocodeCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.point;
+
+  const point = await fetchGeocode(address);
+  if (point !== undefined) {
+    geocodeCache.delete(key);
+    if (geocodeCache.size >= MAX_CACHED_ADDRESSES) {
+      // Maps keep insertion order: drop the oldest lookup
+      geocodeCache.delete(geocodeCache.keys().next().value!);
+    }
+    geocodeCache.set(key, { point, expiresAt: Date.now() + deliveryQuoteConfig.geocodeCacheMinutes * MINUTE });
+  }
+  return point ?? null;
+}
+
+// null when the geocoder doesn't know the address, undefined when it couldn't be asked (not worth caching)
+async function fetchGeocode(address: string): Promise<GeoPoint | null | undefined> {
+  await waitForGeocoderTurn();
+
+  const url = new URL(deliveryQuoteConfig.geocoderUrl);
+  url.searchParams.set("q", address);
+  url.searchParams.set("format", "json");
+  url.searchParams.set("limit", "1");
+
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": "kinder5-delivery-quotes" },
+      signal: AbortSignal.timeout(deliveryQuoteConfig.geocoderTimeoutMs),
+    });
+    if (!response.ok) return undefined;
+
+    const [result] = await response.json() as Array<{ lat: string; lon: string }>;
+    if (!result) return null;
+
+    const point = geoPointSchema.safeParse({ lat: result.lat, lng: result.lon });
+    return point.success ? point.data : null;
+  } catch (error) {
+    console.error("Error geocoding delivery address:", error);
+    return undefined;
+  }
+}
+
+// Per-IP fixed window for the public quote endpoint; false once the visitor is over quotesPerMinute
+const quoteWindows = new Map<string, { startedAt: number; count: number }>();
+
+export function takeQuoteRequest(ip: string, now: number = Date.now()): boolean {
+  const window = quoteWindows.get(ip);
+  if (window && now - window.startedAt < MINUTE) {
+    window.count += 1;
+    return window.count <= deliveryQuoteConfig.quotesPerMinute;
+  }
+
+  if (quoteWindows.size >= MAX_TRACKED_VISITORS) {
+    quoteWindows.forEach((stale, key) => {
+      if (now - stale.startedAt >= MINUTE) quoteWindows.delete(key);
+    });
+  }
+  quoteWindows.set(ip, { startedAt: now, count: 1 });
+  return true;
+}
+
+// Coordinates win over the address; the address is only geocoded when the customer didn't share a location
+export async function resolveDeliveryPoint(location: DeliveryLocation): Promise<GeoPoint> {
+  if (location.lat != null && location.lng != null) {
+    return { lat: location.lat, lng: location.lng };
+  }
+
+  // A door the geocoder doesn't know still has a commune it does
+  const point = (location.address ? await geocodeAddress(location.address) : null)
+    ?? (location.commune ? await geocodeAddress(`${formatCommune(location.commune)}, Algeria`) : null);
+  if (!point) {
+    throw new DeliveryQuoteError("We couldn't find this address. Please check it or share your location.");
+  }
+  return point;
+}
+
+function zoneContains(zone: DeliveryZone, shop: GeoPoint, point: GeoPoint, commune?: string | null): boolean {
+  if (zone.shape === "radius") {
+    return zone.radiusKm != null && distanceKm(shop, point) <= zone.radiusKm;
+  }
+  if (zone.shape === "communes") {
+    return !!commune && (zone.communes ?? []).includes(commune);
+  }
+  return isPointInPolygon(point, zone.polygon ?? []);
+}
+
+// Among the active zones containing the point (or its commune), the cheapest one applies
+export function findDeliveryZone(
+  zones: DeliveryZone[],
+  shop: GeoPoint,
+  point: GeoPoint,
+  commune?: string | null,
+): DeliveryZone | undefined {
+  return zones
+    .filter(zone => zone.active && zoneContains(zone, shop, point, commune))
+    .sort((a, b) => parseFloat(a.fee) - parseFloat(b.fee))[0];
+}
+
+// Price a delivery to a point; pass the order subtotal to also check the zone's minimum order
+export function quoteDeliveryPoint(
+  zones: DeliveryZone[],
+  settings: DeliverySettings,
+  point: GeoPoint,
+  subtotal?: number,
+  commune?: string | null,
+): DeliveryQuote {
+  const shop = { lat: settings.shopLat, lng: settings.shopLng };
+  const distance = Math.round(distanceKm(shop, point) * 100) / 100;
+  const zone = findDeliveryZone(zones, shop, point, commune);
+
+  let quote: DeliveryQuote;
+  if (zone) {
+    quote = {
+      available: true,
+      point,
+      distanceKm: distance,
+      zoneId: zone.id,
+      zoneName: zone.name,
+      fee: formatAmount(parseFloat(zone.fee)),
+      minimumOrder: formatAmount(parseFloat(zone.minimumOrder)),
+      message: null,
+    };
+  } else {
+    const withinFlatFee = settings.outOfAreaRule === "flat_fee"
+      && (settings.outOfAreaMaxKm == null || distance <= settings.outOfAreaMaxKm);
+    quote = {
+      available: withinFlatFee,
+      point,
+      distanceKm: distance,
+      zoneId: null,
+      zoneName: null,
+      fee: formatAmount(withinFlatFee ? parseFloat(settings.outOfAreaFee) : 0),
+      minimumOrder: formatAmount(0),
+      message: withinFlatFee ? null : "Sorry, we don't deliver to this address yet. You can still order for pickup.",
+    };
+  }
+
+  return subtotal === undefined ? quote : withMinimumOrderCheck(quote, subtotal);
+}
+
+export function withMinimumOrderCheck(quote: DeliveryQuote, subtotal: number): DeliveryQuote {
+  if (!quote.available || subtotal >= parseFloat(quote.minimumOrder)) return quote;
+  return {
+    ...quote,
+    available: false,
+    message: `Delivery to this area needs a minimum order of ${quote.minimumOrder} DZD`,
+  };
+}
+
+export async function quoteDelivery(storage: IStorage, location: DeliveryLocation, subtotal?: number): Promise<DeliveryQuote> {
+  const [point, zones, settings] = await Promise.all([
+    resolveDeliveryPoint(location),
+    storage.getDeliveryZones(),
+    storage.getDeliverySettings(),
+  ]);
+  return quoteDeliveryPoint(zones, settings, point, subtotal, location.commune);
+}
+
+// Throw when a quote can't be used for an order: out of area, or below the zone's minimum
+export function assertDeliverable(quote: DeliveryQuote): void {
+  if (!quote.available) {
+    throw new DeliveryQuoteError(quote.message ?? "Delivery is not available to this address", quote);
+  }
+}
@@ -0,0 +1,45 @@
+import type { DriverLocation, DriverLocationPing } from "@shared/driver-location";
+
+const MINUTE = 60 * 1000;
+
+export const driverLocationConfig = {
+  // Pings closer together than this are dropped, whatever the client sends
+  minPingIntervalMs: parseInt(process.env.DRIVER_LOCATION_MIN_INTERVAL_MS || "10000", 10),
+  // A position this old is no use to anyone; also cleans up deliveries that never got marked delivered
+  maxAgeMs: 30 * MINUTE,
+};
+
+// Latest position per order out for delivery. Kept in memory on purpose: positions are
+// short-lived, and nothing needs them once the order is delivered.
+const locations = new Map<string, DriverLocation>();
+
+// Store a ping as the order's latest position; false when it came too soon after the previous one
+export function recordDriverLocation(orderId: string, ping: DriverLocationPing, now: Date = new Date()): boolean {
+  const previous = locations.get(orderId);
+  if (previous && now.getTime() - new Date(previous.updatedAt).getTime() < driverLocationConfig.minPingIntervalMs) {
+    return false;
+  }
+
+  locations.set(orderId, {
+    lat: ping.lat,
+    lng: ping.lng,
+    accuracy: ping.accuracy ?? null,
+    updatedAt: now.toISOString(),
+  });
+  return true;
+}
+
+export function getDriverLocation(orderId: string, now: Date = new Date()): DriverLocation | null {
+  const location = locations.get(orderId);
+  if (!location) return null;
+
+  if (now.getTime() - new Date(location.updatedAt).getTime() > driverLocationConfig.maxAgeMs) {
+    locations.delete(orderId);
+    return null;
+  }
+  return location;
+}
+
+export function clearDriverLocation(orderId: string) {
+  locations.delete(orderId);
+}
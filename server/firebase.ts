@@ -1,5 +1,6 @@
 import { initializeApp, getApps } from 'firebase/app';
 import { getFirestore } from 'firebase/firestore';
+import { getAuth, signInWithEmailAndPassword } from 'firebase/auth';
 
 const firebaseConfig = {
   apiKey: process.env.VITE_FIREBASE_API_KEY,
@@ -16,4 +17,23 @@ const apps = getApps();
 export const app = apps.length === 0 ? initializeApp(firebaseConfig) : apps[0];
 export const db = getFirestore(app);
 
+// firestore.rules keep every collection closed to browsers: only accounts listed in serverAccounts get through,
+// so the server signs in as its own account before touching Firestore
+const serverEmail = process.env.FIREBASE_SERVER_EMAIL;
+const serverPassword = process.env.FIREBASE_SERVER_PASSWORD;
+
+async function signInServerAccount(): Promise<void> {
+  if (!serverEmail || !serverPassword) {
+    throw new Error('FIREBASE_SERVER_EMAIL and FIREBASE_SERVER_PASSWORD must be set: Firestore refuses every other request');
+  }
+  try {
+    await signInWithEmailAndPassword(getAuth(app), serverEmail, serverPassword);
+  } catch (error) {
+    throw new Error(`Failed to sign in the Firestore server account: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Rejects when the server can't sign in; startup waits for it and stops there rather than serving empty data
+export const firebaseReady: Promise<void> = signInServerAccount();
+
 console.log('✅ تم تهيئة Firebase Firestore على الخادم بنجاح');
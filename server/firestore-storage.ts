@@ -5,13 +5,40 @@ import {
   type InsertMenuItem,
   type Reservation,
   type InsertReservation,
+  type ReservationSettings,
+  type ReservationStatus,
+  type ReservationEvent,
+  type InsertReservationEvent,
+  type RestaurantTable,
+  type InsertRestaurantTable,
+  type WaitlistEntry,
+  type InsertWaitlistEntry,
+  type UpdateReservationSettings,
   type Order,
+  type OrderStatus,
   type InsertOrder,
+  type OrderItem,
+  type InsertOrderItem,
+  type OrderWithItems,
+  type OrderEvent,
+  type InsertOrderEvent,
+  type DeliveryZone,
+  type InsertDeliveryZone,
+  type DeliverySettings,
+  type UpdateDeliverySettings,
+  type CashSettlement,
+  type InsertCashSettlement,
+  type LivreurShift,
+  type InsertLivreurShift,
+  type CustomerAddress,
+  type InsertCustomerAddress,
   type User,
   type InsertUser
 } from "@shared/schema";
+import { orderFromDocument } from "@shared/order-document";
 import { randomUUID } from "crypto";
-import { db } from "./firebase";
+import { generateTrackingToken, generateHandoverCode } from "./order-tracking";
+import { db, firebaseReady } from "./firebase";
 import {
   collection,
   doc,
@@ -23,9 +50,14 @@ import {
   where,
   orderBy,
   Timestamp,
-  deleteDoc
+  deleteDoc,
+  writeBatch,
+  runTransaction
 } from "firebase/firestore";
 import type { IStorage } from "./storage";
+import { StorageUnavailableError } from "./storage-errors";
+import { defaultDeliverySettings } from "./delivery-quote";
+import { defaultReservationSettings } from "./reservation-availability";
 
 export class FirestoreStorage implements IStorage {
   private users: Map<number, User>;
@@ -50,6 +82,7 @@ export class FirestoreStorage implements IStorage {
         phone: null,
         role: 'client' as const,
         active: true,
+        online: false,
         createdAt: new Date(),
       }
     ];
@@ -59,7 +92,12 @@ export class FirestoreStorage implements IStorage {
     });
     this.userIdCounter = 2;
 
-    // Initialize default categories in Firestore
+    // Initialize default categories in Firestore; without the server account startup stops in index.ts
+    try {
+      await firebaseReady;
+    } catch {
+      return;
+    }
     await this.initializeCategories();
   }
 
@@ -114,6 +152,7 @@ export class FirestoreStorage implements IStorage {
       phone: insertUser.phone ?? null,
       role: insertUser.role ?? 'client',
       active: true,
+      online: false,
       createdAt: new Date(),
     };
     this.users.set(id, user);
@@ -133,6 +172,15 @@ export class FirestoreStorage implements IStorage {
     return Array.from(this.users.values());
   }
 
+  async setUserOnline(id: number, online: boolean): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, online };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // ============ CATEGORY METHODS (Firestore) ============
 
   async getCategories(): Promise<Category[]> {
@@ -183,6 +231,8 @@ export class FirestoreStorage implements IStorage {
           imageUrl: data.imageUrl || null,
           available: data.available !== false,
           popular: data.popular || false,
+          optionGroups: data.optionGroups || [],
+          prepMinutes: data.prepMinutes ?? null,
         } as MenuItem;
       });
     } catch (error) {
@@ -209,6 +259,8 @@ export class FirestoreStorage implements IStorage {
         imageUrl: data.imageUrl || null,
         available: data.available !== false,
         popular: data.popular || false,
+        optionGroups: data.optionGroups || [],
+        prepMinutes: data.prepMinutes ?? null,
       } as MenuItem;
     } catch (error) {
       console.error('Error fetching menu item from Firestore:', error);
@@ -228,6 +280,8 @@ export class FirestoreStorage implements IStorage {
       imageUrl: insertItem.imageUrl ?? null,
       available: insertItem.available ?? true,
       popular: insertItem.popular ?? false,
+      optionGroups: insertItem.optionGroups ?? [],
+      prepMinutes: insertItem.prepMinutes ?? null,
     };
     
     await setDoc(doc(db, 'menuItems', id), item);
@@ -278,34 +332,68 @@ export class FirestoreStorage implements IStorage {
 
   // ============ RESERVATIONS METHODS (Firestore) ============
 
+  private reservationFromDocument(id: string, data: any): Reservation {
+    return {
+      id,
+      name: data.name,
+      email: data.email,
+      phone: data.phone,
+      date: data.date,
+      time: data.time,
+      partySize: data.partySize,
+      specialRequests: data.specialRequests || null,
+      status: data.status || "pending",
+      tableIds: data.tableIds ?? null,
+      manageToken: data.manageToken || null,
+      guestChangedAt: data.guestChangedAt?.toDate ? data.guestChangedAt.toDate() : data.guestChangedAt ? new Date(data.guestChangedAt) : null,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+    };
+  }
+
   async getReservations(): Promise<Reservation[]> {
     try {
       const reservationsRef = collection(db, 'reservations');
       const q = query(reservationsRef, orderBy('createdAt', 'desc'));
       const snapshot = await getDocs(q);
       
-      return snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          name: data.name,
-          email: data.email,
-          phone: data.phone,
-          date: data.date,
-          time: data.time,
-          partySize: data.partySize,
-          specialRequests: data.specialRequests || null,
-          status: data.status || "pending",
-          createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
-        } as Reservation;
-      });
+      return snapshot.docs.map(doc => this.reservationFromDocument(doc.id, doc.data()));
     } catch (error) {
       console.error('Error fetching reservations from Firestore:', error);
       return [];
     }
   }
 
-  async createReservation(insertReservation: InsertReservation): Promise<Reservation> {
+  // Throws when the query fails: seating checks must not mistake a failed read for an empty day
+  private async queryReservationsByDate(date: string): Promise<Reservation[]> {
+    const q = query(collection(db, 'reservations'), where('date', '==', date));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => this.reservationFromDocument(doc.id, doc.data()));
+  }
+
+  async getReservationsByDate(date: string): Promise<Reservation[]> {
+    try {
+      return await this.queryReservationsByDate(date);
+    } catch (error) {
+      console.error('Error fetching reservations by date from Firestore:', error);
+      return [];
+    }
+  }
+
+  async getReservation(id: string): Promise<Reservation | undefined> {
+    try {
+      const docSnap = await getDoc(doc(db, 'reservations', id));
+      if (!docSnap.exists()) return undefined;
+      return this.reservationFromDocument(docSnap.id, docSnap.data());
+    } catch (error) {
+      console.error('Error fetching reservation from Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async createReservation(
+    insertReservation: InsertReservation,
+    place: (sameDay: Reservation[]) => Pick<Reservation, "tableIds"> | undefined,
+  ): Promise<Reservation | undefined> {
     const id = randomUUID();
     const reservation: Reservation = {
       id,
@@ -317,83 +405,227 @@ export class FirestoreStorage implements IStorage {
       partySize: insertReservation.partySize,
       specialRequests: insertReservation.specialRequests ?? null,
       status: "pending",
+      tableIds: null,
+      manageToken: generateTrackingToken(),
+      guestChangedAt: null,
       createdAt: new Date(),
     };
-    
-    // Convert Date to Firestore Timestamp
-    const firestoreData = {
-      ...reservation,
-      createdAt: Timestamp.fromDate(reservation.createdAt)
-    };
-    
-    await setDoc(doc(db, 'reservations', id), firestoreData);
-    return reservation;
+
+    try {
+      // Queries can't join a transaction, so every booking for the date also bumps that date's counter doc:
+      // two bookings racing for the same evening conflict on it and the later one re-checks capacity
+      const booked = await runTransaction(db, async (transaction) => {
+        const dayRef = doc(db, 'reservationDays', insertReservation.date);
+        const day = await transaction.get(dayRef);
+        const placement = place(await this.queryReservationsByDate(insertReservation.date));
+        if (!placement) return false;
+
+        reservation.tableIds = placement.tableIds;
+        transaction.set(dayRef, { bookings: (day.exists() ? day.data().bookings ?? 0 : 0) + 1 });
+        transaction.set(doc(db, 'reservations', id), {
+          ...reservation,
+          createdAt: Timestamp.fromDate(reservation.createdAt)
+        });
+        return true;
+      });
+
+      return booked ? reservation : undefined;
+    } catch (error) {
+      console.error('Error creating reservation in Firestore:', error);
+      throw new StorageUnavailableError("Couldn't check the day's bookings");
+    }
   }
 
-  // ============ ORDERS METHODS (Firestore) ============
+  async updateReservationStatus(id: string, status: ReservationStatus): Promise<Reservation | undefined> {
+    try {
+      const docRef = doc(db, 'reservations', id);
+      const docSnap = await getDoc(docRef);
+      if (!docSnap.exists()) return undefined;
+
+      await updateDoc(docRef, { status });
+      return this.reservationFromDocument(id, { ...docSnap.data(), status });
+    } catch (error) {
+      console.error('Error updating reservation status in Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async updateReservationTables(
+    id: string,
+    tableIds: string[],
+    fits: (sameDay: Reservation[]) => boolean,
+  ): Promise<Reservation | undefined> {
+    const reservation = await this.getReservation(id);
+    if (!reservation) return undefined;
 
-  async getOrders(): Promise<Order[]> {
     try {
-      const ordersRef = collection(db, 'orders');
-      const q = query(ordersRef, orderBy('createdAt', 'desc'));
+      // Bumps the same per-date counter as createReservation, so a move and a booking can't take one table together
+      const moved = await runTransaction(db, async (transaction) => {
+        const dayRef = doc(db, 'reservationDays', reservation.date);
+        const day = await transaction.get(dayRef);
+        if (!fits(await this.queryReservationsByDate(reservation.date))) return false;
+
+        transaction.set(dayRef, { bookings: day.exists() ? day.data().bookings ?? 0 : 0 });
+        transaction.update(doc(db, 'reservations', id), { tableIds });
+        return true;
+      });
+
+      return moved ? { ...reservation, tableIds } : undefined;
+    } catch (error) {
+      console.error('Error moving reservation in Firestore:', error);
+      throw new StorageUnavailableError("Couldn't check the day's bookings");
+    }
+  }
+
+  async getReservationByManageToken(token: string): Promise<Reservation | undefined> {
+    try {
+      const q = query(collection(db, 'reservations'), where('manageToken', '==', token));
       const snapshot = await getDocs(q);
-      
+      if (snapshot.empty) return undefined;
+      return this.reservationFromDocument(snapshot.docs[0].id, snapshot.docs[0].data());
+    } catch (error) {
+      console.error('Error fetching reservation by manage token from Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async rescheduleReservation(
+    id: string,
+    updates: Pick<Reservation, "date" | "time" | "partySize" | "status" | "guestChangedAt">,
+    place: (sameDay: Reservation[]) => Pick<Reservation, "tableIds"> | undefined,
+  ): Promise<Reservation | undefined> {
+    const reservation = await this.getReservation(id);
+    if (!reservation) return undefined;
+
+    try {
+      // Counts the booking over to the new date's counter doc, so it races with bookings there like a new one would
+      const rescheduled = await runTransaction(db, async (transaction) => {
+        const fromRef = doc(db, 'reservationDays', reservation.date);
+        const toRef = doc(db, 'reservationDays', updates.date);
+        const [fromDay, toDay] = await Promise.all([transaction.get(fromRef), transaction.get(toRef)]);
+        const placement = place(await this.queryReservationsByDate(updates.date));
+        if (!placement) return undefined;
+
+        const bookingsOn = (day: typeof fromDay) => day.exists() ? day.data().bookings ?? 0 : 0;
+        if (updates.date !== reservation.date) {
+          transaction.set(fromRef, { bookings: Math.max(0, bookingsOn(fromDay) - 1) });
+          transaction.set(toRef, { bookings: bookingsOn(toDay) + 1 });
+        } else {
+          transaction.set(toRef, { bookings: bookingsOn(toDay) });
+        }
+        transaction.update(doc(db, 'reservations', id), {
+          ...updates,
+          guestChangedAt: updates.guestChangedAt ? Timestamp.fromDate(updates.guestChangedAt) : null,
+          tableIds: placement.tableIds,
+        });
+        return placement;
+      });
+
+      return rescheduled ? { ...reservation, ...updates, tableIds: rescheduled.tableIds } : undefined;
+    } catch (error) {
+      console.error('Error rescheduling reservation in Firestore:', error);
+      throw new StorageUnavailableError("Couldn't check the day's bookings");
+    }
+  }
+
+  async getReservationSettings(): Promise<ReservationSettings> {
+    try {
+      const docSnap = await getDoc(doc(db, 'settings', 'reservations'));
+      return { ...defaultReservationSettings(), ...(docSnap.exists() ? docSnap.data() : {}) } as ReservationSettings;
+    } catch (error) {
+      console.error('Error fetching reservation settings from Firestore:', error);
+      return defaultReservationSettings();
+    }
+  }
+
+  async updateReservationSettings(updates: UpdateReservationSettings): Promise<ReservationSettings> {
+    const settings = { ...(await this.getReservationSettings()), ...updates };
+    await setDoc(doc(db, 'settings', 'reservations'), settings);
+    return settings;
+  }
+
+  // ============ RESERVATION EVENTS METHODS (Firestore) ============
+
+  async getReservationEvents(reservationId: string): Promise<ReservationEvent[]> {
+    try {
+      const q = query(
+        collection(db, 'reservationEvents'),
+        where('reservationId', '==', reservationId),
+        orderBy('createdAt', 'asc')
+      );
+      const snapshot = await getDocs(q);
+
       return snapshot.docs.map(doc => {
         const data = doc.data();
         return {
           id: doc.id,
-          userId: data.userId || null,
-          customerName: data.customerName,
-          customerEmail: data.customerEmail,
-          customerPhone: data.customerPhone,
-          items: data.items,
-          totalAmount: data.totalAmount,
-          orderType: data.orderType,
-          deliveryAddress: data.deliveryAddress || null,
-          notes: data.notes || null,
-          status: data.status || "pending",
-          livreurId: data.livreurId || null,
+          reservationId: data.reservationId,
+          actor: data.actor,
+          actorUserId: data.actorUserId ?? null,
+          changes: data.changes ?? [],
+          note: data.note || null,
           createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
-          updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
-        } as Order;
+        } as ReservationEvent;
       });
+    } catch (error) {
+      console.error('Error fetching reservation events from Firestore:', error);
+      return [];
+    }
+  }
+
+  async createReservationEvent(insertEvent: InsertReservationEvent): Promise<ReservationEvent> {
+    const id = randomUUID();
+    const event: ReservationEvent = {
+      id,
+      reservationId: insertEvent.reservationId,
+      actor: insertEvent.actor,
+      actorUserId: insertEvent.actorUserId ?? null,
+      changes: insertEvent.changes,
+      note: insertEvent.note ?? null,
+      createdAt: new Date(),
+    };
+
+    await setDoc(doc(db, 'reservationEvents', id), {
+      ...event,
+      createdAt: Timestamp.fromDate(event.createdAt)
+    });
+    return event;
+  }
+
+  // ============ ORDERS METHODS (Firestore) ============
+
+  async getOrders(): Promise<OrderWithItems[]> {
+    try {
+      const ordersRef = collection(db, 'orders');
+      const q = query(ordersRef, orderBy('createdAt', 'desc'));
+      const snapshot = await getDocs(q);
+      
+      return snapshot.docs.map(doc => orderFromDocument(doc.id, doc.data()));
     } catch (error) {
       console.error('Error fetching orders from Firestore:', error);
       return [];
     }
   }
 
-  async getOrder(id: string): Promise<Order | undefined> {
+  async getOrder(id: string): Promise<OrderWithItems | undefined> {
     try {
       const docRef = doc(db, 'orders', id);
       const docSnap = await getDoc(docRef);
       
       if (!docSnap.exists()) return undefined;
       
-      const data = docSnap.data();
-      return {
-        id: docSnap.id,
-        userId: data.userId || null,
-        customerName: data.customerName,
-        customerEmail: data.customerEmail,
-        customerPhone: data.customerPhone,
-        items: data.items,
-        totalAmount: data.totalAmount,
-        orderType: data.orderType,
-        deliveryAddress: data.deliveryAddress || null,
-        notes: data.notes || null,
-        status: data.status || "pending",
-        livreurId: data.livreurId || null,
-        createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
-        updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
-      } as Order;
+      return orderFromDocument(docSnap.id, docSnap.data());
     } catch (error) {
       console.error('Error fetching order from Firestore:', error);
       return undefined;
     }
   }
 
-  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+  async createOrder(
+    insertOrder: InsertOrder,
+    insertItems: Omit<InsertOrderItem, "orderId">[],
+    fits: (sameSlot: OrderWithItems[]) => boolean,
+  ): Promise<OrderWithItems | undefined> {
     const id = randomUUID();
     const now = new Date();
     const order: Order = {
@@ -402,29 +634,86 @@ export class FirestoreStorage implements IStorage {
       customerName: insertOrder.customerName,
       customerEmail: insertOrder.customerEmail,
       customerPhone: insertOrder.customerPhone,
-      items: insertOrder.items,
       totalAmount: insertOrder.totalAmount,
+      deliveryFee: insertOrder.deliveryFee ?? "0",
       orderType: insertOrder.orderType,
       deliveryAddress: insertOrder.deliveryAddress ?? null,
+      deliveryLat: insertOrder.deliveryLat ?? null,
+      deliveryLng: insertOrder.deliveryLng ?? null,
+      deliveryZoneId: insertOrder.deliveryZoneId ?? null,
+      addressParts: insertOrder.addressParts ?? null,
+      deliveryCommune: insertOrder.addressParts?.commune ?? null,
+      preferredTime: insertOrder.preferredTime ?? null,
+      scheduledFor: insertOrder.scheduledFor ?? null,
       notes: insertOrder.notes ?? null,
       status: "pending",
-      livreurId: insertOrder.livreurId ?? null,
+      livreurId: null,
+      trackingToken: generateTrackingToken(),
+      handoverCode: insertOrder.orderType === "delivery" ? generateHandoverCode() : null,
+      handoverAttempts: 0,
+      deliveryProof: null,
+      cashCollected: null,
+      cashNote: null,
+      settlementId: null,
+      batchId: null,
+      batchStop: null,
+      routeMinutes: null,
+      estimatedAt: null,
       createdAt: now,
       updatedAt: now,
     };
+
+    const items: OrderItem[] = insertItems.map(insertItem => ({
+      id: randomUUID(),
+      orderId: id,
+      menuItemId: insertItem.menuItemId,
+      name: insertItem.name,
+      unitPrice: insertItem.unitPrice,
+      quantity: insertItem.quantity,
+      selectedOptions: insertItem.selectedOptions ?? [],
+      note: insertItem.note ?? null,
+    }));
     
-    // Convert Dates to Firestore Timestamps
+    // Convert Dates to Firestore Timestamps; items are also embedded for real-time listeners
     const firestoreData = {
       ...order,
+      items,
+      scheduledFor: order.scheduledFor ? Timestamp.fromDate(order.scheduledFor) : null,
       createdAt: Timestamp.fromDate(order.createdAt),
       updatedAt: Timestamp.fromDate(order.updatedAt)
     };
-    
-    await setDoc(doc(db, 'orders', id), firestoreData);
-    return order;
+
+    const slot = order.scheduledFor;
+    if (!slot) {
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'orders', id), firestoreData);
+      items.forEach(item => batch.set(doc(db, 'orderItems', item.id), item));
+      await batch.commit();
+      return { ...order, items };
+    }
+
+    // Same per-slot counter doc as reservationDays: two orders racing for the last place in a slot conflict on
+    // it and the later one re-checks capacity
+    try {
+      const placed = await runTransaction(db, async (transaction) => {
+        const slotRef = doc(db, 'orderSlots', slot.toISOString());
+        const counter = await transaction.get(slotRef);
+        if (!fits(await this.queryOrdersScheduledBetween(slot, new Date(slot.getTime() + 1)))) return false;
+
+        transaction.set(slotRef, { orders: (counter.exists() ? counter.data().orders ?? 0 : 0) + 1 });
+        transaction.set(doc(db, 'orders', id), firestoreData);
+        items.forEach(item => transaction.set(doc(db, 'orderItems', item.id), item));
+        return true;
+      });
+
+      return placed ? { ...order, items } : undefined;
+    } catch (error) {
+      console.error('Error placing scheduled order in Firestore:', error);
+      throw new StorageUnavailableError("Couldn't check the time slot's capacity");
+    }
   }
 
-  async updateOrder(id: string, updates: Partial<Order>): Promise<Order | undefined> {
+  async updateOrder(id: string, updates: Partial<Order>): Promise<OrderWithItems | undefined> {
     try {
       const docRef = doc(db, 'orders', id);
       const docSnap = await getDoc(docRef);
@@ -451,7 +740,119 @@ export class FirestoreStorage implements IStorage {
     }
   }
 
-  async getOrdersByUser(userId: number): Promise<Order[]> {
+  async updateOrderIfStatus(id: string, expectedStatus: OrderStatus, updates: Partial<Order>): Promise<OrderWithItems | undefined> {
+    try {
+      const docRef = doc(db, 'orders', id);
+
+      // Re-read in the transaction, so a customer cancelling and the owner confirming at once can't both win
+      const updated = await runTransaction(db, async (transaction) => {
+        const docSnap = await transaction.get(docRef);
+        if (!docSnap.exists() || docSnap.data().status !== expectedStatus) return false;
+
+        const updateData: any = {
+          ...updates,
+          updatedAt: Timestamp.fromDate(new Date())
+        };
+        Object.keys(updateData).forEach(key =>
+          updateData[key] === undefined && delete updateData[key]
+        );
+
+        transaction.update(docRef, updateData);
+        return true;
+      });
+
+      return updated ? this.getOrder(id) : undefined;
+    } catch (error) {
+      console.error('Error updating order status in Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async takeHandoverAttempt(id: string): Promise<number | undefined> {
+    try {
+      const docRef = doc(db, 'orders', id);
+
+      // Counted in a transaction, so parallel guesses each use up a try
+      return await runTransaction(db, async (transaction) => {
+        const docSnap = await transaction.get(docRef);
+        if (!docSnap.exists()) return undefined;
+
+        const handoverAttempts = (docSnap.data().handoverAttempts ?? 0) + 1;
+        transaction.update(docRef, { handoverAttempts });
+        return handoverAttempts;
+      });
+    } catch (error) {
+      console.error('Error counting handover attempt in Firestore:', error);
+      throw error;
+    }
+  }
+
+  async setOrderLivreur(
+    id: string,
+    expectedLivreurId: number | null,
+    expectedStatus: OrderStatus,
+    livreurId: number | null,
+    updates: Partial<Order> = {},
+  ): Promise<OrderWithItems | undefined> {
+    try {
+      const docRef = doc(db, 'orders', id);
+
+      // The transaction re-reads the order, so two livreurs claiming at once can't both win, and an order
+      // refused or cancelled meanwhile isn't handed out (or confirmed again by a claim)
+      const swapped = await runTransaction(db, async (transaction) => {
+        const docSnap = await transaction.get(docRef);
+        if (!docSnap.exists()
+          || (docSnap.data().livreurId ?? null) !== expectedLivreurId
+          || docSnap.data().status !== expectedStatus) return false;
+
+        const updateData: any = {
+          ...updates,
+          livreurId,
+          updatedAt: Timestamp.fromDate(new Date())
+        };
+        Object.keys(updateData).forEach(key =>
+          updateData[key] === undefined && delete updateData[key]
+        );
+
+        transaction.update(docRef, updateData);
+        return true;
+      });
+
+      return swapped ? this.getOrder(id) : undefined;
+    } catch (error) {
+      console.error('Error assigning order livreur in Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async assignDeliveryBatch(livreurId: number, stops: { orderId: string; updates: Partial<Order> }[]): Promise<OrderWithItems[] | undefined> {
+    try {
+      // Same idea as setOrderLivreur, across every order of the batch at once
+      const assigned = await runTransaction(db, async (transaction) => {
+        const refs = stops.map(({ orderId }) => doc(db, 'orders', orderId));
+        const snapshots = await Promise.all(refs.map(ref => transaction.get(ref)));
+        const claimable = snapshots.every(snap => snap.exists()
+          && snap.data().status === 'ready'
+          && [null, livreurId].includes(snap.data().livreurId ?? null));
+        if (!claimable) return false;
+
+        const updatedAt = Timestamp.fromDate(new Date());
+        refs.forEach((ref, index) => {
+          transaction.update(ref, { ...stops[index].updates, livreurId, updatedAt });
+        });
+        return true;
+      });
+
+      if (!assigned) return undefined;
+      const orders = await Promise.all(stops.map(({ orderId }) => this.getOrder(orderId)));
+      return orders.filter((order): order is OrderWithItems => !!order);
+    } catch (error) {
+      console.error('Error assigning delivery batch in Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async getOrdersByUser(userId: number): Promise<OrderWithItems[]> {
     try {
       const ordersRef = collection(db, 'orders');
       const q = query(
@@ -461,32 +862,14 @@ export class FirestoreStorage implements IStorage {
       );
       const snapshot = await getDocs(q);
       
-      return snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          userId: data.userId,
-          customerName: data.customerName,
-          customerEmail: data.customerEmail,
-          customerPhone: data.customerPhone,
-          items: data.items,
-          totalAmount: data.totalAmount,
-          orderType: data.orderType,
-          deliveryAddress: data.deliveryAddress || null,
-          notes: data.notes || null,
-          status: data.status,
-          livreurId: data.livreurId || null,
-          createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
-          updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
-        } as Order;
-      });
+      return snapshot.docs.map(doc => orderFromDocument(doc.id, doc.data()));
     } catch (error) {
       console.error('Error fetching user orders from Firestore:', error);
       return [];
     }
   }
 
-  async getOrdersByLivreur(livreurId: number): Promise<Order[]> {
+  async getOrdersByLivreur(livreurId: number): Promise<OrderWithItems[]> {
     try {
       const ordersRef = collection(db, 'orders');
       const q = query(
@@ -496,32 +879,14 @@ export class FirestoreStorage implements IStorage {
       );
       const snapshot = await getDocs(q);
       
-      return snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          userId: data.userId || null,
-          customerName: data.customerName,
-          customerEmail: data.customerEmail,
-          customerPhone: data.customerPhone,
-          items: data.items,
-          totalAmount: data.totalAmount,
-          orderType: data.orderType,
-          deliveryAddress: data.deliveryAddress || null,
-          notes: data.notes || null,
-          status: data.status,
-          livreurId: data.livreurId,
-          createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
-          updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
-        } as Order;
-      });
+      return snapshot.docs.map(doc => orderFromDocument(doc.id, doc.data()));
     } catch (error) {
       console.error('Error fetching livreur orders from Firestore:', error);
       return [];
     }
   }
 
-  async getPendingOrders(): Promise<Order[]> {
+  async getPendingOrders(): Promise<OrderWithItems[]> {
     try {
       const ordersRef = collection(db, 'orders');
       const q = query(
@@ -531,28 +896,737 @@ export class FirestoreStorage implements IStorage {
       );
       const snapshot = await getDocs(q);
       
+      return snapshot.docs.map(doc => orderFromDocument(doc.id, doc.data()));
+    } catch (error) {
+      console.error('Error fetching pending orders from Firestore:', error);
+      return [];
+    }
+  }
+
+  async getReadyOrders(): Promise<OrderWithItems[]> {
+    try {
+      const q = query(collection(db, 'orders'), where('status', '==', 'ready'));
+      const snapshot = await getDocs(q);
+
+      return snapshot.docs
+        .map(doc => orderFromDocument(doc.id, doc.data()))
+        .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime());
+    } catch (error) {
+      console.error('Error fetching ready orders from Firestore:', error);
+      return [];
+    }
+  }
+
+  async getKitchenOrders(): Promise<OrderWithItems[]> {
+    try {
+      const q = query(collection(db, 'orders'), where('status', 'in', ['confirmed', 'preparing']));
+      const snapshot = await getDocs(q);
+
+      return snapshot.docs
+        .map(doc => orderFromDocument(doc.id, doc.data()))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      console.error('Error fetching kitchen orders from Firestore:', error);
+      return [];
+    }
+  }
+
+  async getOrderByTrackingToken(token: string): Promise<OrderWithItems | undefined> {
+    try {
+      const q = query(collection(db, 'orders'), where('trackingToken', '==', token));
+      const snapshot = await getDocs(q);
+      if (snapshot.empty) return undefined;
+
+      const orderDoc = snapshot.docs[0];
+      return orderFromDocument(orderDoc.id, orderDoc.data());
+    } catch (error) {
+      console.error('Error fetching order by tracking token from Firestore:', error);
+      return undefined;
+    }
+  }
+
+  // Throws when the query fails: capacity checks must not mistake a failed read for an empty slot
+  private async queryOrdersScheduledBetween(from: Date, to: Date): Promise<OrderWithItems[]> {
+    const q = query(
+      collection(db, 'orders'),
+      where('scheduledFor', '>=', Timestamp.fromDate(from)),
+      where('scheduledFor', '<', Timestamp.fromDate(to))
+    );
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map(doc => orderFromDocument(doc.id, doc.data()));
+  }
+
+  async getOrdersScheduledBetween(from: Date, to: Date): Promise<OrderWithItems[]> {
+    try {
+      return await this.queryOrdersScheduledBetween(from, to);
+    } catch (error) {
+      console.error('Error fetching scheduled orders from Firestore:', error);
+      return [];
+    }
+  }
+
+  // ============ ORDER ITEMS METHODS (Firestore) ============
+
+  async getOrderItems(orderId: string): Promise<OrderItem[]> {
+    try {
+      const itemsRef = collection(db, 'orderItems');
+      const q = query(itemsRef, where('orderId', '==', orderId));
+      const snapshot = await getDocs(q);
+
+      return snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          orderId: data.orderId,
+          menuItemId: data.menuItemId,
+          name: data.name,
+          unitPrice: data.unitPrice,
+          quantity: data.quantity,
+          selectedOptions: data.selectedOptions || [],
+          note: data.note || null,
+        } as OrderItem;
+      });
+    } catch (error) {
+      console.error('Error fetching order items from Firestore:', error);
+      return [];
+    }
+  }
+
+  // Swap an order's lines and apply updates (e.g. new totals) in one transaction, if the order is still in expectedStatus
+  async replaceOrderItems(orderId: string, expectedStatus: OrderStatus, insertItems: Omit<InsertOrderItem, "orderId">[], updates: Partial<Order>): Promise<OrderWithItems | undefined> {
+    try {
+      const docRef = doc(db, 'orders', orderId);
+      // Queries can't join a transaction; lines written by a concurrent edit are found below through the order doc
+      const existing = await getDocs(query(collection(db, 'orderItems'), where('orderId', '==', orderId)));
+
+      const items: OrderItem[] = insertItems.map(insertItem => ({
+        id: randomUUID(),
+        orderId,
+        menuItemId: insertItem.menuItemId,
+        name: insertItem.name,
+        unitPrice: insertItem.unitPrice,
+        quantity: insertItem.quantity,
+        selectedOptions: insertItem.selectedOptions ?? [],
+        note: insertItem.note ?? null,
+      }));
+
+      const updateData: any = {
+        ...updates,
+        items,
+        updatedAt: Timestamp.fromDate(new Date())
+      };
+      Object.keys(updateData).forEach(key =>
+        updateData[key] === undefined && delete updateData[key]
+      );
+
+      const replaced = await runTransaction(db, async (transaction) => {
+        const docSnap = await transaction.get(docRef);
+        if (!docSnap.exists() || docSnap.data().status !== expectedStatus) return false;
+
+        const staleIds = new Set([
+          ...existing.docs.map(itemDoc => itemDoc.id),
+          ...(docSnap.data().items ?? []).map((item: OrderItem) => item.id),
+        ]);
+        staleIds.forEach(id => transaction.delete(doc(db, 'orderItems', id)));
+        items.forEach(item => transaction.set(doc(db, 'orderItems', item.id), item));
+        transaction.update(docRef, updateData);
+        return true;
+      });
+
+      return replaced ? this.getOrder(orderId) : undefined;
+    } catch (error) {
+      console.error('Error replacing order items in Firestore:', error);
+      return undefined;
+    }
+  }
+
+  // ============ ORDER EVENTS METHODS (Firestore) ============
+
+  async getOrderEvents(orderId: string): Promise<OrderEvent[]> {
+    try {
+      const eventsRef = collection(db, 'orderEvents');
+      const q = query(
+        eventsRef,
+        where('orderId', '==', orderId),
+        orderBy('createdAt', 'asc')
+      );
+      const snapshot = await getDocs(q);
+
       return snapshot.docs.map(doc => {
         const data = doc.data();
         return {
           id: doc.id,
-          userId: data.userId || null,
-          customerName: data.customerName,
-          customerEmail: data.customerEmail,
-          customerPhone: data.customerPhone,
-          items: data.items,
-          totalAmount: data.totalAmount,
-          orderType: data.orderType,
-          deliveryAddress: data.deliveryAddress || null,
-          notes: data.notes || null,
-          status: data.status,
-          livreurId: data.livreurId || null,
+          orderId: data.orderId,
+          actorUserId: data.actorUserId ?? null,
+          actorRole: data.actorRole || null,
+          fromStatus: data.fromStatus || null,
+          toStatus: data.toStatus,
+          note: data.note || null,
           createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
-          updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
-        } as Order;
+        } as OrderEvent;
       });
     } catch (error) {
-      console.error('Error fetching pending orders from Firestore:', error);
+      console.error('Error fetching order events from Firestore:', error);
+      return [];
+    }
+  }
+
+  async createOrderEvent(insertEvent: InsertOrderEvent): Promise<OrderEvent> {
+    const id = randomUUID();
+    const event: OrderEvent = {
+      id,
+      orderId: insertEvent.orderId,
+      actorUserId: insertEvent.actorUserId ?? null,
+      actorRole: insertEvent.actorRole ?? null,
+      fromStatus: insertEvent.fromStatus ?? null,
+      toStatus: insertEvent.toStatus,
+      note: insertEvent.note ?? null,
+      createdAt: new Date(),
+    };
+
+    const firestoreData = {
+      ...event,
+      createdAt: Timestamp.fromDate(event.createdAt)
+    };
+
+    await setDoc(doc(db, 'orderEvents', id), firestoreData);
+    return event;
+  }
+
+  // ============ RESTAURANT TABLES METHODS (Firestore) ============
+
+  private tableFromDocument(id: string, data: any): RestaurantTable {
+    return {
+      id,
+      name: data.name,
+      seats: data.seats,
+      area: data.area || "indoor",
+      combinableWith: data.combinableWith ?? [],
+      planX: data.planX ?? 0,
+      planY: data.planY ?? 0,
+      active: data.active ?? true,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+    };
+  }
+
+  async getRestaurantTables(): Promise<RestaurantTable[]> {
+    try {
+      const snapshot = await getDocs(collection(db, 'restaurantTables'));
+      return snapshot.docs
+        .map(doc => this.tableFromDocument(doc.id, doc.data()))
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    } catch (error) {
+      console.error('Error fetching restaurant tables from Firestore:', error);
+      return [];
+    }
+  }
+
+  async createRestaurantTable(insertTable: InsertRestaurantTable): Promise<RestaurantTable> {
+    const id = randomUUID();
+    const table: RestaurantTable = {
+      id,
+      name: insertTable.name,
+      seats: insertTable.seats,
+      area: insertTable.area ?? "indoor",
+      combinableWith: insertTable.combinableWith ?? [],
+      planX: insertTable.planX ?? 0,
+      planY: insertTable.planY ?? 0,
+      active: insertTable.active ?? true,
+      createdAt: new Date(),
+    };
+
+    await setDoc(doc(db, 'restaurantTables', id), {
+      ...table,
+      createdAt: Timestamp.fromDate(table.createdAt)
+    });
+    return table;
+  }
+
+  async updateRestaurantTable(id: string, insertTable: InsertRestaurantTable): Promise<RestaurantTable | undefined> {
+    try {
+      const docRef = doc(db, 'restaurantTables', id);
+      const docSnap = await getDoc(docRef);
+      if (!docSnap.exists()) return undefined;
+
+      await updateDoc(docRef, {
+        name: insertTable.name,
+        seats: insertTable.seats,
+        area: insertTable.area ?? "indoor",
+        combinableWith: insertTable.combinableWith ?? [],
+        planX: insertTable.planX ?? 0,
+        planY: insertTable.planY ?? 0,
+        active: insertTable.active ?? true,
+      });
+
+      const updated = await getDoc(docRef);
+      return this.tableFromDocument(id, updated.data());
+    } catch (error) {
+      console.error('Error updating restaurant table in Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async deleteRestaurantTable(id: string): Promise<boolean> {
+    try {
+      await deleteDoc(doc(db, 'restaurantTables', id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting restaurant table from Firestore:', error);
+      return false;
+    }
+  }
+
+  // ============ WAITLIST METHODS (Firestore) ============
+
+  private waitlistEntryFromDocument(id: string, data: any): WaitlistEntry {
+    const toDate = (value: any) => (value?.toDate ? value.toDate() : value ? new Date(value) : null);
+    return {
+      id,
+      name: data.name,
+      phone: data.phone,
+      partySize: data.partySize,
+      status: data.status || "waiting",
+      token: data.token,
+      quotedMinutes: data.quotedMinutes ?? 0,
+      notifiedAt: toDate(data.notifiedAt),
+      seatedAt: toDate(data.seatedAt),
+      createdAt: toDate(data.createdAt) ?? new Date(),
+    };
+  }
+
+  async getWaitlistEntriesSince(since: Date): Promise<WaitlistEntry[]> {
+    try {
+      const q = query(
+        collection(db, 'waitlist'),
+        where('createdAt', '>=', Timestamp.fromDate(since)),
+        orderBy('createdAt', 'asc'),
+      );
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(doc => this.waitlistEntryFromDocument(doc.id, doc.data()));
+    } catch (error) {
+      console.error('Error fetching waitlist from Firestore:', error);
+      return [];
+    }
+  }
+
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    try {
+      const docSnap = await getDoc(doc(db, 'waitlist', id));
+      if (!docSnap.exists()) return undefined;
+      return this.waitlistEntryFromDocument(docSnap.id, docSnap.data());
+    } catch (error) {
+      console.error('Error fetching waitlist entry from Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async getWaitlistEntryByToken(token: string): Promise<WaitlistEntry | undefined> {
+    try {
+      const q = query(collection(db, 'waitlist'), where('token', '==', token));
+      const snapshot = await getDocs(q);
+      if (snapshot.empty) return undefined;
+      return this.waitlistEntryFromDocument(snapshot.docs[0].id, snapshot.docs[0].data());
+    } catch (error) {
+      console.error('Error fetching waitlist entry by token from Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async createWaitlistEntry(insertEntry: InsertWaitlistEntry, quotedMinutes: number): Promise<WaitlistEntry> {
+    const id = randomUUID();
+    const entry: WaitlistEntry = {
+      id,
+      name: insertEntry.name,
+      phone: insertEntry.phone,
+      partySize: insertEntry.partySize,
+      status: "waiting",
+      token: generateTrackingToken(),
+      quotedMinutes,
+      notifiedAt: null,
+      seatedAt: null,
+      createdAt: new Date(),
+    };
+
+    await setDoc(doc(db, 'waitlist', id), {
+      ...entry,
+      createdAt: Timestamp.fromDate(entry.createdAt)
+    });
+    return entry;
+  }
+
+  async updateWaitlistEntry(
+    id: string,
+    updates: Partial<Pick<WaitlistEntry, "status" | "notifiedAt" | "seatedAt">>,
+  ): Promise<WaitlistEntry | undefined> {
+    try {
+      const docRef = doc(db, 'waitlist', id);
+      const docSnap = await getDoc(docRef);
+      if (!docSnap.exists()) return undefined;
+
+      const firestoreUpdates: Record<string, any> = { ...updates };
+      if (updates.notifiedAt) firestoreUpdates.notifiedAt = Timestamp.fromDate(updates.notifiedAt);
+      if (updates.seatedAt) firestoreUpdates.seatedAt = Timestamp.fromDate(updates.seatedAt);
+      await updateDoc(docRef, firestoreUpdates);
+
+      return { ...this.waitlistEntryFromDocument(id, docSnap.data()), ...updates };
+    } catch (error) {
+      console.error('Error updating waitlist entry in Firestore:', error);
+      return undefined;
+    }
+  }
+
+  // ============ DELIVERY ZONES METHODS (Firestore) ============
+
+  private zoneFromDocument(id: string, data: any): DeliveryZone {
+    return {
+      id,
+      name: data.name,
+      shape: data.shape,
+      radiusKm: data.radiusKm ?? null,
+      polygon: data.polygon ?? null,
+      communes: data.communes ?? null,
+      fee: data.fee,
+      minimumOrder: data.minimumOrder || "0",
+      active: data.active ?? true,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+    };
+  }
+
+  async getDeliveryZones(): Promise<DeliveryZone[]> {
+    try {
+      const q = query(collection(db, 'deliveryZones'), orderBy('createdAt', 'asc'));
+      const snapshot = await getDocs(q);
+
+      return snapshot.docs.map(doc => this.zoneFromDocument(doc.id, doc.data()));
+    } catch (error) {
+      console.error('Error fetching delivery zones from Firestore:', error);
+      return [];
+    }
+  }
+
+  async createDeliveryZone(insertZone: InsertDeliveryZone): Promise<DeliveryZone> {
+    const id = randomUUID();
+    const zone: DeliveryZone = {
+      id,
+      name: insertZone.name,
+      shape: insertZone.shape,
+      radiusKm: insertZone.radiusKm ?? null,
+      polygon: insertZone.polygon ?? null,
+      communes: insertZone.communes ?? null,
+      fee: insertZone.fee,
+      minimumOrder: insertZone.minimumOrder ?? "0",
+      active: insertZone.active ?? true,
+      createdAt: new Date(),
+    };
+
+    await setDoc(doc(db, 'deliveryZones', id), {
+      ...zone,
+      createdAt: Timestamp.fromDate(zone.createdAt)
+    });
+    return zone;
+  }
+
+  async updateDeliveryZone(id: string, insertZone: InsertDeliveryZone): Promise<DeliveryZone | undefined> {
+    try {
+      const docRef = doc(db, 'deliveryZones', id);
+      const docSnap = await getDoc(docRef);
+      if (!docSnap.exists()) return undefined;
+
+      await updateDoc(docRef, {
+        name: insertZone.name,
+        shape: insertZone.shape,
+        radiusKm: insertZone.radiusKm ?? null,
+        polygon: insertZone.polygon ?? null,
+        communes: insertZone.communes ?? null,
+        fee: insertZone.fee,
+        minimumOrder: insertZone.minimumOrder ?? "0",
+        active: insertZone.active ?? true,
+      });
+
+      const updated = await getDoc(docRef);
+      return this.zoneFromDocument(id, updated.data());
+    } catch (error) {
+      console.error('Error updating delivery zone in Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async deleteDeliveryZone(id: string): Promise<boolean> {
+    try {
+      await deleteDoc(doc(db, 'deliveryZones', id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting delivery zone from Firestore:', error);
+      return false;
+    }
+  }
+
+  async getDeliverySettings(): Promise<DeliverySettings> {
+    try {
+      const docSnap = await getDoc(doc(db, 'settings', 'delivery'));
+      return { ...defaultDeliverySettings(), ...(docSnap.exists() ? docSnap.data() : {}) } as DeliverySettings;
+    } catch (error) {
+      console.error('Error fetching delivery settings from Firestore:', error);
+      return defaultDeliverySettings();
+    }
+  }
+
+  async updateDeliverySettings(updates: UpdateDeliverySettings): Promise<DeliverySettings> {
+    const settings = { ...(await this.getDeliverySettings()), ...updates };
+    await setDoc(doc(db, 'settings', 'delivery'), settings);
+    return settings;
+  }
+
+  // ============ CASH SETTLEMENTS METHODS (Firestore) ============
+
+  private settlementFromDocument(id: string, data: any): CashSettlement {
+    const toDate = (value: any) => value?.toDate ? value.toDate() : new Date(value);
+    return {
+      id,
+      livreurId: data.livreurId,
+      settledBy: data.settledBy,
+      shiftStart: toDate(data.shiftStart),
+      shiftEnd: toDate(data.shiftEnd),
+      orderCount: data.orderCount,
+      expectedAmount: data.expectedAmount,
+      collectedAmount: data.collectedAmount,
+      handedInAmount: data.handedInAmount,
+      note: data.note || null,
+      createdAt: toDate(data.createdAt),
+    };
+  }
+
+  async getUnsettledCashOrders(livreurId: number): Promise<OrderWithItems[]> {
+    // settlementId is missing on older documents, so it is filtered here rather than in the query
+    return (await this.getOrdersByLivreur(livreurId))
+      .filter(order => order.status === "delivered" && order.cashCollected !== null && !order.settlementId)
+      .sort((a, b) => new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime());
+  }
+
+  async getOrdersBySettlement(settlementId: string): Promise<OrderWithItems[]> {
+    try {
+      const q = query(collection(db, 'orders'), where('settlementId', '==', settlementId));
+      const snapshot = await getDocs(q);
+
+      return snapshot.docs
+        .map(doc => orderFromDocument(doc.id, doc.data()))
+        .sort((a, b) => new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime());
+    } catch (error) {
+      console.error('Error fetching settlement orders from Firestore:', error);
+      return [];
+    }
+  }
+
+  async getCashSettlements(livreurId?: number): Promise<CashSettlement[]> {
+    try {
+      const settlementsRef = collection(db, 'cashSettlements');
+      const q = livreurId === undefined
+        ? query(settlementsRef, orderBy('createdAt', 'desc'))
+        : query(settlementsRef, where('livreurId', '==', livreurId), orderBy('createdAt', 'desc'));
+      const snapshot = await getDocs(q);
+
+      return snapshot.docs.map(doc => this.settlementFromDocument(doc.id, doc.data()));
+    } catch (error) {
+      console.error('Error fetching cash settlements from Firestore:', error);
       return [];
     }
   }
+
+  async createCashSettlement(insertSettlement: InsertCashSettlement, orderIds: string[]): Promise<CashSettlement | undefined> {
+    const id = randomUUID();
+    const settlement: CashSettlement = {
+      id,
+      livreurId: insertSettlement.livreurId,
+      settledBy: insertSettlement.settledBy,
+      shiftStart: insertSettlement.shiftStart,
+      shiftEnd: insertSettlement.shiftEnd,
+      orderCount: insertSettlement.orderCount,
+      expectedAmount: insertSettlement.expectedAmount,
+      collectedAmount: insertSettlement.collectedAmount,
+      handedInAmount: insertSettlement.handedInAmount,
+      note: insertSettlement.note ?? null,
+      createdAt: new Date(),
+    };
+
+    try {
+      // Re-read the orders inside the transaction so the same cash can't be settled twice
+      const settled = await runTransaction(db, async (transaction) => {
+        const orderRefs = orderIds.map(orderId => doc(db, 'orders', orderId));
+        const snapshots = await Promise.all(orderRefs.map(ref => transaction.get(ref)));
+        if (snapshots.some(snap => snap.exists() && snap.data().settlementId)) return false;
+
+        transaction.set(doc(db, 'cashSettlements', id), {
+          ...settlement,
+          shiftStart: Timestamp.fromDate(settlement.shiftStart),
+          shiftEnd: Timestamp.fromDate(settlement.shiftEnd),
+          createdAt: Timestamp.fromDate(settlement.createdAt)
+        });
+        orderRefs.forEach((ref, index) => {
+          if (snapshots[index].exists()) transaction.update(ref, { settlementId: id });
+        });
+        return true;
+      });
+
+      return settled ? settlement : undefined;
+    } catch (error) {
+      console.error('Error creating cash settlement in Firestore:', error);
+      throw error;
+    }
+  }
+
+  // ============ LIVREUR SHIFTS METHODS (Firestore) ============
+
+  private shiftFromDocument(id: string, data: any): LivreurShift {
+    return {
+      id,
+      livreurId: data.livreurId,
+      dayOfWeek: data.dayOfWeek,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+    };
+  }
+
+  async getLivreurShifts(livreurId?: number): Promise<LivreurShift[]> {
+    try {
+      const shiftsRef = collection(db, 'livreurShifts');
+      const q = livreurId === undefined ? shiftsRef : query(shiftsRef, where('livreurId', '==', livreurId));
+      const snapshot = await getDocs(q);
+
+      return snapshot.docs
+        .map(doc => this.shiftFromDocument(doc.id, doc.data()))
+        .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime));
+    } catch (error) {
+      console.error('Error fetching livreur shifts from Firestore:', error);
+      return [];
+    }
+  }
+
+  async createLivreurShift(insertShift: InsertLivreurShift): Promise<LivreurShift> {
+    const id = randomUUID();
+    const shift: LivreurShift = { ...insertShift, id, createdAt: new Date() };
+
+    await setDoc(doc(db, 'livreurShifts', id), {
+      ...shift,
+      createdAt: Timestamp.fromDate(shift.createdAt)
+    });
+    return shift;
+  }
+
+  async deleteLivreurShift(id: string): Promise<boolean> {
+    try {
+      await deleteDoc(doc(db, 'livreurShifts', id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting livreur shift from Firestore:', error);
+      return false;
+    }
+  }
+
+  // ============ CUSTOMER ADDRESSES METHODS (Firestore) ============
+
+  private addressFromDocument(id: string, data: any): CustomerAddress {
+    return {
+      id,
+      userId: data.userId,
+      label: data.label,
+      wilaya: data.wilaya ?? null,
+      commune: data.commune ?? null,
+      street: data.street,
+      district: data.district ?? null,
+      building: data.building ?? null,
+      floor: data.floor ?? null,
+      landmark: data.landmark ?? null,
+      lat: data.lat ?? null,
+      lng: data.lng ?? null,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+    };
+  }
+
+  async getCustomerAddresses(userId: number): Promise<CustomerAddress[]> {
+    try {
+      const q = query(collection(db, 'customerAddresses'), where('userId', '==', userId));
+      const snapshot = await getDocs(q);
+
+      return snapshot.docs
+        .map(doc => this.addressFromDocument(doc.id, doc.data()))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      console.error('Error fetching customer addresses from Firestore:', error);
+      return [];
+    }
+  }
+
+  async getCustomerAddress(id: string): Promise<CustomerAddress | undefined> {
+    try {
+      const docSnap = await getDoc(doc(db, 'customerAddresses', id));
+      return docSnap.exists() ? this.addressFromDocument(docSnap.id, docSnap.data()) : undefined;
+    } catch (error) {
+      console.error('Error fetching customer address from Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async createCustomerAddress(userId: number, insertAddress: InsertCustomerAddress): Promise<CustomerAddress> {
+    const id = randomUUID();
+    const address: CustomerAddress = {
+      id,
+      userId,
+      label: insertAddress.label,
+      wilaya: insertAddress.wilaya ?? null,
+      commune: insertAddress.commune ?? null,
+      street: insertAddress.street,
+      district: insertAddress.district ?? null,
+      building: insertAddress.building ?? null,
+      floor: insertAddress.floor ?? null,
+      landmark: insertAddress.landmark ?? null,
+      lat: insertAddress.lat ?? null,
+      lng: insertAddress.lng ?? null,
+      createdAt: new Date(),
+    };
+
+    await setDoc(doc(db, 'customerAddresses', id), {
+      ...address,
+      createdAt: Timestamp.fromDate(address.createdAt)
+    });
+    return address;
+  }
+
+  async updateCustomerAddress(id: string, insertAddress: InsertCustomerAddress): Promise<CustomerAddress | undefined> {
+    try {
+      const docRef = doc(db, 'customerAddresses', id);
+      const docSnap = await getDoc(docRef);
+      if (!docSnap.exists()) return undefined;
+
+      await updateDoc(docRef, {
+        label: insertAddress.label,
+        wilaya: insertAddress.wilaya ?? null,
+        commune: insertAddress.commune ?? null,
+        street: insertAddress.street,
+        district: insertAddress.district ?? null,
+        building: insertAddress.building ?? null,
+        floor: insertAddress.floor ?? null,
+        landmark: insertAddress.landmark ?? null,
+        lat: insertAddress.lat ?? null,
+        lng: insertAddress.lng ?? null,
+      });
+
+      const updated = await getDoc(docRef);
+      return this.addressFromDocument(id, updated.data());
+    } catch (error) {
+      console.error('Error updating customer address in Firestore:', error);
+      return undefined;
+    }
+  }
+
+  async deleteCustomerAddress(id: string): Promise<boolean> {
+    try {
+      await deleteDoc(doc(db, 'customerAddresses', id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting customer address from Firestore:', error);
+      return false;
+    }
+  }
 }
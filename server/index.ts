@@ -2,9 +2,12 @@ import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { firebaseReady } from "./firebase";
 import path from "path";
 
 const app = express();
+// Replit serves the app through one proxy; req.ip is the visitor's address behind it
+app.set("trust proxy", 1);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -54,6 +57,13 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Requests reaching Firestore before the server account is signed in would be refused
+  try {
+    await firebaseReady;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { getActiveShift, isLivreurAvailable, type LivreurAvailability } from "@shared/livreur-availability";
+import { isOrderFinished } from "@shared/order-status";
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { publishAvailabilityChange } from "./order-stream";
+
+export const livreurOnlineSchema = z.object({
+  online: z.boolean(),
+});
+
+type Livreur = Pick<User, "id" | "active" | "online">;
+
+export async function isAvailableNow(storage: IStorage, livreur: Livreur, now: Date = new Date()): Promise<boolean> {
+  return isLivreurAvailable(livreur, await storage.getLivreurShifts(livreur.id), now);
+}
+
+// Re-reads the livreur, since the online flag changes while their dashboard is open
+export async function checkLivreurAvailable(storage: IStorage, livreurId: number): Promise<boolean> {
+  const livreur = await storage.getUserById(livreurId);
+  return !!livreur && livreur.role === "livreur" && isAvailableNow(storage, livreur);
+}
+
+export async function getLivreurAvailability(storage: IStorage, livreur: Pick<User, "id" | "name" | "active" | "online">, now: Date = new Date()): Promise<LivreurAvailability> {
+  const [shifts, orders] = await Promise.all([
+    storage.getLivreurShifts(livreur.id),
+    storage.getOrdersByLivreur(livreur.id),
+  ]);
+  const shift = getActiveShift(shifts, now);
+
+  return {
+    livreurId: livreur.id,
+    livreurName: livreur.name,
+    online: livreur.online,
+    onShift: !!shift,
+    available: isLivreurAvailable(livreur, shifts, now),
+    currentShift: shift ? `${shift.startTime}–${shift.endTime}` : null,
+    activeOrders: orders.filter(order => !isOrderFinished(order.status)).length,
+  };
+}
+
+// Everyone with the livreur role, available ones first, then by current load
+export async function getLivreurAvailabilities(storage: IStorage, now: Date = new Date()): Promise<LivreurAvailability[]> {
+  const livreurs = (await storage.getAllUsers()).filter(user => user.role === "livreur" && user.active);
+  const availabilities = await Promise.all(livreurs.map(livreur => getLivreurAvailability(storage, livreur, now)));
+  return availabilities.sort((a, b) => Number(b.available) - Number(a.available) || a.activeOrders - b.activeOrders);
+}
+
+export async function setLivreurOnline(storage: IStorage, livreur: Pick<User, "id">, body: unknown): Promise<User | undefined> {
+  const { online } = livreurOnlineSchema.parse(body);
+  const updated = await storage.setUserOnline(livreur.id, online);
+  if (updated) publishAvailabilityChange(updated.id);
+  return updated;
+}
@@ -0,0 +1,78 @@
+import { appendFile } from "fs/promises";
+
+export interface Notification {
+  to: string; // phone number
+  body: string;
+}
+
+// Anything that can get a short text to a guest: an SMS gateway, WhatsApp, or the development outbox
+export interface NotificationTransport {
+  name: string;
+  send(notification: Notification): Promise<void>;
+}
+
+export const notificationConfig = {
+  // "outbox" (log + optional file, for development) or "webhook" (POSTs each message to NOTIFY_WEBHOOK_URL)
+  transport: process.env.NOTIFY_TRANSPORT || "outbox",
+  outboxFile: process.env.NOTIFY_OUTBOX_FILE || "",
+  webhookUrl: process.env.NOTIFY_WEBHOOK_URL || "",
+  webhookTimeoutMs: parseInt(process.env.NOTIFY_WEBHOOK_TIMEOUT_MS || "5000", 10),
+  // Origin for links sent to guests; the request's own origin when unset
+  publicUrl: process.env.PUBLIC_URL || "",
+};
+
+export class NotificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotificationError";
+  }
+}
+
+// Messages "sent" by the outbox transport, newest last, so development can see what guests would get
+export const outbox: Array<Notification & { sentAt: Date }> = [];
+
+export const outboxTransport: NotificationTransport = {
+  name: "outbox",
+  async send(notification) {
+    const entry = { ...notification, sentAt: new Date() };
+    outbox.push(entry);
+    console.log(`[outbox] to ${notification.to}: ${notification.body}`);
+    if (notificationConfig.outboxFile) {
+      await appendFile(notificationConfig.outboxFile, JSON.stringify(entry) + "\n");
+    }
+  },
+};
+
+export const webhookTransport: NotificationTransport = {
+  name: "webhook",
+  async send(notification) {
+    if (!notificationConfig.webhookUrl) {
+      throw new NotificationError("NOTIFY_WEBHOOK_URL is not set");
+    }
+    const response = await fetch(notificationConfig.webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(notification),
+      signal: AbortSignal.timeout(notificationConfig.webhookTimeoutMs),
+    });
+    if (!response.ok) {
+      throw new NotificationError(`Notification gateway answered ${response.status}`);
+    }
+  },
+};
+
+let transport: NotificationTransport = notificationConfig.transport === "webhook" ? webhookTransport : outboxTransport;
+
+// Swap in another transport, e.g. a provider SDK wrapper
+export function setNotificationTransport(next: NotificationTransport) {
+  transport = next;
+}
+
+export async function sendNotification(notification: Notification): Promise<void> {
+  try {
+    await transport.send(notification);
+  } catch (error) {
+    if (error instanceof NotificationError) throw error;
+    throw new NotificationError(`Could not send the message through ${transport.name}`);
+  }
+}
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { canDispatchOrder, canTransitionOrder, isOrderOpenForClaim, orderStatusLabels } from "@shared/order-status";
+import { isOrderReleased } from "@shared/order-slots";
+import type { Order, OrderWithItems, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { publishOrderChange } from "./order-stream";
+import { isAvailableNow } from "./livreur-availability";
+import { computeOrderEta } from "./order-eta";
+import { orderSchedulingConfig } from "./order-scheduling";
+
+export const orderAssignmentSchema = z.object({
+  livreurId: z.coerce.number().int().positive(),
+  reason: z.string().trim().max(200).optional(),
+});
+
+export const orderUnassignmentSchema = z.object({
+  reason: z.string().trim().min(1, "Please give a reason").max(200),
+});
+
+export class OrderDispatchError extends Error {
+  constructor(message: string, public currentLivreurId: number | null) {
+    super(message);
+    this.name = "OrderDispatchError";
+  }
+}
+
+type Actor = Pick<User, "id" | "role">;
+
+function assertDispatchable(order: OrderWithItems) {
+  if (!canDispatchOrder(order.status)) {
+    throw new OrderDispatchError(
+      `Order is already ${orderStatusLabels[order.status].toLowerCase()} and can no longer be dispatched`,
+      order.livreurId,
+    );
+  }
+}
+
+// Swap the order's livreur from the one we read to `livreurId`. If someone else got there first, or the order
+// changed status meanwhile, the compare-and-set fails and the caller gets a conflict naming the current livreur.
+async function swapLivreur(
+  storage: IStorage,
+  order: OrderWithItems,
+  livreurId: number | null,
+  actor: Actor,
+  note: string,
+  updates: Partial<Order> = {},
+): Promise<OrderWithItems | undefined> {
+  // A batch route only makes sense for the livreur who accepted it
+  const batchReset: Partial<Order> = order.batchId ? { batchId: null, batchStop: null, routeMinutes: null } : {};
+  const changes: Partial<Order> = { ...batchReset, ...updates };
+  // A claim confirming the order, or a dropped batch route, moves the customer's ETA
+  if (changes.status || order.batchId) {
+    changes.estimatedAt = await computeOrderEta(storage, { ...order, ...changes });
+  }
+  const updatedOrder = await storage.setOrderLivreur(order.id, order.livreurId ?? null, order.status, livreurId, changes);
+  if (!updatedOrder) {
+    const current = await storage.getOrder(order.id);
+    if (!current) return undefined;
+    if (current.status !== order.status) {
+      throw new OrderDispatchError(`Order was just moved to ${orderStatusLabels[current.status].toLowerCase()}`, current.livreurId);
+    }
+    throw new OrderDispatchError("Order was just taken by another livreur", current.livreurId);
+  }
+
+  // Dispatch changes keep the status (apart from a claim confirming it), so the note carries the detail
+  await storage.createOrderEvent({
+    orderId: order.id,
+    actorUserId: actor.id,
+    actorRole: actor.role,
+    fromStatus: order.status,
+    toStatus: updatedOrder.status,
+    note,
+  });
+  publishOrderChange("order.updated", updatedOrder, order);
+  return updatedOrder;
+}
+
+// A livreur takes an open order, once scheduled orders are released to livreurs; claiming a pending order
+// also confirms it, as accepting it always did
+export async function claimOrder(
+  storage: IStorage,
+  order: OrderWithItems,
+  livreur: Actor & Pick<User, "active" | "online">,
+): Promise<OrderWithItems | undefined> {
+  if (order.livreurId === livreur.id) return order;
+  if (!isOrderOpenForClaim(order)) {
+    throw new OrderDispatchError(
+      order.livreurId ? "Order is already assigned to another livreur" : "Order is no longer open",
+      order.livreurId,
+    );
+  }
+  if (!isOrderReleased(order, orderSchedulingConfig.leadTimeMinutes)) {
+    throw new OrderDispatchError("This scheduled order can't be taken yet", order.livreurId);
+  }
+  if (!(await isAvailableNow(storage, livreur))) {
+    throw new OrderDispatchError("Go online during one of your shifts to take orders", order.livreurId);
+  }
+
+  const updates: Partial<Order> = canTransitionOrder(order.status, "confirmed", "livreur") ? { status: "confirmed" } : {};
+  return swapLivreur(storage, order, livreur.id, livreur, "Claimed by livreur", updates);
+}
+
+// The owner assigns a livreur, or hands the order to a different one (a reason is then required)
+export async function assignOrder(
+  storage: IStorage,
+  order: OrderWithItems,
+  livreur: Pick<User, "id" | "name" | "active" | "online">,
+  owner: Actor,
+  reason?: string,
+): Promise<OrderWithItems | undefined> {
+  assertDispatchable(order);
+  if (order.livreurId === livreur.id) return order;
+  if (!(await isAvailableNow(storage, livreur))) {
+    throw new OrderDispatchError(`${livreur.name} is offline or not on shift right now`, order.livreurId);
+  }
+  if (order.livreurId && !reason) {
+    throw new OrderDispatchError("Please give a reason for reassigning this order", order.livreurId);
+  }
+
+  const note = order.livreurId ? `Reassigned to ${livreur.name}: ${reason}` : `Assigned to ${livreur.name}`;
+  return swapLivreur(storage, order, livreur.id, owner, note);
+}
+
+// The owner takes an order back from its livreur so it can be claimed or assigned again
+export async function unassignOrder(
+  storage: IStorage,
+  order: OrderWithItems,
+  owner: Actor,
+  reason: string,
+): Promise<OrderWithItems | undefined> {
+  assertDispatchable(order);
+  if (!order.livreurId) {
+    throw new OrderDispatchError("Order is not assigned to a livreur", null);
+  }
+
+  return swapLivreur(storage, order, null, owner, `Unassigned: ${reason}`);
+}
@@ -0,0 +1,71 @@
+import { distanceKm } from "@shared/geo";
+import { hasCoordinates, ridingMinutes, STOP_MINUTES } from "@shared/delivery-batching";
+import { DEFAULT_PREP_MINUTES, DELIVERY_MINUTES } from "@shared/order-tracking";
+import type { MenuItem, OrderWithItems } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const orderEtaConfig = {
+  // Orders the kitchen cooks side by side; the queue ahead is shared between them
+  kitchenParallelOrders: Math.max(1, parseInt(process.env.KITCHEN_PARALLEL_ORDERS || "2", 10)),
+  // Each extra portion on top of the longest item, e.g. a second pizza in the same oven run
+  extraPortionMinutes: parseInt(process.env.EXTRA_PORTION_MINUTES || "2", 10),
+};
+
+const MINUTE = 60 * 1000;
+
+// Kitchen time for the whole order: the slowest item sets the pace, extra portions add a little each
+function prepMinutes(order: Pick<OrderWithItems, "items">, menuItems: Map<string, MenuItem>): number {
+  if (order.items.length === 0) return DEFAULT_PREP_MINUTES;
+
+  const longest = Math.max(...order.items.map(item => menuItems.get(item.menuItemId)?.prepMinutes ?? DEFAULT_PREP_MINUTES));
+  const portions = order.items.reduce((sum, item) => sum + item.quantity, 0);
+  return longest + Math.max(0, portions - 1) * orderEtaConfig.extraPortionMinutes;
+}
+
+// Shop to the door: the batch route when there is one, otherwise straight to the stored coordinates
+function travelMinutes(order: OrderWithItems, shop: { lat: number; lng: number }): number {
+  if (order.orderType !== "delivery") return 0;
+  if (order.routeMinutes != null) return order.routeMinutes;
+  if (!hasCoordinates(order)) return DELIVERY_MINUTES;
+  return Math.ceil(ridingMinutes(distanceKm(shop, { lat: order.deliveryLat!, lng: order.deliveryLng! })) + STOP_MINUTES);
+}
+
+// Minutes of cooking still ahead of this order, spread over the cooks
+function queueMinutes(order: OrderWithItems, kitchen: OrderWithItems[], menuItems: Map<string, MenuItem>, now: number): number {
+  const ahead = kitchen.filter(other => other.id !== order.id
+    && new Date(other.createdAt).getTime() < new Date(order.createdAt).getTime());
+  const remaining = ahead.reduce((sum, other) => {
+    const total = prepMinutes(other, menuItems);
+    if (other.status !== "preparing") return sum + total;
+    // Preparing orders have been cooking since they were last updated, usually the move to preparing
+    const cooked = (now - new Date(other.updatedAt).getTime()) / MINUTE;
+    return sum + Math.max(0, total - cooked);
+  }, 0);
+  return Math.ceil(remaining / orderEtaConfig.kitchenParallelOrders);
+}
+
+// When the order will be ready for pickup or at the customer's door, worked out on each status change
+// from the kitchen queue, item prep times and the delivery distance. Null while pending and once finished.
+export async function computeOrderEta(storage: IStorage, order: OrderWithItems, now = new Date()): Promise<Date | null> {
+  if (!["confirmed", "preparing", "ready", "out_for_delivery"].includes(order.status)) return null;
+
+  const [menuItems, kitchen, settings] = await Promise.all([
+    storage.getMenuItems(),
+    order.status === "confirmed" ? storage.getKitchenOrders() : Promise.resolve([]),
+    storage.getDeliverySettings(),
+  ]);
+  const menuById = new Map(menuItems.map(item => [item.id, item]));
+  const start = now.getTime();
+
+  let readyAt = start;
+  if (order.status === "confirmed") {
+    readyAt += (queueMinutes(order, kitchen, menuById, start) + prepMinutes(order, menuById)) * MINUTE;
+  } else if (order.status === "preparing") {
+    readyAt += prepMinutes(order, menuById) * MINUTE;
+  }
+
+  const estimate = readyAt + travelMinutes(order, { lat: settings.shopLat, lng: settings.shopLng }) * MINUTE;
+  // Scheduled orders are due at their slot, not before
+  const slot = order.scheduledFor && order.status !== "out_for_delivery" ? new Date(order.scheduledFor).getTime() : 0;
+  return new Date(Math.max(estimate, slot));
+}
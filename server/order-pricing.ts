@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { orderItemInputSchema } from "@shared/cart-types";
+import { resolveSelectedOptions, getOptionsPriceDelta } from "@shared/menu-options";
+import type { InsertOrderItem } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+const orderItemsSchema = z.array(orderItemInputSchema).min(1, "Order must contain at least one item");
+
+export type PricedOrderItem = Omit<InsertOrderItem, "orderId">;
+
+export interface PricingIssue {
+  menuItemId?: string;
+  field: "item" | "options" | "price" | "totalAmount";
+  message: string;
+  expected?: string;
+  received?: string;
+}
+
+export interface PricedOrder {
+  items: PricedOrderItem[];
+  subtotal: number;
+  deliveryFee: number;
+  totalAmount: number;
+}
+
+export class OrderPricingError extends Error {
+  constructor(message: string, public issues: PricingIssue[]) {
+    super(message);
+    this.name = "OrderPricingError";
+  }
+}
+
+export function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+function amountsDiffer(a: number, b: number): boolean {
+  return Math.abs(a - b) >= 0.01;
+}
+
+// Older clients send their items as a JSON string; malformed JSON falls through to schema validation
+function parseItemsJson(rawItems: unknown): unknown {
+  if (typeof rawItems !== "string") return rawItems;
+  try {
+    return JSON.parse(rawItems);
+  } catch {
+    return undefined;
+  }
+}
+
+// Rebuild an order's lines and totals from the menu; the client's prices are only checked, never trusted.
+// The delivery fee comes from a server-side delivery quote (0 for pickup).
+export async function priceOrder(
+  storage: IStorage,
+  rawItems: unknown,
+  deliveryFee: number,
+  clientTotal?: unknown,
+): Promise<PricedOrder> {
+  const parsedItems = orderItemsSchema.parse(parseItemsJson(rawItems));
+
+  const issues: PricingIssue[] = [];
+  const items: PricedOrderItem[] = [];
+
+  for (const line of parsedItems) {
+    const menuItem = await storage.getMenuItem(line.menuItemId);
+    if (!menuItem) {
+      issues.push({ menuItemId: line.menuItemId, field: "item", message: `Unknown menu item '${line.name}'` });
+      continue;
+    }
+    if (!menuItem.available) {
+      issues.push({ menuItemId: line.menuItemId, field: "item", message: `'${menuItem.name}' is currently unavailable` });
+      continue;
+    }
+
+    const { options, errors } = resolveSelectedOptions(menuItem.optionGroups ?? [], line.selectedOptions);
+    if (errors.length > 0) {
+      errors.forEach(message => issues.push({ menuItemId: line.menuItemId, field: "options", message: `${menuItem.name}: ${message}` }));
+      continue;
+    }
+
+    const unitPrice = parseFloat(menuItem.price) + getOptionsPriceDelta(options);
+    if (amountsDiffer(parseFloat(line.price), unitPrice)) {
+      issues.push({
+        menuItemId: line.menuItemId,
+        field: "price",
+        message: `Price of '${menuItem.name}' has changed`,
+        expected: formatAmount(unitPrice),
+        received: line.price,
+      });
+    }
+
+    items.push({
+      menuItemId: menuItem.id,
+      name: menuItem.name,
+      unitPrice: formatAmount(unitPrice),
+      quantity: line.quantity,
+      selectedOptions: options,
+      note: line.note?.trim() || null,
+    });
+  }
+
+  const subtotal = items.reduce((sum, item) => sum + parseFloat(item.unitPrice) * item.quantity, 0);
+  const totalAmount = subtotal + deliveryFee;
+
+  if (clientTotal !== undefined && clientTotal !== null && issues.length === 0) {
+    const received = parseFloat(String(clientTotal));
+    if (isNaN(received) || amountsDiffer(received, totalAmount)) {
+      issues.push({
+        field: "totalAmount",
+        message: "Order total does not match current prices",
+        expected: formatAmount(totalAmount),
+        received: String(clientTotal),
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new OrderPricingError("Order could not be priced", issues);
+  }
+
+  return { items, subtotal, deliveryFee, totalAmount };
+}
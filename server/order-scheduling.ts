@@ -0,0 +1,111 @@
+import {
+  addDays,
+  getDaySlotStarts,
+  formatSlotLabel,
+  isOpenAt,
+  isSlotStart,
+  restaurantDate,
+  SCHEDULE_DAYS,
+  SLOT_MINUTES,
+  type OrderSlot,
+} from "@shared/order-slots";
+import type { InsertOrder, InsertOrderItem, OrderWithItems } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+const MINUTE = 60 * 1000;
+
+export const orderSchedulingConfig = {
+  // Orders accepted per time slot
+  slotCapacity: parseInt(process.env.ORDER_SLOT_CAPACITY || "5", 10),
+  // How long before its slot a scheduled order shows up for the kitchen and livreurs
+  leadTimeMinutes: parseInt(process.env.ORDER_LEAD_TIME_MINUTES || "45", 10),
+  // Earliest slot customers can pick, counted from now
+  minNoticeMinutes: parseInt(process.env.ORDER_MIN_NOTICE_MINUTES || "30", 10),
+};
+
+export class OrderScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderScheduleError";
+  }
+}
+
+function takesSlot(order: OrderWithItems): boolean {
+  return order.status !== "cancelled" && order.status !== "refused";
+}
+
+export async function getOrderSlots(storage: IStorage, date: string, now: Date = new Date()): Promise<OrderSlot[]> {
+  const starts = getDaySlotStarts(date);
+  if (starts.length === 0) return [];
+
+  const lastDay = addDays(restaurantDate(now), SCHEDULE_DAYS - 1);
+  if (date < restaurantDate(now) || date > lastDay) return [];
+
+  const from = starts[0];
+  const to = new Date(starts[starts.length - 1].getTime() + SLOT_MINUTES * MINUTE);
+  const booked = (await storage.getOrdersScheduledBetween(from, to)).filter(takesSlot);
+  const earliest = now.getTime() + orderSchedulingConfig.minNoticeMinutes * MINUTE;
+
+  return starts.map(start => {
+    const taken = booked.filter(order => new Date(order.scheduledFor!).getTime() === start.getTime()).length;
+    const remaining = Math.max(0, orderSchedulingConfig.slotCapacity - taken);
+    return {
+      start: start.toISOString(),
+      end: new Date(start.getTime() + SLOT_MINUTES * MINUTE).toISOString(),
+      label: formatSlotLabel(start),
+      remaining,
+      available: remaining > 0 && start.getTime() >= earliest,
+    };
+  });
+}
+
+// Reject ASAP orders while closed, and scheduled ones outside opening hours, too soon, too far ahead or in a full slot
+export async function validateOrderSchedule(
+  storage: IStorage,
+  scheduledFor: Date | null | undefined,
+  now: Date = new Date(),
+): Promise<void> {
+  if (!scheduledFor) {
+    if (!isOpenAt(now)) {
+      throw new OrderScheduleError("We're closed right now. Please pick a time slot for your order.");
+    }
+    return;
+  }
+
+  if (!isSlotStart(scheduledFor)) {
+    throw new OrderScheduleError("Please pick one of the available time slots within opening hours");
+  }
+
+  const slots = await getOrderSlots(storage, restaurantDate(scheduledFor), now);
+  const slot = slots.find(s => s.start === scheduledFor.toISOString());
+  if (!slot) {
+    throw new OrderScheduleError(`Orders can only be scheduled up to ${SCHEDULE_DAYS} days ahead`);
+  }
+  if (slot.remaining === 0) {
+    throw new OrderScheduleError("This time slot is full. Please pick another one.");
+  }
+  if (!slot.available) {
+    throw new OrderScheduleError("This time slot is too soon. Please pick a later one.");
+  }
+}
+
+// Creates the order once its schedule checks out; the slot's capacity is checked again atomically with the write,
+// so two customers can't both take its last place
+export async function placeOrder(
+  storage: IStorage,
+  order: InsertOrder,
+  items: Omit<InsertOrderItem, "orderId">[],
+  now: Date = new Date(),
+): Promise<OrderWithItems> {
+  await validateOrderSchedule(storage, order.scheduledFor, now);
+
+  const created = await storage.createOrder(
+    order,
+    items,
+    (sameSlot) => sameSlot.filter(takesSlot).length < orderSchedulingConfig.slotCapacity,
+  );
+  if (!created) {
+    throw new OrderScheduleError("This time slot is full. Please pick another one.");
+  }
+  return created;
+}
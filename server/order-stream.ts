@@ -0,0 +1,143 @@
+import { EventEmitter } from "events";
+import type { Response } from "express";
+import { isOrderReleased } from "@shared/order-slots";
+import { isOrderOpenForClaim } from "@shared/order-status";
+import type { OrderWithItems, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { orderSchedulingConfig } from "./order-scheduling";
+import { hideHandoverCode } from "./delivery-proof";
+
+export type OrderStreamEventType = "order.created" | "order.updated" | "order.removed" | "order.notice" | "order.resync";
+
+interface OrderChange {
+  type: "order.created" | "order.updated";
+  order: OrderWithItems;
+  previous?: OrderWithItems;
+  // Shown to owners as a notification, e.g. when a customer cancels
+  notice?: string;
+}
+
+const emitter = new EventEmitter();
+// One listener per open dashboard connection
+emitter.setMaxListeners(0);
+
+const HEARTBEAT_MS = 25000;
+
+const RELEASE_CHECK_MS = 60 * 1000;
+
+// Livreurs always see the orders assigned to them; open orders only once released, and only while they are
+// online and on shift. Shared with GET /api/orders so the list and the stream agree.
+export function isVisibleToLivreur(livreur: Pick<User, "id">, order: OrderWithItems, available: boolean): boolean {
+  if (order.livreurId === livreur.id) return true;
+  return available && isOrderOpenForClaim(order) && isOrderReleased(order, orderSchedulingConfig.leadTimeMinutes);
+}
+
+function canSeeOrder(user: Pick<User, "id" | "role">, order: OrderWithItems, available: boolean): boolean {
+  if (user.role === "owner") return true;
+  if (user.role === "livreur") return isVisibleToLivreur(user, order, available);
+  return order.userId === user.id;
+}
+
+export function publishOrderChange(
+  type: OrderChange["type"],
+  order: OrderWithItems,
+  previous?: OrderWithItems,
+  notice?: string,
+) {
+  emitter.emit("change", { type, order, previous, notice } satisfies OrderChange);
+}
+
+// A livreur went online/offline or their shifts changed
+export function publishAvailabilityChange(livreurId: number) {
+  emitter.emit("availability", livreurId);
+}
+
+function writeEvent(res: Response, type: OrderStreamEventType, data: unknown) {
+  res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Keep an SSE response open and forward the order changes this user is allowed to see.
+// When an order drops out of view (e.g. a pending order claimed by another livreur) an
+// order.removed event tells the dashboard to drop it. For livreurs, `checkAvailability` is
+// re-run when their status changes and every minute (shifts start and end); when the answer
+// flips, order.resync makes the dashboard reload the orders it may now see.
+export function openOrderStream(
+  res: Response,
+  user: Pick<User, "id" | "role">,
+  checkAvailability: () => Promise<boolean> = async () => false,
+) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+
+  let available = false;
+
+  // The first check only sets the state: the dashboard has just loaded its orders
+  const refreshAvailability = async (announce = true) => {
+    try {
+      const nowAvailable = await checkAvailability();
+      if (nowAvailable !== available) {
+        available = nowAvailable;
+        if (announce) writeEvent(res, "order.resync", { available });
+      }
+    } catch (error) {
+      console.error("Error checking livreur availability:", error);
+    }
+  };
+
+  const onAvailability = (livreurId: number) => {
+    if (livreurId === user.id) refreshAvailability();
+  };
+
+  const onChange = ({ type, order, previous, notice }: OrderChange) => {
+    if (canSeeOrder(user, order, available)) {
+      writeEvent(res, type, user.role === "livreur" ? hideHandoverCode(order) : order);
+    } else if (previous && canSeeOrder(user, previous, available)) {
+      writeEvent(res, "order.removed", { id: order.id });
+    }
+    if (notice && user.role === "owner") {
+      writeEvent(res, "order.notice", { id: order.id, message: notice });
+    }
+  };
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  emitter.on("change", onChange);
+
+  let shiftCheck: NodeJS.Timeout | undefined;
+  if (user.role === "livreur") {
+    emitter.on("availability", onAvailability);
+    shiftCheck = setInterval(refreshAvailability, RELEASE_CHECK_MS);
+    refreshAvailability(false);
+  }
+
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    clearInterval(shiftCheck);
+    emitter.off("change", onChange);
+    emitter.off("availability", onAvailability);
+  });
+}
+
+// Scheduled orders stay hidden from livreurs until their lead time; re-publish them as they come due
+export function startScheduledOrderReleases(storage: IStorage) {
+  const leadTime = orderSchedulingConfig.leadTimeMinutes * 60 * 1000;
+  let lastCheck = new Date();
+
+  setInterval(async () => {
+    const now = new Date();
+    try {
+      const due = await storage.getOrdersScheduledBetween(
+        new Date(lastCheck.getTime() + leadTime),
+        new Date(now.getTime() + leadTime),
+      );
+      due.forEach(order => publishOrderChange("order.updated", order));
+      lastCheck = now;
+    } catch (error) {
+      console.error("Error releasing scheduled orders:", error);
+    }
+  }, RELEASE_CHECK_MS);
+}
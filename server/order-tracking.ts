@@ -0,0 +1,56 @@
+import { randomBytes, randomInt } from "crypto";
+import { estimateOrderEta, type TrackedOrder } from "@shared/order-tracking";
+import type { DriverLocation } from "@shared/driver-location";
+import { isOrderFinished } from "@shared/order-status";
+import type { OrderEvent, OrderWithItems, User } from "@shared/schema";
+
+export function generateTrackingToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function generateHandoverCode(): string {
+  return randomInt(0, 10000).toString().padStart(4, "0");
+}
+
+export function toTrackedOrder(
+  order: OrderWithItems,
+  events: OrderEvent[],
+  livreur?: Pick<User, "name">,
+  driverLocation?: DriverLocation | null,
+): TrackedOrder {
+  const finished = isOrderFinished(order.status);
+  const estimatedAt = finished ? null : order.estimatedAt ?? estimateOrderEta(order);
+
+  return {
+    reference: order.id.slice(0, 8),
+    status: order.status,
+    orderType: order.orderType,
+    createdAt: new Date(order.createdAt).toISOString(),
+    updatedAt: new Date(order.updatedAt).toISOString(),
+    preferredTime: order.preferredTime,
+    scheduledFor: order.scheduledFor ? new Date(order.scheduledFor).toISOString() : null,
+    estimatedAt: estimatedAt ? new Date(estimatedAt).toISOString() : null,
+    items: order.items.map(item => ({
+      menuItemId: item.menuItemId,
+      name: item.name,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      selectedOptions: item.selectedOptions,
+      note: item.note,
+    })),
+    notes: order.notes,
+    deliveryFee: order.deliveryFee,
+    totalAmount: order.totalAmount,
+    livreurFirstName: livreur?.name.trim().split(/\s+/)[0] || null,
+    // The customer reads this out to the livreur at the door, so only until the order is finished
+    handoverCode: order.orderType === "delivery" && !finished
+      ? order.handoverCode
+      : null,
+    driverLocation: order.status === "out_for_delivery" ? driverLocation ?? null : null,
+    // Status changes only; customer edits are recorded as pending -> pending
+    history: events.filter(event => event.fromStatus !== event.toStatus).map(event => ({
+      status: event.toStatus,
+      at: new Date(event.createdAt).toISOString(),
+    })),
+  };
+}
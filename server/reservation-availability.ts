@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { addDays, restaurantDate } from "@shared/order-slots";
+import { reservationStartsAt } from "@shared/reservation-changes";
+import { getReservationTimes, seatsTakenDuring, type ReservationAvailability, type ReservationTime } from "@shared/reservation-slots";
+import { bestTableAssignment, freeTablesDuring, largestTableGroup, seatsAt } from "@shared/table-assignment";
+import { reservationStatusSchema, type InsertReservation, type Reservation, type ReservationSettings, type RestaurantTable } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const reservationConfig = {
+  // Earliest table customers can book, counted from now
+  minNoticeMinutes: parseInt(process.env.RESERVATION_MIN_NOTICE_MINUTES || "60", 10),
+  // How many days ahead tables can be booked, today included
+  bookingDays: parseInt(process.env.RESERVATION_BOOKING_DAYS || "30", 10),
+  // Guests can change or cancel through their manage link until this long before the booking starts
+  changeCutoffMinutes: parseInt(process.env.RESERVATION_CHANGE_CUTOFF_MINUTES || "120", 10),
+};
+
+// Used until the owner saves reservation settings
+export function defaultReservationSettings(): ReservationSettings {
+  return {
+    id: "reservations",
+    seatingCapacity: parseInt(process.env.SEATING_CAPACITY || "40", 10),
+    slotMinutes: parseInt(process.env.RESERVATION_SLOT_MINUTES || "90", 10),
+  };
+}
+
+export const reservationAvailabilityQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  partySize: z.coerce.number().int().min(1).max(20).default(2),
+  // A guest changing their booking: its own seats count as free
+  manageToken: z.string().optional(),
+});
+
+// Owner's reservation list: one day (the dashboard's day view) and/or one status
+export const reservationListQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  status: reservationStatusSchema.optional(),
+});
+
+export class ReservationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReservationError";
+  }
+}
+
+const MINUTE = 60 * 1000;
+
+// Notice a booking needs: a guest moving theirs must also land outside the change cutoff, or they could move it
+// to a time they would no longer be allowed to change
+function noticeMinutes(guestMove: boolean): number {
+  return guestMove
+    ? Math.max(reservationConfig.minNoticeMinutes, reservationConfig.changeCutoffMinutes)
+    : reservationConfig.minNoticeMinutes;
+}
+
+// Start times of the day that are far enough ahead and inside the booking window
+function bookableTimes(date: string, settings: ReservationSettings, now: Date, guestMove = false): string[] {
+  const today = restaurantDate(now);
+  if (date < today || date > addDays(today, reservationConfig.bookingDays - 1)) return [];
+
+  const earliest = now.getTime() + noticeMinutes(guestMove) * MINUTE;
+  return getReservationTimes(date, settings.slotMinutes)
+    .filter(time => reservationStartsAt({ date, time }).getTime() >= earliest);
+}
+
+// Where a party sits at `time`: the best free tables once tables are set up, otherwise anywhere within the
+// seating capacity; undefined when it doesn't fit
+function place(
+  reservations: Reservation[],
+  time: string,
+  partySize: number,
+  settings: ReservationSettings,
+  tables: RestaurantTable[],
+): Pick<Reservation, "tableIds"> | undefined {
+  if (tables.length > 0) {
+    const tableIds = bestTableAssignment(tables, reservations, time, partySize, settings.slotMinutes);
+    return tableIds ? { tableIds } : undefined;
+  }
+  return seatsTakenDuring(reservations, time, settings.slotMinutes) + partySize <= settings.seatingCapacity
+    ? { tableIds: null }
+    : undefined;
+}
+
+function seatsLeft(
+  reservations: Reservation[],
+  time: string,
+  settings: ReservationSettings,
+  tables: RestaurantTable[],
+): number {
+  if (tables.length > 0) {
+    const { free, unplacedGuests } = freeTablesDuring(tables, reservations, time, settings.slotMinutes);
+    return free.reduce((sum, table) => sum + table.seats, 0) - unplacedGuests;
+  }
+  return settings.seatingCapacity - seatsTakenDuring(reservations, time, settings.slotMinutes);
+}
+
+// Tables reservations are seated on; none means the global seating capacity applies
+async function getSeatingTables(storage: IStorage): Promise<RestaurantTable[]> {
+  return (await storage.getRestaurantTables()).filter(table => table.active);
+}
+
+export async function getReservationAvailability(
+  storage: IStorage,
+  date: string,
+  partySize: number,
+  exceptReservationId?: string,
+  now: Date = new Date(),
+): Promise<ReservationAvailability> {
+  const settings = await storage.getReservationSettings();
+  const times = bookableTimes(date, settings, now, exceptReservationId !== undefined);
+  const [sameDay, tables] = times.length > 0
+    ? await Promise.all([storage.getReservationsByDate(date), getSeatingTables(storage)])
+    : [[], []];
+  const booked = sameDay.filter(reservation => reservation.id !== exceptReservationId);
+
+  return {
+    date,
+    partySize,
+    times: times
+      .filter(time => place(booked, time, partySize, settings, tables))
+      .map((time): ReservationTime => ({ time, seatsLeft: seatsLeft(booked, time, settings, tables) })),
+  };
+}
+
+function assertBookable(
+  { date, time, partySize }: Pick<Reservation, "date" | "time" | "partySize">,
+  settings: ReservationSettings,
+  tables: RestaurantTable[],
+  now: Date,
+  guestMove = false,
+) {
+  if (!bookableTimes(date, settings, now, guestMove).includes(time)) {
+    throw new ReservationError("We can't take a reservation at this time. Please pick one of the times offered.");
+  }
+  const largestParty = tables.length > 0 ? largestTableGroup(tables) : settings.seatingCapacity;
+  if (partySize > largestParty) {
+    throw new ReservationError("This party is too large to book online. Please call us.");
+  }
+}
+
+// Books the table only if the time is bookable and the party still fits once every other booking is counted,
+// seating it at the best-fitting free tables when tables are set up
+export async function bookReservation(
+  storage: IStorage,
+  reservation: InsertReservation,
+  now: Date = new Date(),
+): Promise<Reservation> {
+  const [settings, tables] = await Promise.all([storage.getReservationSettings(), getSeatingTables(storage)]);
+  assertBookable(reservation, settings, tables, now);
+
+  const created = await storage.createReservation(
+    reservation,
+    (sameDay) => place(sameDay, reservation.time, reservation.partySize, settings, tables),
+  );
+  if (!created) {
+    throw new ReservationError("This time is fully booked now. Please pick another one.");
+  }
+  return created;
+}
+
+// A guest moving their booking: checked like a new booking, except that its old seats count as free and the new
+// time must be outside the change cutoff. Tables are picked again for the new time and size; a new date or time
+// goes back to pending for the restaurant to confirm.
+export async function rescheduleReservation(
+  storage: IStorage,
+  reservation: Reservation,
+  updates: Pick<Reservation, "date" | "time" | "partySize">,
+  now: Date = new Date(),
+): Promise<Reservation> {
+  const [settings, tables] = await Promise.all([storage.getReservationSettings(), getSeatingTables(storage)]);
+  assertBookable(updates, settings, tables, now, true);
+
+  const moved = updates.date !== reservation.date || updates.time !== reservation.time;
+  const rescheduled = await storage.rescheduleReservation(
+    reservation.id,
+    { ...updates, status: moved ? "pending" : reservation.status, guestChangedAt: now },
+    (sameDay) => place(sameDay.filter(other => other.id !== reservation.id), updates.time, updates.partySize, settings, tables),
+  );
+  if (!rescheduled) {
+    throw new ReservationError("This time is fully booked now. Please pick another one.");
+  }
+  return rescheduled;
+}
+
+// A day reads in seating order; without a date the newest bookings come first
+export async function listReservations(
+  storage: IStorage,
+  { date, status }: z.infer<typeof reservationListQuerySchema>,
+): Promise<Reservation[]> {
+  const reservations = date
+    ? (await storage.getReservationsByDate(date)).sort((a, b) => a.time.localeCompare(b.time))
+    : await storage.getReservations();
+  return status ? reservations.filter(reservation => reservation.status === status) : reservations;
+}
+
+// The owner moving a booking to other tables: they must exist, seat the party and be free for its whole slot
+export async function moveReservation(
+  storage: IStorage,
+  reservation: Reservation,
+  tableIds: string[],
+): Promise<Reservation> {
+  const [settings, tables] = await Promise.all([storage.getReservationSettings(), getSeatingTables(storage)]);
+  const unknown = tableIds.find(id => !tables.some(table => table.id === id));
+  if (unknown) {
+    throw new ReservationError("One of these tables doesn't exist or is out of service");
+  }
+  const seats = seatsAt(tables, tableIds);
+  if (seats < reservation.partySize) {
+    throw new ReservationError(`These tables seat ${seats}, the party is ${reservation.partySize}`);
+  }
+
+  const moved = await storage.updateReservationTables(reservation.id, tableIds, (sameDay) => {
+    const { free } = freeTablesDuring(tables, sameDay, reservation.time, settings.slotMinutes, reservation.id);
+    return tableIds.every(id => free.some(table => table.id === id));
+  });
+  if (!moved) {
+    throw new ReservationError("Another party is seated at these tables during this booking");
+  }
+  return moved;
+}
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { canGuestChangeReservation, reservationStatusLabels } from "@shared/reservation-status";
+import { diffReservation, reservationStartsAt, type ManagedReservation } from "@shared/reservation-changes";
+import type { Reservation, ReservationFieldChange, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { reservationConfig, rescheduleReservation } from "./reservation-availability";
+import { notificationConfig, sendNotification } from "./notifications";
+
+export const guestReservationChangeSchema = z.object({
+  status: z.literal("cancelled").optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Please pick a date").optional(),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM").optional(),
+  partySize: z.coerce.number().int().min(1, "Party size must be at least 1").max(20, "Party size cannot exceed 20").optional(),
+  reason: z.string().max(200).optional(),
+}).refine(
+  (change) => change.status !== undefined || change.date !== undefined || change.time !== undefined || change.partySize !== undefined,
+  { message: "Nothing to change" },
+);
+
+export class ReservationChangeRejectedError extends Error {
+  constructor(message: string, public currentStatus: string) {
+    super(message);
+    this.name = "ReservationChangeRejectedError";
+  }
+}
+
+const MINUTE = 60 * 1000;
+
+function formatCutoff(minutes: number): string {
+  if (minutes % 60 !== 0) return `${minutes} minutes`;
+  return minutes === 60 ? "1 hour" : `${minutes / 60} hours`;
+}
+
+// Last moment the guest can change or cancel online, or null when the booking can no longer be changed at all
+export function guestChangeDeadline(reservation: Reservation): Date | null {
+  if (!reservation.manageToken || !canGuestChangeReservation(reservation.status)) return null;
+  return new Date(reservationStartsAt(reservation).getTime() - reservationConfig.changeCutoffMinutes * MINUTE);
+}
+
+export function toManagedReservation(reservation: Reservation, now: Date = new Date()): ManagedReservation {
+  const deadline = guestChangeDeadline(reservation);
+  return {
+    name: reservation.name,
+    date: reservation.date,
+    time: reservation.time,
+    partySize: reservation.partySize,
+    specialRequests: reservation.specialRequests,
+    status: reservation.status,
+    changeableUntil: deadline && deadline > now ? deadline.toISOString() : null,
+  };
+}
+
+// Move or cancel a booking on behalf of the guest holding its manage link. New dates, times and sizes are
+// re-checked against availability like a new booking; every change lands in the booking's history for the owner.
+export async function applyGuestReservationChange(
+  storage: IStorage,
+  reservation: Reservation,
+  body: unknown,
+  now: Date = new Date(),
+): Promise<Reservation | undefined> {
+  const change = guestReservationChangeSchema.parse(body);
+
+  const deadline = guestChangeDeadline(reservation);
+  if (!deadline) {
+    throw new ReservationChangeRejectedError(
+      `This booking is ${reservationStatusLabels[reservation.status].toLowerCase()} and can no longer be changed online. Please call us.`,
+      reservation.status,
+    );
+  }
+  if (now > deadline) {
+    throw new ReservationChangeRejectedError(
+      `Bookings can be changed online until ${formatCutoff(reservationConfig.changeCutoffMinutes)} before they start. Please call us.`,
+      reservation.status,
+    );
+  }
+
+  if (change.status === "cancelled") {
+    const cancelled = await storage.updateReservationStatus(reservation.id, "cancelled");
+    if (!cancelled) return undefined;
+
+    await storage.createReservationEvent({
+      reservationId: reservation.id,
+      actor: "guest",
+      actorUserId: null,
+      changes: diffReservation(reservation, cancelled),
+      note: change.reason?.trim() || "Cancelled by guest",
+    });
+    return cancelled;
+  }
+
+  const updates = {
+    date: change.date ?? reservation.date,
+    time: change.time ?? reservation.time,
+    partySize: change.partySize ?? reservation.partySize,
+  };
+  if (diffReservation(reservation, { ...reservation, ...updates }).length === 0) return reservation;
+
+  const rescheduled = await rescheduleReservation(storage, reservation, updates, now);
+  await storage.createReservationEvent({
+    reservationId: reservation.id,
+    actor: "guest",
+    actorUserId: null,
+    changes: diffReservation(reservation, rescheduled),
+    note: change.reason?.trim() || null,
+  });
+  return rescheduled;
+}
+
+// Records what the owner changed from the dashboard (status or tables) in the booking's history
+export async function recordOwnerReservationChange(
+  storage: IStorage,
+  before: Reservation,
+  after: Reservation,
+  owner: Pick<User, "id">,
+): Promise<void> {
+  const changes: ReservationFieldChange[] = diffReservation(before, after);
+  const fromTables = before.tableIds ?? [];
+  const toTables = after.tableIds ?? [];
+  if (fromTables.join() !== toTables.join()) {
+    const names = new Map((await storage.getRestaurantTables()).map(table => [table.id, table.name]));
+    const describe = (tableIds: string[]) => tableIds.length > 0 ? tableIds.map(id => names.get(id) ?? id).join(" + ") : null;
+    changes.push({ field: "tables", from: describe(fromTables), to: describe(toTables) });
+  }
+  if (changes.length === 0) return;
+
+  await storage.createReservationEvent({
+    reservationId: after.id,
+    actor: "owner",
+    actorUserId: owner.id,
+    changes,
+    note: null,
+  });
+}
+
+export function reservationManageLink(token: string, requestOrigin: string): string {
+  return `${notificationConfig.publicUrl || requestOrigin}/reservations/manage/${token}`;
+}
+
+// Texts the guest their manage link after booking; the booking stands even if the text can't be sent
+export async function sendReservationManageLink(reservation: Reservation, requestOrigin: string): Promise<void> {
+  if (!reservation.manageToken) return;
+  try {
+    await sendNotification({
+      to: reservation.phone,
+      body: `${reservation.name}, we received your booking at Crêperie Kinder 5 for ${reservation.partySize} on ${reservation.date} at ${reservation.time}. Change or cancel: ${reservationManageLink(reservation.manageToken, requestOrigin)}`,
+    });
+  } catch (error) {
+    console.error("Failed to send reservation manage link:", error);
+  }
+}
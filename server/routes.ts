@@ -1,8 +1,34 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertReservationSchema, insertOrderSchema, insertMenuItemSchema } from "@shared/schema";
+import { StorageUnavailableError } from "./storage-errors";
+import { insertReservationSchema, reservationStatusSchema, reservationTablesSchema, updateReservationSettingsSchema, insertRestaurantTableSchema, insertWaitlistEntrySchema, insertOrderSchema, insertMenuItemSchema, menuItemPrepMinutesSchema, menuOptionGroupsSchema, orderStatusSchema, insertDeliveryZoneSchema, updateDeliverySettingsSchema, insertLivreurShiftSchema, insertCustomerAddressSchema, algerianAddressSchema, type UserRole } from "@shared/schema";
+import { canTransitionOrder, getAllowedOrderStatuses, isOrderOpenForClaim } from "@shared/order-status";
+import { canTransitionReservation, getAllowedReservationStatuses } from "@shared/reservation-status";
+import { toTrackedWaitlistEntry } from "@shared/waitlist";
+import { isOpenAt, restaurantDate } from "@shared/order-slots";
+import { driverLocationPingSchema } from "@shared/driver-location";
+import { formatAlgerianAddress } from "@shared/customer-address";
 import authRouter, { requireAuth, requireRole } from "./auth";
+import { priceOrder, formatAmount, OrderPricingError } from "./order-pricing";
+import { isVisibleToLivreur, openOrderStream, publishOrderChange, publishAvailabilityChange, startScheduledOrderReleases } from "./order-stream";
+import { getOrderSlots, placeOrder, orderSchedulingConfig, OrderScheduleError } from "./order-scheduling";
+import { toTrackedOrder } from "./order-tracking";
+import { applyCustomerOrderChange, OrderChangeRejectedError } from "./customer-order-changes";
+import { claimOrder, assignOrder, unassignOrder, orderAssignmentSchema, orderUnassignmentSchema, OrderDispatchError } from "./order-dispatch";
+import { buildDeliveryProof, hideHandoverCode, canViewProofPhotos, proofPhotoFileName, proofPhotoOrderId, DeliveryProofError, DELIVERY_PROOF_FOLDER } from "./delivery-proof";
+import { readCashCollection, buildCashReport, getCashBalances, settleLivreurCash, CashSettlementError } from "./cash-settlement";
+import { computeOrderEta } from "./order-eta";
+import { buildCommuneReport, communeReportQuerySchema } from "./commune-report";
+import { bookReservation, getReservationAvailability, listReservations, moveReservation, reservationAvailabilityQuerySchema, reservationListQuerySchema, ReservationError } from "./reservation-availability";
+import { applyGuestReservationChange, recordOwnerReservationChange, sendReservationManageLink, toManagedReservation, ReservationChangeRejectedError } from "./reservation-changes";
+import { addToWaitlist, closeWaitlistEntry, getWaitlist, notifyWaitlistEntry, waitlistClosingSchema, WaitlistError } from "./waitlist";
+import { NotificationError } from "./notifications";
+import { checkLivreurAvailable, isAvailableNow, getLivreurAvailability, getLivreurAvailabilities, setLivreurOnline } from "./livreur-availability";
+import { getBatchSuggestions, acceptDeliveryBatch, DeliveryBatchError } from "./delivery-batching";
+import { getOwnAddress, snapshotSavedAddress, CustomerAddressError } from "./customer-addresses";
+import { recordDriverLocation, getDriverLocation, clearDriverLocation } from "./driver-locations";
+import { quoteDelivery, withMinimumOrderCheck, assertDeliverable, deliveryLocationSchema, takeQuoteRequest, DeliveryQuoteError } from "./delivery-quote";
 import multer from "multer";
 import path from "path";
 import { fileURLToPath } from "url";
@@ -48,6 +74,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({
       supabaseUrl: process.env.SUPABASE_URL || '',
       supabaseAnonKey: process.env.SUPABASE_ANON_KEY || '',
+      orderLeadTimeMinutes: orderSchedulingConfig.leadTimeMinutes,
     });
   });
 
@@ -73,18 +100,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Upload image to Object Storage
-  app.post("/api/upload-image", requireRole("owner"), upload.single('image'), async (req, res) => {
+  // Upload image to Object Storage; livreurs may only upload delivery proof photos, for orders they deliver
+  app.post("/api/upload-image", requireRole("owner", "livreur"), upload.single('image'), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No image file provided" });
       }
 
+      const user = await storage.getUserById(req.session.userId);
+      const folder = req.body.folder === DELIVERY_PROOF_FOLDER ? DELIVERY_PROOF_FOLDER : 'menu-items';
+      if (user?.role !== 'owner' && folder !== DELIVERY_PROOF_FOLDER) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+      const proofOrder = folder === DELIVERY_PROOF_FOLDER ? await storage.getOrder(String(req.body.orderId ?? '')) : undefined;
+      if (folder === DELIVERY_PROOF_FOLDER && (!proofOrder || !user || !canViewProofPhotos(proofOrder, user))) {
+        return res.status(403).json({ error: "You can only add proof photos to orders you deliver" });
+      }
+
       const client = new Client();
       const timestamp = Date.now();
       const randomString = Math.random().toString(36).substring(2, 15);
       const fileExtension = path.extname(req.file.originalname);
-      const fileName = `menu-items/${timestamp}-${randomString}${fileExtension}`;
+      const upload = `${timestamp}-${randomString}${fileExtension}`;
+      const fileName = `${folder}/${proofOrder ? proofPhotoFileName(proofOrder.id, upload) : upload}`;
 
       // Upload to Object Storage
       await client.uploadFromBytes(fileName, new Uint8Array(fs.readFileSync(req.file.path)));
@@ -106,9 +144,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Serve images from Object Storage
-  app.get("/storage/:folder/:filename", async (req, res) => {
+  // Serve images from Object Storage; delivery proof photos only to the owner and the livreur of that order
+  app.get("/storage/:folder/:filename", async (req: any, res) => {
     try {
+      if (req.params.folder === DELIVERY_PROOF_FOLDER) {
+        const orderId = proofPhotoOrderId(req.params.filename);
+        const [user, order] = await Promise.all([
+          req.session?.userId ? storage.getUserById(req.session.userId) : Promise.resolve(undefined),
+          orderId ? storage.getOrder(orderId) : Promise.resolve(undefined),
+        ]);
+        if (!user || !order || !canViewProofPhotos(order, user)) {
+          return res.status(404).json({ error: "Image not found" });
+        }
+      }
+
       const client = new Client();
       const filePath = `${req.params.folder}/${req.params.filename}`;
       const result = await client.downloadAsBytes(filePath);
@@ -196,6 +245,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         popular: req.body.popular === 'true' || req.body.popular === true,
       };
 
+      if (req.body.optionGroups !== undefined) {
+        updates.optionGroups = menuOptionGroupsSchema.parse(req.body.optionGroups);
+      }
+
+      if (req.body.prepMinutes !== undefined) {
+        updates.prepMinutes = menuItemPrepMinutesSchema.parse(req.body.prepMinutes);
+      }
+
       if (req.file) {
         // If a new image is uploaded, use the URL from the upload-image endpoint
         const client = new Client();
@@ -238,8 +295,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log('Menu item updated successfully');
       res.json(updatedItem);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error updating menu item:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid menu item data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update menu item" });
     }
   });
@@ -396,12 +456,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reservations endpoints
-  app.get("/api/reservations", async (req, res) => {
+  // Guests' names and contact details: owners only
+  app.get("/api/reservations", requireRole("owner"), async (req, res) => {
     try {
-      const reservations = await storage.getReservations();
+      const reservations = await listReservations(storage, reservationListQuerySchema.parse(req.query));
       res.json(reservations);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error fetching reservations:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid date or status", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to fetch reservations" });
     }
   });
@@ -409,17 +473,311 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/reservations", async (req, res) => {
     try {
       const validatedData = insertReservationSchema.parse(req.body);
-      const reservation = await storage.createReservation(validatedData);
+      const reservation = await bookReservation(storage, validatedData);
+      await sendReservationManageLink(reservation, `${req.protocol}://${req.get("host")}`);
       res.status(201).json(reservation);
     } catch (error: any) {
       console.error("Error creating reservation:", error);
       if (error.name === "ZodError") {
         return res.status(400).json({ error: "Invalid reservation data", details: error.errors });
       }
+      if (error instanceof ReservationError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof StorageUnavailableError) {
+        return res.status(503).json({ error: "We couldn't check the day's bookings right now. Please try again." });
+      }
       res.status(500).json({ error: "Failed to create reservation" });
     }
   });
 
+  // Times a party of `partySize` can still book on `date` (YYYY-MM-DD, restaurant local time)
+  app.get("/api/reservations/availability", async (req, res) => {
+    try {
+      const { date, partySize, manageToken } = reservationAvailabilityQuerySchema.parse(req.query);
+      const ownReservation = manageToken ? await storage.getReservationByManageToken(manageToken) : undefined;
+      res.json(await getReservationAvailability(storage, date, partySize, ownReservation?.id));
+    } catch (error: any) {
+      console.error("Error fetching reservation availability:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid date or party size", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch reservation availability" });
+    }
+  });
+
+  app.get("/api/reservations/settings", requireRole("owner"), async (req, res) => {
+    try {
+      res.json(await storage.getReservationSettings());
+    } catch (error) {
+      console.error("Error fetching reservation settings:", error);
+      res.status(500).json({ error: "Failed to fetch reservation settings" });
+    }
+  });
+
+  app.put("/api/reservations/settings", requireRole("owner"), async (req, res) => {
+    try {
+      const settings = await storage.updateReservationSettings(updateReservationSettingsSchema.parse(req.body));
+      res.json(settings);
+    } catch (error: any) {
+      console.error("Error updating reservation settings:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid reservation settings", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update reservation settings" });
+    }
+  });
+
+  // Guests holding the manage link see their booking and until when they can change it online
+  app.get("/api/reservations/manage/:token", async (req, res) => {
+    try {
+      const reservation = await storage.getReservationByManageToken(req.params.token);
+      if (!reservation) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+      res.json(toManagedReservation(reservation));
+    } catch (error) {
+      console.error("Error fetching managed reservation:", error);
+      res.status(500).json({ error: "Failed to fetch reservation" });
+    }
+  });
+
+  // ...and move it to another date, time or party size, or cancel it, up to the change cutoff
+  app.patch("/api/reservations/manage/:token", async (req, res) => {
+    try {
+      const reservation = await storage.getReservationByManageToken(req.params.token);
+      if (!reservation) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+
+      const updated = await applyGuestReservationChange(storage, reservation, req.body);
+      if (!updated) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+      res.json(toManagedReservation(updated));
+    } catch (error: any) {
+      console.error("Error changing managed reservation:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid reservation change", details: error.errors });
+      }
+      if (error instanceof ReservationChangeRejectedError) {
+        return res.status(409).json({ error: error.message, currentStatus: error.currentStatus });
+      }
+      if (error instanceof ReservationError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof StorageUnavailableError) {
+        return res.status(503).json({ error: "We couldn't check the day's bookings right now. Please try again." });
+      }
+      res.status(500).json({ error: "Failed to change reservation" });
+    }
+  });
+
+  // Everything the guest and the owner changed on a booking, oldest first
+  app.get("/api/reservations/:id/events", requireRole("owner"), async (req, res) => {
+    try {
+      const reservation = await storage.getReservation(req.params.id);
+      if (!reservation) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+      res.json(await storage.getReservationEvents(reservation.id));
+    } catch (error) {
+      console.error("Error fetching reservation history:", error);
+      res.status(500).json({ error: "Failed to fetch reservation history" });
+    }
+  });
+
+  // Confirm, decline, seat, complete or mark a no-show, following the reservation lifecycle
+  app.patch("/api/reservations/:id", requireRole("owner"), async (req: any, res) => {
+    try {
+      const reservation = await storage.getReservation(req.params.id);
+      if (!reservation) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+
+      const allowedStatuses = getAllowedReservationStatuses(reservation.status);
+      const parsedStatus = reservationStatusSchema.safeParse(req.body.status);
+      if (!parsedStatus.success) {
+        return res.status(400).json({ error: "Invalid reservation status", allowedStatuses });
+      }
+
+      const status = parsedStatus.data;
+      if (!canTransitionReservation(reservation.status, status)) {
+        return res.status(409).json({
+          error: `Cannot move reservation from '${reservation.status}' to '${status}'`,
+          currentStatus: reservation.status,
+          allowedStatuses,
+        });
+      }
+
+      const updated = await storage.updateReservationStatus(reservation.id, status);
+      if (!updated) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+      await recordOwnerReservationChange(storage, reservation, updated, { id: req.session.userId });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating reservation:", error);
+      res.status(500).json({ error: "Failed to update reservation" });
+    }
+  });
+
+  // The owner dragging a booking onto other tables on the floor plan
+  app.patch("/api/reservations/:id/tables", requireRole("owner"), async (req: any, res) => {
+    try {
+      const reservation = await storage.getReservation(req.params.id);
+      if (!reservation) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+
+      const { tableIds } = reservationTablesSchema.parse(req.body);
+      const moved = await moveReservation(storage, reservation, tableIds);
+      await recordOwnerReservationChange(storage, reservation, moved, { id: req.session.userId });
+      res.json(moved);
+    } catch (error: any) {
+      console.error("Error moving reservation:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid tables", details: error.errors });
+      }
+      if (error instanceof ReservationError) {
+        return res.status(409).json({ error: error.message });
+      }
+      if (error instanceof StorageUnavailableError) {
+        return res.status(503).json({ error: "We couldn't check the day's bookings right now. Please try again." });
+      }
+      res.status(500).json({ error: "Failed to move reservation" });
+    }
+  });
+
+  // Walk-in waitlist: staff run it from the dashboard, guests follow their place through their link
+  app.get("/api/waitlist", requireRole("owner"), async (req, res) => {
+    try {
+      res.json(await getWaitlist(storage));
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ error: "Failed to fetch waitlist" });
+    }
+  });
+
+  app.post("/api/waitlist", requireRole("owner"), async (req, res) => {
+    try {
+      const entry = await addToWaitlist(storage, insertWaitlistEntrySchema.parse(req.body), `${req.protocol}://${req.get("host")}`);
+      res.status(201).json(entry);
+    } catch (error: any) {
+      console.error("Error adding to waitlist:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid waitlist entry", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to add to waitlist" });
+    }
+  });
+
+  app.get("/api/waitlist/track/:token", async (req, res) => {
+    try {
+      const entry = await storage.getWaitlistEntryByToken(req.params.token);
+      if (!entry) {
+        return res.status(404).json({ error: "Waitlist entry not found" });
+      }
+      // Entries from earlier days are no longer in today's queue
+      const queued = (await getWaitlist(storage)).find(other => other.id === entry.id) ?? { ...entry, place: null };
+      res.json(toTrackedWaitlistEntry(queued));
+    } catch (error) {
+      console.error("Error tracking waitlist entry:", error);
+      res.status(500).json({ error: "Failed to fetch waitlist entry" });
+    }
+  });
+
+  app.post("/api/waitlist/:id/notify", requireRole("owner"), async (req, res) => {
+    try {
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Waitlist entry not found" });
+      }
+      res.json(await notifyWaitlistEntry(storage, entry, `${req.protocol}://${req.get("host")}`));
+    } catch (error: any) {
+      console.error("Error notifying waitlist entry:", error);
+      if (error instanceof WaitlistError) {
+        return res.status(409).json({ error: error.message });
+      }
+      if (error instanceof NotificationError) {
+        return res.status(502).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to notify guest" });
+    }
+  });
+
+  // Seat the party, or take it off the list when it left
+  app.patch("/api/waitlist/:id", requireRole("owner"), async (req, res) => {
+    try {
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Waitlist entry not found" });
+      }
+      const { status } = waitlistClosingSchema.parse(req.body);
+      res.json(await closeWaitlistEntry(storage, entry, status));
+    } catch (error: any) {
+      console.error("Error updating waitlist entry:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Status must be 'seated' or 'left'", details: error.errors });
+      }
+      if (error instanceof WaitlistError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update waitlist entry" });
+    }
+  });
+
+  app.get("/api/tables", requireRole("owner"), async (req, res) => {
+    try {
+      res.json(await storage.getRestaurantTables());
+    } catch (error) {
+      console.error("Error fetching tables:", error);
+      res.status(500).json({ error: "Failed to fetch tables" });
+    }
+  });
+
+  app.post("/api/tables", requireRole("owner"), async (req, res) => {
+    try {
+      const table = await storage.createRestaurantTable(insertRestaurantTableSchema.parse(req.body));
+      res.status(201).json(table);
+    } catch (error: any) {
+      console.error("Error creating table:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid table", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create table" });
+    }
+  });
+
+  app.put("/api/tables/:id", requireRole("owner"), async (req, res) => {
+    try {
+      const table = await storage.updateRestaurantTable(req.params.id, insertRestaurantTableSchema.parse(req.body));
+      if (!table) {
+        return res.status(404).json({ error: "Table not found" });
+      }
+      res.json(table);
+    } catch (error: any) {
+      console.error("Error updating table:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid table", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update table" });
+    }
+  });
+
+  app.delete("/api/tables/:id", requireRole("owner"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteRestaurantTable(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Table not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting table:", error);
+      res.status(500).json({ error: "Failed to delete table" });
+    }
+  });
+
   // Orders endpoints
   app.get("/api/orders", requireAuth, async (req: any, res) => {
     try {
@@ -433,14 +791,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Owner sees all orders
         orders = await storage.getOrders();
       } else if (user.role === "livreur") {
-        // Livreur sees pending orders + their assigned orders
-        const pendingOrders = await storage.getPendingOrders();
+        // Livreur sees open (unclaimed) orders + their assigned orders, open ones only once released and
+        // while they are online and on shift
+        const pendingOrders = (await isAvailableNow(storage, user))
+          ? (await storage.getPendingOrders()).filter(order => isVisibleToLivreur(user, order, true))
+          : [];
         const assignedOrders = await storage.getOrdersByLivreur(user.id);
 
         // Combine and remove duplicates
         const orderMap = new Map();
         [...pendingOrders, ...assignedOrders].forEach(order => {
-          orderMap.set(order.id, order);
+          orderMap.set(order.id, hideHandoverCode(order));
         });
         orders = Array.from(orderMap.values());
       } else {
@@ -454,24 +815,172 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Pickup/delivery time slots for a restaurant calendar day (defaults to today)
+  app.get("/api/orders/slots", async (req, res) => {
+    try {
+      const date = typeof req.query.date === "string" ? req.query.date : restaurantDate(new Date());
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ error: "Invalid date, expected YYYY-MM-DD" });
+      }
+
+      const slots = await getOrderSlots(storage, date);
+      res.json({ date, openNow: isOpenAt(new Date()), slots });
+    } catch (error) {
+      console.error("Error fetching order slots:", error);
+      res.status(500).json({ error: "Failed to fetch order slots" });
+    }
+  });
+
+  // Live order changes for dashboards, filtered with the same rules as GET /api/orders
+  app.get("/api/orders/stream", requireAuth, async (req: any, res) => {
+    try {
+      const user = await storage.getUserById(req.session.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      openOrderStream(res, user, () => checkLivreurAvailable(storage, user.id));
+    } catch (error) {
+      console.error("Error opening order stream:", error);
+      res.status(500).json({ error: "Failed to open order stream" });
+    }
+  });
+
   app.post("/api/orders", async (req: any, res) => {
     try {
       const userId = req.session?.userId;
+      // A saved address replaces whatever address fields came with it; a new one must be a structured address
+      const isDelivery = req.body.orderType === "delivery";
+      const savedAddress = isDelivery && req.body.addressId
+        ? await snapshotSavedAddress(storage, userId, req.body.addressId)
+        : null;
+      const addressParts = isDelivery && !savedAddress ? algerianAddressSchema.parse(req.body.addressParts) : null;
+      const deliveryFields = savedAddress ?? {
+        deliveryAddress: addressParts ? formatAlgerianAddress(addressParts) : null,
+        deliveryLat: req.body.deliveryLat,
+        deliveryLng: req.body.deliveryLng,
+        addressParts,
+      };
+      const delivery = isDelivery
+        ? await quoteDelivery(storage, deliveryLocationSchema.parse({
+            lat: deliveryFields.deliveryLat,
+            lng: deliveryFields.deliveryLng,
+            address: deliveryFields.deliveryAddress,
+            commune: deliveryFields.addressParts?.commune,
+          }))
+        : null;
+      if (delivery) assertDeliverable(delivery);
+
+      const pricing = await priceOrder(storage, req.body.items, delivery ? parseFloat(delivery.fee) : 0, req.body.totalAmount);
+      if (delivery) assertDeliverable(withMinimumOrderCheck(delivery, pricing.subtotal));
+
       const validatedData = insertOrderSchema.parse({
         ...req.body,
+        deliveryAddress: deliveryFields.deliveryAddress,
+        addressParts: deliveryFields.addressParts,
+        totalAmount: formatAmount(pricing.totalAmount),
+        deliveryFee: formatAmount(pricing.deliveryFee),
+        // Geocoded addresses get their coordinates stored for the livreur
+        deliveryLat: delivery?.point.lat ?? null,
+        deliveryLng: delivery?.point.lng ?? null,
+        deliveryZoneId: delivery?.zoneId ?? null,
         userId: userId || null,
       });
-      const order = await storage.createOrder(validatedData);
+      const order = await placeOrder(storage, validatedData, pricing.items);
+
+      const creator = userId ? await storage.getUserById(userId) : undefined;
+      await storage.createOrderEvent({
+        orderId: order.id,
+        actorUserId: creator?.id ?? null,
+        actorRole: creator?.role ?? null,
+        fromStatus: null,
+        toStatus: order.status,
+        note: null,
+      });
+
+      publishOrderChange("order.created", order);
       res.status(201).json(order);
     } catch (error: any) {
       console.error("Error creating order:", error);
       if (error.name === "ZodError") {
         return res.status(400).json({ error: "Invalid order data", details: error.errors });
       }
+      if (error instanceof OrderPricingError) {
+        return res.status(422).json({ error: error.message, details: error.issues });
+      }
+      if (error instanceof OrderScheduleError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof StorageUnavailableError) {
+        return res.status(503).json({ error: "We couldn't check this time slot right now. Please try again." });
+      }
+      if (error instanceof DeliveryQuoteError) {
+        return res.status(422).json({ error: error.message, quote: error.quote });
+      }
+      if (error instanceof CustomerAddressError) {
+        return res.status(422).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to create order" });
     }
   });
 
+  // Public order tracking for guests; the token from order creation is the only credential
+  app.get("/api/orders/track/:token", async (req, res) => {
+    try {
+      const order = await storage.getOrderByTrackingToken(req.params.token);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const [events, livreur] = await Promise.all([
+        storage.getOrderEvents(order.id),
+        order.livreurId ? storage.getUserById(order.livreurId) : Promise.resolve(undefined),
+      ]);
+
+      res.json(toTrackedOrder(order, events, livreur, getDriverLocation(order.id)));
+    } catch (error) {
+      console.error("Error tracking order:", error);
+      res.status(500).json({ error: "Failed to fetch order" });
+    }
+  });
+
+  // Guests holding the tracking link can cancel or edit their order while it is pending
+  app.patch("/api/orders/track/:token", async (req, res) => {
+    try {
+      const order = await storage.getOrderByTrackingToken(req.params.token);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const updatedOrder = await applyCustomerOrderChange(storage, order, req.body);
+      if (!updatedOrder) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const [events, livreur] = await Promise.all([
+        storage.getOrderEvents(updatedOrder.id),
+        updatedOrder.livreurId ? storage.getUserById(updatedOrder.livreurId) : Promise.resolve(undefined),
+      ]);
+
+      res.json(toTrackedOrder(updatedOrder, events, livreur, getDriverLocation(updatedOrder.id)));
+    } catch (error: any) {
+      console.error("Error updating tracked order:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid order change", details: error.errors });
+      }
+      if (error instanceof OrderPricingError) {
+        return res.status(422).json({ error: error.message, details: error.issues });
+      }
+      if (error instanceof DeliveryQuoteError) {
+        return res.status(422).json({ error: error.message, quote: error.quote });
+      }
+      if (error instanceof OrderChangeRejectedError) {
+        return res.status(409).json({ error: error.message, currentStatus: error.currentStatus });
+      }
+      res.status(500).json({ error: "Failed to update order" });
+    }
+  });
+
   app.patch("/api/orders/:id", requireAuth, async (req: any, res) => {
     try {
       const user = await storage.getUserById(req.session.userId);
@@ -485,43 +994,691 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       if (user.role === "livreur" || user.role === "owner") {
+        const role = user.role as UserRole;
         const updates: any = { updatedAt: new Date() };
 
+        // Livreurs may only move orders assigned to them, apart from claiming an open one
+        if (role === "livreur" && order.livreurId && order.livreurId !== user.id) {
+          return res.status(403).json({ error: "Order is assigned to another livreur" });
+        }
+
+        // A livreur moving an unassigned order takes it on first, with the same checks as an explicit claim
+        let current = order;
+        if (role === "livreur" && !order.livreurId && req.body.status) {
+          const claimed = await claimOrder(storage, order, user);
+          if (!claimed) {
+            return res.status(404).json({ error: "Order not found" });
+          }
+          current = claimed;
+        }
+
         // Handle status updates
         if (req.body.status) {
-          updates.status = req.body.status;
+          const allowedStatuses = getAllowedOrderStatuses(current.status, role);
+          const parsedStatus = orderStatusSchema.safeParse(req.body.status);
+          if (!parsedStatus.success) {
+            return res.status(400).json({ error: "Invalid order status", allowedStatuses });
+          }
+
+          const status = parsedStatus.data;
+          // Claiming a pending order already confirmed it
+          if (status === current.status && current !== order) {
+            return res.json(hideHandoverCode(current));
+          }
+          if (!canTransitionOrder(current.status, status, role)) {
+            return res.status(409).json({
+              error: `Cannot move order from '${current.status}' to '${status}'`,
+              currentStatus: current.status,
+              allowedStatuses,
+            });
+          }
+
+          updates.status = status;
+
+          // Delivery orders need the customer's handover code or a photo before they count as delivered
+          if (status === "delivered" && current.orderType === "delivery") {
+            updates.deliveryProof = await buildDeliveryProof(storage, current, req.body, user);
+            // Cash on delivery: the livreur says what they took from the customer, settled later with the owner
+            Object.assign(updates, readCashCollection(req.body, role === "livreur"));
+          }
+
+          // Every status change refreshes the customer's ETA against the kitchen as it is now
+          updates.estimatedAt = await computeOrderEta(storage, { ...current, status });
+        }
+
+        // Status changes only go through if nobody moved the order since we read it
+        const updatedOrder = updates.status
+          ? await storage.updateOrderIfStatus(req.params.id, current.status, updates)
+          : await storage.updateOrder(req.params.id, updates);
+
+        if (!updatedOrder && updates.status) {
+          const latest = await storage.getOrder(req.params.id);
+          if (latest) {
+            return res.status(409).json({
+              error: `Order was just moved to '${latest.status}'`,
+              currentStatus: latest.status,
+              allowedStatuses: getAllowedOrderStatuses(latest.status, role),
+            });
+          }
+        }
+
+        if (updatedOrder && updates.status) {
+          await storage.createOrderEvent({
+            orderId: order.id,
+            actorUserId: user.id,
+            actorRole: user.role,
+            fromStatus: current.status,
+            toStatus: updates.status,
+            note: typeof req.body.note === "string" && req.body.note.trim() ? req.body.note.trim() : null,
+          });
+        }
 
-          // If confirming order and it's a livreur, assign them
-          if (req.body.status === 'confirmed' && user.role === "livreur" && !order.livreurId) {
-            updates.livreurId = user.id;
+        if (updatedOrder) {
+          // Positions are only shared while the order is on its way
+          if (updatedOrder.status !== "out_for_delivery") {
+            clearDriverLocation(updatedOrder.id);
           }
+          publishOrderChange("order.updated", updatedOrder, current);
         }
 
-        const updatedOrder = await storage.updateOrder(req.params.id, updates);
+        return res.json(updatedOrder && role === "livreur" ? hideHandoverCode(updatedOrder) : updatedOrder);
+      }
+
+      if (user.role === "client") {
+        if (order.userId !== user.id) {
+          return res.status(403).json({ error: "Not authorized to update this order" });
+        }
+        const updatedOrder = await applyCustomerOrderChange(storage, order, req.body, user);
+        if (!updatedOrder) {
+          return res.status(404).json({ error: "Order not found" });
+        }
         return res.json(updatedOrder);
       }
 
       return res.status(403).json({ error: "Not authorized to update orders" });
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error updating order:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid order change", details: error.errors });
+      }
+      if (error instanceof OrderPricingError) {
+        return res.status(422).json({ error: error.message, details: error.issues });
+      }
+      if (error instanceof DeliveryQuoteError) {
+        return res.status(422).json({ error: error.message, quote: error.quote });
+      }
+      if (error instanceof OrderChangeRejectedError) {
+        return res.status(409).json({ error: error.message, currentStatus: error.currentStatus });
+      }
+      if (error instanceof DeliveryProofError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof OrderDispatchError) {
+        return res.status(409).json({ error: error.message, currentLivreurId: error.currentLivreurId });
+      }
       res.status(500).json({ error: "Failed to update order" });
     }
   });
 
-  app.get("/api/users", requireRole("owner"), async (req, res) => {
+  app.post("/api/orders/:id/claim", requireRole("livreur"), async (req: any, res) => {
     try {
-      const users = await storage.getAllUsers();
-      const usersWithoutPasswords = users.map(({ password, ...user }) => user);
-      res.json(usersWithoutPasswords);
-    } catch (error) {
-      console.error("Error fetching users:", error);
-      res.status(500).json({ error: "Failed to fetch users" });
-    }
-  });
+      const user = await storage.getUserById(req.session.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
 
-  app.post("/api/users/create-staff", requireRole("owner"), async (req: any, res) => {
-    try {
-      const { email, password, name, phone, role } = req.body;
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const updatedOrder = await claimOrder(storage, order, user);
+      if (!updatedOrder) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(hideHandoverCode(updatedOrder));
+    } catch (error: any) {
+      console.error("Error claiming order:", error);
+      if (error instanceof OrderDispatchError) {
+        return res.status(409).json({ error: error.message, currentLivreurId: error.currentLivreurId });
+      }
+      res.status(500).json({ error: "Failed to claim order" });
+    }
+  });
+
+  // Assign or reassign a livreur; reassigning needs a reason, which goes into the order history
+  app.post("/api/orders/:id/assign", requireRole("owner"), async (req: any, res) => {
+    try {
+      const { livreurId, reason } = orderAssignmentSchema.parse(req.body);
+      const [owner, livreur, order] = await Promise.all([
+        storage.getUserById(req.session.userId),
+        storage.getUserById(livreurId),
+        storage.getOrder(req.params.id),
+      ]);
+      if (!owner) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (!livreur || livreur.role !== "livreur") {
+        return res.status(400).json({ error: "Unknown livreur" });
+      }
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const updatedOrder = await assignOrder(storage, order, livreur, owner, reason || undefined);
+      if (!updatedOrder) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(updatedOrder);
+    } catch (error: any) {
+      console.error("Error assigning order:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid assignment", details: error.errors });
+      }
+      if (error instanceof OrderDispatchError) {
+        return res.status(409).json({ error: error.message, currentLivreurId: error.currentLivreurId });
+      }
+      res.status(500).json({ error: "Failed to assign order" });
+    }
+  });
+
+  app.post("/api/orders/:id/unassign", requireRole("owner"), async (req: any, res) => {
+    try {
+      const { reason } = orderUnassignmentSchema.parse(req.body);
+      const [owner, order] = await Promise.all([
+        storage.getUserById(req.session.userId),
+        storage.getOrder(req.params.id),
+      ]);
+      if (!owner) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const updatedOrder = await unassignOrder(storage, order, owner, reason);
+      if (!updatedOrder) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(updatedOrder);
+    } catch (error: any) {
+      console.error("Error unassigning order:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid unassignment", details: error.errors });
+      }
+      if (error instanceof OrderDispatchError) {
+        return res.status(409).json({ error: error.message, currentLivreurId: error.currentLivreurId });
+      }
+      res.status(500).json({ error: "Failed to unassign order" });
+    }
+  });
+
+  // Position pings from the livreur's browser while the order is out for delivery
+  app.post("/api/orders/:id/location", requireRole("livreur"), async (req: any, res) => {
+    try {
+      const ping = driverLocationPingSchema.parse(req.body);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (order.livreurId !== req.session.userId) {
+        return res.status(403).json({ error: "Order is assigned to another livreur" });
+      }
+      if (order.status !== "out_for_delivery") {
+        return res.status(409).json({ error: "Location is only shared while the order is out for delivery", currentStatus: order.status });
+      }
+
+      const accepted = recordDriverLocation(order.id, ping);
+      res.json({ accepted, location: getDriverLocation(order.id) });
+    } catch (error: any) {
+      console.error("Error recording driver location:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid location", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to record location" });
+    }
+  });
+
+  app.get("/api/orders/:id/location", requireAuth, async (req: any, res) => {
+    try {
+      const user = await storage.getUserById(req.session.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const canView = user.role === "owner" || order.livreurId === user.id || order.userId === user.id;
+      if (!canView) {
+        return res.status(403).json({ error: "Not authorized to view this order" });
+      }
+
+      res.json({ location: order.status === "out_for_delivery" ? getDriverLocation(order.id) : null });
+    } catch (error) {
+      console.error("Error fetching driver location:", error);
+      res.status(500).json({ error: "Failed to fetch driver location" });
+    }
+  });
+
+  app.get("/api/orders/:id/history", requireAuth, async (req: any, res) => {
+    try {
+      const user = await storage.getUserById(req.session.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const canView =
+        user.role === "owner" ||
+        (user.role === "livreur" && (order.livreurId === user.id || isOrderOpenForClaim(order))) ||
+        order.userId === user.id;
+      if (!canView) {
+        return res.status(403).json({ error: "Not authorized to view this order" });
+      }
+
+      const events = await storage.getOrderEvents(order.id);
+      const actorNames = new Map<number, string>();
+      for (const event of events) {
+        if (event.actorUserId && !actorNames.has(event.actorUserId)) {
+          const actor = await storage.getUserById(event.actorUserId);
+          if (actor) actorNames.set(actor.id, actor.name);
+        }
+      }
+
+      res.json(events.map(event => ({
+        ...event,
+        actorName: event.actorUserId ? actorNames.get(event.actorUserId) ?? null : null,
+      })));
+    } catch (error) {
+      console.error("Error fetching order history:", error);
+      res.status(500).json({ error: "Failed to fetch order history" });
+    }
+  });
+
+  // Delivery fee for a point or address; pass the cart subtotal to also check the zone's minimum order
+  app.post("/api/delivery/quote", async (req, res) => {
+    try {
+      // Address quotes go to a shared public geocoder, so anonymous visitors get a few per minute
+      if (!takeQuoteRequest(req.ip ?? "unknown")) {
+        return res.status(429).json({ error: "Too many delivery checks. Please wait a minute and try again." });
+      }
+      const location = deliveryLocationSchema.parse(req.body);
+      const subtotal = req.body.subtotal != null ? parseFloat(String(req.body.subtotal)) : undefined;
+      const quote = await quoteDelivery(storage, location, subtotal !== undefined && !isNaN(subtotal) ? subtotal : undefined);
+      res.json(quote);
+    } catch (error: any) {
+      console.error("Error quoting delivery:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid delivery location", details: error.errors });
+      }
+      if (error instanceof DeliveryQuoteError) {
+        return res.status(422).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to quote delivery" });
+    }
+  });
+
+  // Ready orders close enough together to deliver in one run, each with a suggested visiting order
+  app.get("/api/delivery/batches", requireRole("livreur"), async (req: any, res) => {
+    try {
+      const livreur = await storage.getUserById(req.session.userId);
+      if (!livreur) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(await getBatchSuggestions(storage, livreur));
+    } catch (error) {
+      console.error("Error suggesting delivery batches:", error);
+      res.status(500).json({ error: "Failed to suggest delivery batches" });
+    }
+  });
+
+  app.post("/api/delivery/batches", requireRole("livreur"), async (req: any, res) => {
+    try {
+      const livreur = await storage.getUserById(req.session.userId);
+      if (!livreur) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.status(201).json(await acceptDeliveryBatch(storage, livreur, req.body));
+    } catch (error: any) {
+      console.error("Error accepting delivery batch:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid delivery batch", details: error.errors });
+      }
+      if (error instanceof DeliveryBatchError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to accept delivery batch" });
+    }
+  });
+
+  app.get("/api/delivery/zones", requireRole("owner"), async (req, res) => {
+    try {
+      const [zones, settings] = await Promise.all([
+        storage.getDeliveryZones(),
+        storage.getDeliverySettings(),
+      ]);
+      res.json({ zones, settings });
+    } catch (error) {
+      console.error("Error fetching delivery zones:", error);
+      res.status(500).json({ error: "Failed to fetch delivery zones" });
+    }
+  });
+
+  app.post("/api/delivery/zones", requireRole("owner"), async (req, res) => {
+    try {
+      const zone = await storage.createDeliveryZone(insertDeliveryZoneSchema.parse(req.body));
+      res.status(201).json(zone);
+    } catch (error: any) {
+      console.error("Error creating delivery zone:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid delivery zone", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create delivery zone" });
+    }
+  });
+
+  app.put("/api/delivery/zones/:id", requireRole("owner"), async (req, res) => {
+    try {
+      const zone = await storage.updateDeliveryZone(req.params.id, insertDeliveryZoneSchema.parse(req.body));
+      if (!zone) {
+        return res.status(404).json({ error: "Delivery zone not found" });
+      }
+      res.json(zone);
+    } catch (error: any) {
+      console.error("Error updating delivery zone:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid delivery zone", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update delivery zone" });
+    }
+  });
+
+  app.delete("/api/delivery/zones/:id", requireRole("owner"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteDeliveryZone(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Delivery zone not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting delivery zone:", error);
+      res.status(500).json({ error: "Failed to delete delivery zone" });
+    }
+  });
+
+  app.put("/api/delivery/settings", requireRole("owner"), async (req, res) => {
+    try {
+      const settings = await storage.updateDeliverySettings(updateDeliverySettingsSchema.parse(req.body));
+      res.json(settings);
+    } catch (error: any) {
+      console.error("Error updating delivery settings:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid delivery settings", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update delivery settings" });
+    }
+  });
+
+  // Who is online and on shift right now, with how many orders each one is carrying
+  app.get("/api/livreurs/availability", requireRole("owner"), async (req, res) => {
+    try {
+      res.json(await getLivreurAvailabilities(storage));
+    } catch (error) {
+      console.error("Error fetching livreur availability:", error);
+      res.status(500).json({ error: "Failed to fetch livreur availability" });
+    }
+  });
+
+  app.get("/api/livreurs/me/availability", requireRole("livreur"), async (req: any, res) => {
+    try {
+      const livreur = await storage.getUserById(req.session.userId);
+      if (!livreur) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const [availability, shifts] = await Promise.all([
+        getLivreurAvailability(storage, livreur),
+        storage.getLivreurShifts(livreur.id),
+      ]);
+      res.json({ ...availability, shifts });
+    } catch (error) {
+      console.error("Error fetching livreur availability:", error);
+      res.status(500).json({ error: "Failed to fetch availability" });
+    }
+  });
+
+  // The livreur switches themselves online or offline
+  app.put("/api/livreurs/me/online", requireRole("livreur"), async (req: any, res) => {
+    try {
+      const livreur = await setLivreurOnline(storage, { id: req.session.userId }, req.body);
+      if (!livreur) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(await getLivreurAvailability(storage, livreur));
+    } catch (error: any) {
+      console.error("Error updating online status:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid online status", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update online status" });
+    }
+  });
+
+  app.get("/api/livreurs/shifts", requireRole("owner"), async (req, res) => {
+    try {
+      res.json(await storage.getLivreurShifts());
+    } catch (error) {
+      console.error("Error fetching livreur shifts:", error);
+      res.status(500).json({ error: "Failed to fetch livreur shifts" });
+    }
+  });
+
+  app.post("/api/livreurs/shifts", requireRole("owner"), async (req, res) => {
+    try {
+      const input = insertLivreurShiftSchema.parse(req.body);
+      const livreur = await storage.getUserById(input.livreurId);
+      if (!livreur || livreur.role !== "livreur") {
+        return res.status(404).json({ error: "Livreur not found" });
+      }
+      const shift = await storage.createLivreurShift(input);
+      publishAvailabilityChange(shift.livreurId);
+      res.status(201).json(shift);
+    } catch (error: any) {
+      console.error("Error creating livreur shift:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid shift", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create livreur shift" });
+    }
+  });
+
+  app.delete("/api/livreurs/shifts/:id", requireRole("owner"), async (req, res) => {
+    try {
+      const shift = (await storage.getLivreurShifts()).find(s => s.id === req.params.id);
+      if (!shift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+      await storage.deleteLivreurShift(shift.id);
+      publishAvailabilityChange(shift.livreurId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting livreur shift:", error);
+      res.status(500).json({ error: "Failed to delete livreur shift" });
+    }
+  });
+
+  // Cash in hand for every livreur: delivered orders not covered by a settlement yet
+  app.get("/api/cash/balances", requireRole("owner"), async (req, res) => {
+    try {
+      res.json(await getCashBalances(storage));
+    } catch (error) {
+      console.error("Error fetching cash balances:", error);
+      res.status(500).json({ error: "Failed to fetch cash balances" });
+    }
+  });
+
+  // The livreur's own cash in hand
+  app.get("/api/cash/me", requireRole("livreur"), async (req: any, res) => {
+    try {
+      const livreur = await storage.getUserById(req.session.userId);
+      if (!livreur) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(buildCashReport(livreur, await storage.getUnsettledCashOrders(livreur.id)));
+    } catch (error) {
+      console.error("Error fetching cash in hand:", error);
+      res.status(500).json({ error: "Failed to fetch cash in hand" });
+    }
+  });
+
+  // The open shift of one livreur, as the owner sees it before settling
+  app.get("/api/cash/livreurs/:id", requireRole("owner"), async (req, res) => {
+    try {
+      const livreur = await storage.getUserById(parseInt(req.params.id, 10));
+      if (!livreur || livreur.role !== "livreur") {
+        return res.status(404).json({ error: "Livreur not found" });
+      }
+      res.json(buildCashReport(livreur, await storage.getUnsettledCashOrders(livreur.id)));
+    } catch (error) {
+      console.error("Error fetching cash report:", error);
+      res.status(500).json({ error: "Failed to fetch cash report" });
+    }
+  });
+
+  app.post("/api/cash/livreurs/:id/settle", requireRole("owner"), async (req: any, res) => {
+    try {
+      const [owner, livreur] = await Promise.all([
+        storage.getUserById(req.session.userId),
+        storage.getUserById(parseInt(req.params.id, 10)),
+      ]);
+      if (!owner) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (!livreur || livreur.role !== "livreur") {
+        return res.status(404).json({ error: "Livreur not found" });
+      }
+      res.status(201).json(await settleLivreurCash(storage, livreur, owner, req.body));
+    } catch (error: any) {
+      console.error("Error settling cash:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid settlement", details: error.errors });
+      }
+      if (error instanceof CashSettlementError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to settle cash" });
+    }
+  });
+
+  // Past shift reports, newest first
+  app.get("/api/cash/settlements", requireRole("owner"), async (req, res) => {
+    try {
+      const livreurId = typeof req.query.livreurId === "string" ? parseInt(req.query.livreurId, 10) : undefined;
+      const [settlements, users] = await Promise.all([
+        storage.getCashSettlements(livreurId !== undefined && !isNaN(livreurId) ? livreurId : undefined),
+        storage.getAllUsers(),
+      ]);
+      const reports = await Promise.all(settlements.map(async settlement => {
+        const livreur = users.find(u => u.id === settlement.livreurId) ?? { id: settlement.livreurId, name: "Former livreur" };
+        return buildCashReport(livreur, await storage.getOrdersBySettlement(settlement.id), settlement);
+      }));
+      res.json(reports);
+    } catch (error) {
+      console.error("Error fetching cash settlements:", error);
+      res.status(500).json({ error: "Failed to fetch cash settlements" });
+    }
+  });
+
+  // Delivered orders by commune over the last `days` days (30 by default)
+  app.get("/api/reports/communes", requireRole("owner"), async (req, res) => {
+    try {
+      const { days } = communeReportQuerySchema.parse(req.query);
+      res.json(buildCommuneReport(await storage.getOrders(), days));
+    } catch (error: any) {
+      console.error("Error building commune report:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid report period", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to build commune report" });
+    }
+  });
+
+  // Address book of the signed-in customer
+  app.get("/api/me/addresses", requireAuth, async (req: any, res) => {
+    try {
+      res.json(await storage.getCustomerAddresses(req.session.userId));
+    } catch (error) {
+      console.error("Error fetching addresses:", error);
+      res.status(500).json({ error: "Failed to fetch addresses" });
+    }
+  });
+
+  app.post("/api/me/addresses", requireAuth, async (req: any, res) => {
+    try {
+      const address = await storage.createCustomerAddress(req.session.userId, insertCustomerAddressSchema.parse(req.body));
+      res.status(201).json(address);
+    } catch (error: any) {
+      console.error("Error creating address:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid address", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save address" });
+    }
+  });
+
+  app.put("/api/me/addresses/:id", requireAuth, async (req: any, res) => {
+    try {
+      const input = insertCustomerAddressSchema.parse(req.body);
+      if (!(await getOwnAddress(storage, req.session.userId, req.params.id))) {
+        return res.status(404).json({ error: "Address not found" });
+      }
+      const address = await storage.updateCustomerAddress(req.params.id, input);
+      if (!address) {
+        return res.status(404).json({ error: "Address not found" });
+      }
+      res.json(address);
+    } catch (error: any) {
+      console.error("Error updating address:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid address", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update address" });
+    }
+  });
+
+  app.delete("/api/me/addresses/:id", requireAuth, async (req: any, res) => {
+    try {
+      if (!(await getOwnAddress(storage, req.session.userId, req.params.id))) {
+        return res.status(404).json({ error: "Address not found" });
+      }
+      await storage.deleteCustomerAddress(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting address:", error);
+      res.status(500).json({ error: "Failed to delete address" });
+    }
+  });
+
+  app.get("/api/users", requireRole("owner"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      const usersWithoutPasswords = users.map(({ password, ...user }) => user);
+      res.json(usersWithoutPasswords);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users/create-staff", requireRole("owner"), async (req: any, res) => {
+    try {
+      const { email, password, name, phone, role } = req.body;
 
       if (!email || !password || !name || !role) {
         return res.status(400).json({ error: 'Email, password, name, and role are required' });
@@ -555,6 +1712,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  startScheduledOrderReleases(storage);
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,9 @@
+// Errors storage implementations throw; kept out of storage.ts, which imports firestore-storage.ts, to avoid a cycle
+
+// A capacity check couldn't read what is already booked, so nothing was written; the request can be retried
+export class StorageUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageUnavailableError";
+  }
+}
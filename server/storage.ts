@@ -5,12 +5,40 @@ import {
   type InsertMenuItem,
   type Reservation,
   type InsertReservation,
+  type ReservationSettings,
+  type ReservationStatus,
+  type ReservationEvent,
+  type InsertReservationEvent,
+  type RestaurantTable,
+  type InsertRestaurantTable,
+  type WaitlistEntry,
+  type InsertWaitlistEntry,
+  type UpdateReservationSettings,
   type Order,
+  type OrderStatus,
   type InsertOrder,
+  type OrderItem,
+  type InsertOrderItem,
+  type OrderWithItems,
+  type OrderEvent,
+  type InsertOrderEvent,
+  type DeliveryZone,
+  type InsertDeliveryZone,
+  type DeliverySettings,
+  type UpdateDeliverySettings,
+  type CashSettlement,
+  type InsertCashSettlement,
+  type LivreurShift,
+  type InsertLivreurShift,
+  type CustomerAddress,
+  type InsertCustomerAddress,
   type User,
   type InsertUser
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { generateTrackingToken, generateHandoverCode } from "./order-tracking";
+import { defaultDeliverySettings } from "./delivery-quote";
+import { defaultReservationSettings } from "./reservation-availability";
 
 export interface IStorage {
   // Users
@@ -19,6 +47,7 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
+  setUserOnline(id: number, online: boolean): Promise<User | undefined>;
 
   // Categories
   getCategories(): Promise<Category[]>;
@@ -33,16 +62,123 @@ export interface IStorage {
 
   // Reservations
   getReservations(): Promise<Reservation[]>;
-  createReservation(reservation: InsertReservation): Promise<Reservation>;
+  getReservationsByDate(date: string): Promise<Reservation[]>;
+  getReservation(id: string): Promise<Reservation | undefined>;
+  // Writes only if `place` finds room among the reservations already on that date, checked atomically with the
+  // write, and stores the tables it picked; undefined when there is no room
+  createReservation(
+    reservation: InsertReservation,
+    place: (sameDay: Reservation[]) => Pick<Reservation, "tableIds"> | undefined,
+  ): Promise<Reservation | undefined>;
+  updateReservationStatus(id: string, status: ReservationStatus): Promise<Reservation | undefined>;
+  // Same all-or-nothing check as createReservation; undefined if the reservation is gone or `fits` refuses
+  updateReservationTables(id: string, tableIds: string[], fits: (sameDay: Reservation[]) => boolean): Promise<Reservation | undefined>;
+  getReservationByManageToken(token: string): Promise<Reservation | undefined>;
+  // Moves a booking to another date, time or party size with the same all-or-nothing check as createReservation;
+  // `place` sees every reservation on the new date, this one included
+  rescheduleReservation(
+    id: string,
+    updates: Pick<Reservation, "date" | "time" | "partySize" | "status" | "guestChangedAt">,
+    place: (sameDay: Reservation[]) => Pick<Reservation, "tableIds"> | undefined,
+  ): Promise<Reservation | undefined>;
+  getReservationSettings(): Promise<ReservationSettings>;
+  updateReservationSettings(updates: UpdateReservationSettings): Promise<ReservationSettings>;
+
+  // Reservation Events
+  getReservationEvents(reservationId: string): Promise<ReservationEvent[]>;
+  createReservationEvent(event: InsertReservationEvent): Promise<ReservationEvent>;
+
+  // Restaurant Tables
+  getRestaurantTables(): Promise<RestaurantTable[]>;
+  createRestaurantTable(table: InsertRestaurantTable): Promise<RestaurantTable>;
+  updateRestaurantTable(id: string, table: InsertRestaurantTable): Promise<RestaurantTable | undefined>;
+  deleteRestaurantTable(id: string): Promise<boolean>;
+
+  // Waitlist
+  getWaitlistEntriesSince(since: Date): Promise<WaitlistEntry[]>;
+  getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined>;
+  getWaitlistEntryByToken(token: string): Promise<WaitlistEntry | undefined>;
+  createWaitlistEntry(entry: InsertWaitlistEntry, quotedMinutes: number): Promise<WaitlistEntry>;
+  updateWaitlistEntry(
+    id: string,
+    updates: Partial<Pick<WaitlistEntry, "status" | "notifiedAt" | "seatedAt">>,
+  ): Promise<WaitlistEntry | undefined>;
 
   // Orders
-  getOrders(): Promise<Order[]>;
-  getOrder(id: string): Promise<Order | undefined>;
-  createOrder(order: InsertOrder): Promise<Order>;
-  updateOrder(id: string, updates: Partial<Order>): Promise<Order | undefined>;
-  getOrdersByUser(userId: number): Promise<Order[]>;
-  getOrdersByLivreur(livreurId: number): Promise<Order[]>;
-  getPendingOrders(): Promise<Order[]>;
+  getOrders(): Promise<OrderWithItems[]>;
+  getOrder(id: string): Promise<OrderWithItems | undefined>;
+  // Scheduled orders are written only if `fits` accepts the orders already in their slot, checked atomically
+  // with the write; undefined when it refuses, StorageUnavailableError when the slot can't be read.
+  // Orders for as soon as possible are always written.
+  createOrder(
+    order: InsertOrder,
+    items: Omit<InsertOrderItem, "orderId">[],
+    fits: (sameSlot: OrderWithItems[]) => boolean,
+  ): Promise<OrderWithItems | undefined>;
+  updateOrder(id: string, updates: Partial<Order>): Promise<OrderWithItems | undefined>;
+  // Compare-and-set on the status: writes only if the order is still in expectedStatus, otherwise resolves
+  // undefined like a missing order
+  updateOrderIfStatus(id: string, expectedStatus: OrderStatus, updates: Partial<Order>): Promise<OrderWithItems | undefined>;
+  // Counts one try at the order's handover code atomically and resolves how many there have been, this one
+  // included; undefined if the order is gone
+  takeHandoverAttempt(id: string): Promise<number | undefined>;
+  // Compare-and-set on the assigned livreur and the status: writes only if the order is still assigned to
+  // expectedLivreurId (null = unassigned) and still in expectedStatus, otherwise resolves undefined like a missing order
+  setOrderLivreur(
+    id: string,
+    expectedLivreurId: number | null,
+    expectedStatus: OrderStatus,
+    livreurId: number | null,
+    updates?: Partial<Order>,
+  ): Promise<OrderWithItems | undefined>;
+  getOrdersByUser(userId: number): Promise<OrderWithItems[]>;
+  getOrdersByLivreur(livreurId: number): Promise<OrderWithItems[]>;
+  getPendingOrders(): Promise<OrderWithItems[]>;
+  getReadyOrders(): Promise<OrderWithItems[]>;
+  // Confirmed or preparing orders, oldest first: what the kitchen still has to cook
+  getKitchenOrders(): Promise<OrderWithItems[]>;
+  // Gives every order to the livreur with its batch fields, all or nothing; undefined if any of them
+  // was taken by someone else or is no longer ready
+  assignDeliveryBatch(livreurId: number, stops: { orderId: string; updates: Partial<Order> }[]): Promise<OrderWithItems[] | undefined>;
+  getOrderByTrackingToken(token: string): Promise<OrderWithItems | undefined>;
+  getOrdersScheduledBetween(from: Date, to: Date): Promise<OrderWithItems[]>;
+
+  // Order Items
+  getOrderItems(orderId: string): Promise<OrderItem[]>;
+  // Same status guard as updateOrderIfStatus
+  replaceOrderItems(orderId: string, expectedStatus: OrderStatus, items: Omit<InsertOrderItem, "orderId">[], updates: Partial<Order>): Promise<OrderWithItems | undefined>;
+
+  // Order Events
+  getOrderEvents(orderId: string): Promise<OrderEvent[]>;
+  createOrderEvent(event: InsertOrderEvent): Promise<OrderEvent>;
+
+  // Delivery Zones
+  getDeliveryZones(): Promise<DeliveryZone[]>;
+  createDeliveryZone(zone: InsertDeliveryZone): Promise<DeliveryZone>;
+  updateDeliveryZone(id: string, zone: InsertDeliveryZone): Promise<DeliveryZone | undefined>;
+  deleteDeliveryZone(id: string): Promise<boolean>;
+  getDeliverySettings(): Promise<DeliverySettings>;
+  updateDeliverySettings(updates: UpdateDeliverySettings): Promise<DeliverySettings>;
+
+  // Cash Settlements
+  // Delivered orders with cash recorded that no settlement covers yet
+  getUnsettledCashOrders(livreurId: number): Promise<OrderWithItems[]>;
+  getOrdersBySettlement(settlementId: string): Promise<OrderWithItems[]>;
+  getCashSettlements(livreurId?: number): Promise<CashSettlement[]>;
+  // Records the settlement and stamps it on its orders, all or nothing; undefined if one was settled meanwhile
+  createCashSettlement(settlement: InsertCashSettlement, orderIds: string[]): Promise<CashSettlement | undefined>;
+
+  // Livreur Shifts
+  getLivreurShifts(livreurId?: number): Promise<LivreurShift[]>;
+  createLivreurShift(shift: InsertLivreurShift): Promise<LivreurShift>;
+  deleteLivreurShift(id: string): Promise<boolean>;
+
+  // Customer Addresses
+  getCustomerAddresses(userId: number): Promise<CustomerAddress[]>;
+  getCustomerAddress(id: string): Promise<CustomerAddress | undefined>;
+  createCustomerAddress(userId: number, address: InsertCustomerAddress): Promise<CustomerAddress>;
+  updateCustomerAddress(id: string, address: InsertCustomerAddress): Promise<CustomerAddress | undefined>;
+  deleteCustomerAddress(id: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
@@ -50,7 +186,18 @@ export class MemStorage implements IStorage {
   private categories: Map<string, Category>;
   private menuItems: Map<string, MenuItem>;
   private reservations: Map<string, Reservation>;
+  private reservationEvents: Map<string, ReservationEvent>;
   private orders: Map<string, Order>;
+  private orderItems: Map<string, OrderItem>;
+  private orderEvents: Map<string, OrderEvent>;
+  private deliveryZones: Map<string, DeliveryZone>;
+  private restaurantTables: Map<string, RestaurantTable>;
+  private waitlistEntries: Map<string, WaitlistEntry>;
+  private deliverySettings: DeliverySettings;
+  private reservationSettings: ReservationSettings;
+  private cashSettlements: Map<string, CashSettlement>;
+  private livreurShifts: Map<string, LivreurShift>;
+  private customerAddresses: Map<string, CustomerAddress>;
   private userIdCounter: number;
 
   constructor() {
@@ -58,7 +205,18 @@ export class MemStorage implements IStorage {
     this.categories = new Map();
     this.menuItems = new Map();
     this.reservations = new Map();
+    this.reservationEvents = new Map();
     this.orders = new Map();
+    this.orderItems = new Map();
+    this.orderEvents = new Map();
+    this.deliveryZones = new Map();
+    this.restaurantTables = new Map();
+    this.waitlistEntries = new Map();
+    this.deliverySettings = defaultDeliverySettings();
+    this.reservationSettings = defaultReservationSettings();
+    this.cashSettlements = new Map();
+    this.livreurShifts = new Map();
+    this.customerAddresses = new Map();
     this.userIdCounter = 1;
 
     this.initializeDefaultData();
@@ -77,6 +235,7 @@ export class MemStorage implements IStorage {
         phone: null,
         role: 'client' as const,
         active: true,
+        online: false,
         createdAt: new Date(),
       }
     ];
@@ -227,6 +386,8 @@ export class MemStorage implements IStorage {
         imageUrl: item.imageUrl ?? null,
         available: item.available,
         popular: item.popular,
+        optionGroups: [],
+        prepMinutes: null,
       };
       this.menuItems.set(menuItem.id, menuItem);
     });
@@ -268,6 +429,8 @@ export class MemStorage implements IStorage {
       imageUrl: insertItem.imageUrl ?? null,
       available: insertItem.available ?? true,
       popular: insertItem.popular ?? false,
+      optionGroups: insertItem.optionGroups ?? [],
+      prepMinutes: insertItem.prepMinutes ?? null,
     };
     this.menuItems.set(id, item);
     return item;
@@ -306,7 +469,26 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createReservation(insertReservation: InsertReservation): Promise<Reservation> {
+  // Synchronous, so seating checks run without awaiting between the check and the write
+  private reservationsOn(date: string): Reservation[] {
+    return Array.from(this.reservations.values()).filter(reservation => reservation.date === date);
+  }
+
+  async getReservationsByDate(date: string): Promise<Reservation[]> {
+    return this.reservationsOn(date);
+  }
+
+  async getReservation(id: string): Promise<Reservation | undefined> {
+    return this.reservations.get(id);
+  }
+
+  async createReservation(
+    insertReservation: InsertReservation,
+    place: (sameDay: Reservation[]) => Pick<Reservation, "tableIds"> | undefined,
+  ): Promise<Reservation | undefined> {
+    const placement = place(this.reservationsOn(insertReservation.date));
+    if (!placement) return undefined;
+
     const id = randomUUID();
     const reservation: Reservation = {
       id,
@@ -318,19 +500,111 @@ export class MemStorage implements IStorage {
       partySize: insertReservation.partySize,
       specialRequests: insertReservation.specialRequests ?? null,
       status: "pending",
+      tableIds: placement.tableIds,
+      manageToken: generateTrackingToken(),
+      guestChangedAt: null,
       createdAt: new Date(),
     };
     this.reservations.set(id, reservation);
     return reservation;
   }
 
-  async getOrders(): Promise<Order[]> {
-    return Array.from(this.orders.values()).sort(
-      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+  async updateReservationStatus(id: string, status: ReservationStatus): Promise<Reservation | undefined> {
+    const reservation = this.reservations.get(id);
+    if (!reservation) return undefined;
+
+    const updated: Reservation = { ...reservation, status };
+    this.reservations.set(id, updated);
+    return updated;
   }
 
-  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+  async updateReservationTables(
+    id: string,
+    tableIds: string[],
+    fits: (sameDay: Reservation[]) => boolean,
+  ): Promise<Reservation | undefined> {
+    const reservation = this.reservations.get(id);
+    if (!reservation || !fits(this.reservationsOn(reservation.date))) return undefined;
+
+    const updated: Reservation = { ...reservation, tableIds };
+    this.reservations.set(id, updated);
+    return updated;
+  }
+
+  async getReservationByManageToken(token: string): Promise<Reservation | undefined> {
+    return Array.from(this.reservations.values()).find(reservation => reservation.manageToken === token);
+  }
+
+  async rescheduleReservation(
+    id: string,
+    updates: Pick<Reservation, "date" | "time" | "partySize" | "status" | "guestChangedAt">,
+    place: (sameDay: Reservation[]) => Pick<Reservation, "tableIds"> | undefined,
+  ): Promise<Reservation | undefined> {
+    const reservation = this.reservations.get(id);
+    if (!reservation) return undefined;
+    const placement = place(this.reservationsOn(updates.date));
+    if (!placement) return undefined;
+
+    const updated: Reservation = { ...reservation, ...updates, tableIds: placement.tableIds };
+    this.reservations.set(id, updated);
+    return updated;
+  }
+
+  async getReservationEvents(reservationId: string): Promise<ReservationEvent[]> {
+    return Array.from(this.reservationEvents.values())
+      .filter(event => event.reservationId === reservationId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async createReservationEvent(insertEvent: InsertReservationEvent): Promise<ReservationEvent> {
+    const id = randomUUID();
+    const event: ReservationEvent = {
+      id,
+      reservationId: insertEvent.reservationId,
+      actor: insertEvent.actor,
+      actorUserId: insertEvent.actorUserId ?? null,
+      changes: insertEvent.changes,
+      note: insertEvent.note ?? null,
+      createdAt: new Date(),
+    };
+    this.reservationEvents.set(id, event);
+    return event;
+  }
+
+  async getReservationSettings(): Promise<ReservationSettings> {
+    return this.reservationSettings;
+  }
+
+  async updateReservationSettings(updates: UpdateReservationSettings): Promise<ReservationSettings> {
+    this.reservationSettings = { ...this.reservationSettings, ...updates };
+    return this.reservationSettings;
+  }
+
+  private withItems(order: Order): OrderWithItems {
+    const items = Array.from(this.orderItems.values()).filter(item => item.orderId === order.id);
+    return { ...order, items };
+  }
+
+  async getOrders(): Promise<OrderWithItems[]> {
+    return Array.from(this.orders.values())
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map(order => this.withItems(order));
+  }
+
+  async createOrder(
+    insertOrder: InsertOrder,
+    insertItems: Omit<InsertOrderItem, "orderId">[],
+    fits: (sameSlot: OrderWithItems[]) => boolean,
+  ): Promise<OrderWithItems | undefined> {
+    // Checked without awaiting, so no other order can be written between the check and the write
+    const slot = insertOrder.scheduledFor;
+    if (slot) {
+      const sameSlot = Array.from(this.orders.values())
+        .filter(order => order.scheduledFor?.getTime() === slot.getTime())
+        .map(order => this.withItems(order));
+      if (!fits(sameSlot)) return undefined;
+    }
+
     const id = randomUUID();
     const order: Order = {
       id,
@@ -338,51 +612,465 @@ export class MemStorage implements IStorage {
       customerName: insertOrder.customerName,
       customerEmail: insertOrder.customerEmail,
       customerPhone: insertOrder.customerPhone,
-      items: insertOrder.items,
       totalAmount: insertOrder.totalAmount,
+      deliveryFee: insertOrder.deliveryFee ?? "0",
       orderType: insertOrder.orderType,
       deliveryAddress: insertOrder.deliveryAddress ?? null,
+      deliveryLat: insertOrder.deliveryLat ?? null,
+      deliveryLng: insertOrder.deliveryLng ?? null,
+      deliveryZoneId: insertOrder.deliveryZoneId ?? null,
+      addressParts: insertOrder.addressParts ?? null,
+      deliveryCommune: insertOrder.addressParts?.commune ?? null,
+      preferredTime: insertOrder.preferredTime ?? null,
+      scheduledFor: insertOrder.scheduledFor ?? null,
       notes: insertOrder.notes ?? null,
       status: "pending",
-      livreurId: insertOrder.livreurId ?? null,
+      livreurId: null,
+      trackingToken: generateTrackingToken(),
+      handoverCode: insertOrder.orderType === "delivery" ? generateHandoverCode() : null,
+      handoverAttempts: 0,
+      deliveryProof: null,
+      cashCollected: null,
+      cashNote: null,
+      settlementId: null,
+      batchId: null,
+      batchStop: null,
+      routeMinutes: null,
+      estimatedAt: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
     this.orders.set(id, order);
-    return order;
+
+    insertItems.forEach(insertItem => {
+      const item: OrderItem = {
+        id: randomUUID(),
+        orderId: id,
+        menuItemId: insertItem.menuItemId,
+        name: insertItem.name,
+        unitPrice: insertItem.unitPrice,
+        quantity: insertItem.quantity,
+        selectedOptions: insertItem.selectedOptions ?? [],
+        note: insertItem.note ?? null,
+      };
+      this.orderItems.set(item.id, item);
+    });
+
+    return this.withItems(order);
   }
 
-  async getOrder(id: string): Promise<Order | undefined> {
-    return this.orders.get(id);
+  async getOrder(id: string): Promise<OrderWithItems | undefined> {
+    const order = this.orders.get(id);
+    return order ? this.withItems(order) : undefined;
   }
 
-  async updateOrder(id: string, updates: Partial<Order>): Promise<Order | undefined> {
+  async updateOrder(id: string, updates: Partial<Order>): Promise<OrderWithItems | undefined> {
     const order = this.orders.get(id);
     if (!order) return undefined;
 
     const updatedOrder = { ...order, ...updates, updatedAt: new Date() };
     this.orders.set(id, updatedOrder);
-    return updatedOrder;
+    return this.withItems(updatedOrder);
   }
 
-  async getOrdersByUser(userId: number): Promise<Order[]> {
+  async updateOrderIfStatus(id: string, expectedStatus: OrderStatus, updates: Partial<Order>): Promise<OrderWithItems | undefined> {
+    const order = this.orders.get(id);
+    if (!order || order.status !== expectedStatus) return undefined;
+
+    return this.updateOrder(id, updates);
+  }
+
+  async takeHandoverAttempt(id: string): Promise<number | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+
+    const handoverAttempts = order.handoverAttempts + 1;
+    this.orders.set(id, { ...order, handoverAttempts });
+    return handoverAttempts;
+  }
+
+  async setOrderLivreur(
+    id: string,
+    expectedLivreurId: number | null,
+    expectedStatus: OrderStatus,
+    livreurId: number | null,
+    updates: Partial<Order> = {},
+  ): Promise<OrderWithItems | undefined> {
+    const order = this.orders.get(id);
+    if (!order || (order.livreurId ?? null) !== expectedLivreurId || order.status !== expectedStatus) return undefined;
+
+    return this.updateOrder(id, { ...updates, livreurId });
+  }
+
+  async assignDeliveryBatch(livreurId: number, stops: { orderId: string; updates: Partial<Order> }[]): Promise<OrderWithItems[] | undefined> {
+    const claimable = stops.every(({ orderId }) => {
+      const order = this.orders.get(orderId);
+      return order && order.status === "ready" && (order.livreurId === null || order.livreurId === livreurId);
+    });
+    if (!claimable) return undefined;
+
+    const updated = await Promise.all(stops.map(({ orderId, updates }) => this.updateOrder(orderId, { ...updates, livreurId })));
+    return updated.filter((order): order is OrderWithItems => !!order);
+  }
+
+  async getOrdersByUser(userId: number): Promise<OrderWithItems[]> {
     return Array.from(this.orders.values())
       .filter(order => order.userId === userId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map(order => this.withItems(order));
+  }
+
+  async getOrderByTrackingToken(token: string): Promise<OrderWithItems | undefined> {
+    const order = Array.from(this.orders.values()).find(order => order.trackingToken === token);
+    return order ? this.withItems(order) : undefined;
+  }
+
+  async getOrdersScheduledBetween(from: Date, to: Date): Promise<OrderWithItems[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.scheduledFor && order.scheduledFor >= from && order.scheduledFor < to)
+      .map(order => this.withItems(order));
   }
 
-  async getOrdersByLivreur(livreurId: number): Promise<Order[]> {
+  async getOrdersByLivreur(livreurId: number): Promise<OrderWithItems[]> {
     return Array.from(this.orders.values())
       .filter(order => order.livreurId === livreurId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map(order => this.withItems(order));
   }
 
-  async getPendingOrders(): Promise<Order[]> {
+  async getPendingOrders(): Promise<OrderWithItems[]> {
     return Array.from(this.orders.values())
       .filter(order => order.status === 'pending')
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map(order => this.withItems(order));
+  }
+
+  async getReadyOrders(): Promise<OrderWithItems[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.status === "ready")
+      .sort((a, b) => new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime())
+      .map(order => this.withItems(order));
+  }
+
+  async getKitchenOrders(): Promise<OrderWithItems[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.status === "confirmed" || order.status === "preparing")
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map(order => this.withItems(order));
+  }
+
+  async getOrderItems(orderId: string): Promise<OrderItem[]> {
+    return Array.from(this.orderItems.values()).filter(item => item.orderId === orderId);
+  }
+
+  async replaceOrderItems(orderId: string, expectedStatus: OrderStatus, insertItems: Omit<InsertOrderItem, "orderId">[], updates: Partial<Order>): Promise<OrderWithItems | undefined> {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== expectedStatus) return undefined;
+
+    Array.from(this.orderItems.values())
+      .filter(item => item.orderId === orderId)
+      .forEach(item => this.orderItems.delete(item.id));
+
+    insertItems.forEach(insertItem => {
+      const item: OrderItem = {
+        id: randomUUID(),
+        orderId,
+        menuItemId: insertItem.menuItemId,
+        name: insertItem.name,
+        unitPrice: insertItem.unitPrice,
+        quantity: insertItem.quantity,
+        selectedOptions: insertItem.selectedOptions ?? [],
+        note: insertItem.note ?? null,
+      };
+      this.orderItems.set(item.id, item);
+    });
+
+    return this.updateOrder(orderId, updates);
+  }
+
+  async getOrderEvents(orderId: string): Promise<OrderEvent[]> {
+    return Array.from(this.orderEvents.values())
+      .filter(event => event.orderId === orderId)
       .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   }
 
+  async createOrderEvent(insertEvent: InsertOrderEvent): Promise<OrderEvent> {
+    const id = randomUUID();
+    const event: OrderEvent = {
+      id,
+      orderId: insertEvent.orderId,
+      actorUserId: insertEvent.actorUserId ?? null,
+      actorRole: insertEvent.actorRole ?? null,
+      fromStatus: insertEvent.fromStatus ?? null,
+      toStatus: insertEvent.toStatus,
+      note: insertEvent.note ?? null,
+      createdAt: new Date(),
+    };
+    this.orderEvents.set(id, event);
+    return event;
+  }
+
+  async getRestaurantTables(): Promise<RestaurantTable[]> {
+    return Array.from(this.restaurantTables.values()).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  }
+
+  async createRestaurantTable(insertTable: InsertRestaurantTable): Promise<RestaurantTable> {
+    const id = randomUUID();
+    const table: RestaurantTable = {
+      id,
+      name: insertTable.name,
+      seats: insertTable.seats,
+      area: insertTable.area ?? "indoor",
+      combinableWith: insertTable.combinableWith ?? [],
+      planX: insertTable.planX ?? 0,
+      planY: insertTable.planY ?? 0,
+      active: insertTable.active ?? true,
+      createdAt: new Date(),
+    };
+    this.restaurantTables.set(id, table);
+    return table;
+  }
+
+  async updateRestaurantTable(id: string, insertTable: InsertRestaurantTable): Promise<RestaurantTable | undefined> {
+    const table = this.restaurantTables.get(id);
+    if (!table) return undefined;
+
+    const updatedTable: RestaurantTable = {
+      ...table,
+      name: insertTable.name,
+      seats: insertTable.seats,
+      area: insertTable.area ?? "indoor",
+      combinableWith: insertTable.combinableWith ?? [],
+      planX: insertTable.planX ?? 0,
+      planY: insertTable.planY ?? 0,
+      active: insertTable.active ?? true,
+    };
+    this.restaurantTables.set(id, updatedTable);
+    return updatedTable;
+  }
+
+  async deleteRestaurantTable(id: string): Promise<boolean> {
+    return this.restaurantTables.delete(id);
+  }
+
+  async getWaitlistEntriesSince(since: Date): Promise<WaitlistEntry[]> {
+    return Array.from(this.waitlistEntries.values())
+      .filter(entry => new Date(entry.createdAt) >= since)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    return this.waitlistEntries.get(id);
+  }
+
+  async getWaitlistEntryByToken(token: string): Promise<WaitlistEntry | undefined> {
+    return Array.from(this.waitlistEntries.values()).find(entry => entry.token === token);
+  }
+
+  async createWaitlistEntry(insertEntry: InsertWaitlistEntry, quotedMinutes: number): Promise<WaitlistEntry> {
+    const id = randomUUID();
+    const entry: WaitlistEntry = {
+      id,
+      name: insertEntry.name,
+      phone: insertEntry.phone,
+      partySize: insertEntry.partySize,
+      status: "waiting",
+      token: generateTrackingToken(),
+      quotedMinutes,
+      notifiedAt: null,
+      seatedAt: null,
+      createdAt: new Date(),
+    };
+    this.waitlistEntries.set(id, entry);
+    return entry;
+  }
+
+  async updateWaitlistEntry(
+    id: string,
+    updates: Partial<Pick<WaitlistEntry, "status" | "notifiedAt" | "seatedAt">>,
+  ): Promise<WaitlistEntry | undefined> {
+    const entry = this.waitlistEntries.get(id);
+    if (!entry) return undefined;
+
+    const updated: WaitlistEntry = { ...entry, ...updates };
+    this.waitlistEntries.set(id, updated);
+    return updated;
+  }
+
+  async getDeliveryZones(): Promise<DeliveryZone[]> {
+    return Array.from(this.deliveryZones.values())
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async createDeliveryZone(insertZone: InsertDeliveryZone): Promise<DeliveryZone> {
+    const id = randomUUID();
+    const zone: DeliveryZone = {
+      id,
+      name: insertZone.name,
+      shape: insertZone.shape,
+      radiusKm: insertZone.radiusKm ?? null,
+      polygon: insertZone.polygon ?? null,
+      communes: insertZone.communes ?? null,
+      fee: insertZone.fee,
+      minimumOrder: insertZone.minimumOrder ?? "0",
+      active: insertZone.active ?? true,
+      createdAt: new Date(),
+    };
+    this.deliveryZones.set(id, zone);
+    return zone;
+  }
+
+  async updateDeliveryZone(id: string, insertZone: InsertDeliveryZone): Promise<DeliveryZone | undefined> {
+    const zone = this.deliveryZones.get(id);
+    if (!zone) return undefined;
+
+    const updatedZone: DeliveryZone = {
+      ...zone,
+      name: insertZone.name,
+      shape: insertZone.shape,
+      radiusKm: insertZone.radiusKm ?? null,
+      polygon: insertZone.polygon ?? null,
+      communes: insertZone.communes ?? null,
+      fee: insertZone.fee,
+      minimumOrder: insertZone.minimumOrder ?? "0",
+      active: insertZone.active ?? true,
+    };
+    this.deliveryZones.set(id, updatedZone);
+    return updatedZone;
+  }
+
+  async deleteDeliveryZone(id: string): Promise<boolean> {
+    return this.deliveryZones.delete(id);
+  }
+
+  async getDeliverySettings(): Promise<DeliverySettings> {
+    return this.deliverySettings;
+  }
+
+  async updateDeliverySettings(updates: UpdateDeliverySettings): Promise<DeliverySettings> {
+    this.deliverySettings = { ...this.deliverySettings, ...updates };
+    return this.deliverySettings;
+  }
+
+  async getUnsettledCashOrders(livreurId: number): Promise<OrderWithItems[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.livreurId === livreurId && order.status === "delivered"
+        && order.cashCollected !== null && !order.settlementId)
+      .sort((a, b) => new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime())
+      .map(order => this.withItems(order));
+  }
+
+  async getOrdersBySettlement(settlementId: string): Promise<OrderWithItems[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.settlementId === settlementId)
+      .sort((a, b) => new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime())
+      .map(order => this.withItems(order));
+  }
+
+  async getCashSettlements(livreurId?: number): Promise<CashSettlement[]> {
+    return Array.from(this.cashSettlements.values())
+      .filter(settlement => livreurId === undefined || settlement.livreurId === livreurId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async createCashSettlement(insertSettlement: InsertCashSettlement, orderIds: string[]): Promise<CashSettlement | undefined> {
+    if (orderIds.some(orderId => this.orders.get(orderId)?.settlementId)) return undefined;
+
+    const id = randomUUID();
+    const settlement: CashSettlement = {
+      id,
+      livreurId: insertSettlement.livreurId,
+      settledBy: insertSettlement.settledBy,
+      shiftStart: insertSettlement.shiftStart,
+      shiftEnd: insertSettlement.shiftEnd,
+      orderCount: insertSettlement.orderCount,
+      expectedAmount: insertSettlement.expectedAmount,
+      collectedAmount: insertSettlement.collectedAmount,
+      handedInAmount: insertSettlement.handedInAmount,
+      note: insertSettlement.note ?? null,
+      createdAt: new Date(),
+    };
+    this.cashSettlements.set(id, settlement);
+    orderIds.forEach(orderId => {
+      const order = this.orders.get(orderId);
+      if (order) this.orders.set(orderId, { ...order, settlementId: id });
+    });
+    return settlement;
+  }
+
+  async getLivreurShifts(livreurId?: number): Promise<LivreurShift[]> {
+    return Array.from(this.livreurShifts.values())
+      .filter(shift => livreurId === undefined || shift.livreurId === livreurId)
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime));
+  }
+
+  async createLivreurShift(insertShift: InsertLivreurShift): Promise<LivreurShift> {
+    const id = randomUUID();
+    const shift: LivreurShift = { ...insertShift, id, createdAt: new Date() };
+    this.livreurShifts.set(id, shift);
+    return shift;
+  }
+
+  async deleteLivreurShift(id: string): Promise<boolean> {
+    return this.livreurShifts.delete(id);
+  }
+
+  async getCustomerAddresses(userId: number): Promise<CustomerAddress[]> {
+    return Array.from(this.customerAddresses.values())
+      .filter(address => address.userId === userId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getCustomerAddress(id: string): Promise<CustomerAddress | undefined> {
+    return this.customerAddresses.get(id);
+  }
+
+  async createCustomerAddress(userId: number, insertAddress: InsertCustomerAddress): Promise<CustomerAddress> {
+    const id = randomUUID();
+    const address: CustomerAddress = {
+      id,
+      userId,
+      label: insertAddress.label,
+      wilaya: insertAddress.wilaya ?? null,
+      commune: insertAddress.commune ?? null,
+      street: insertAddress.street,
+      district: insertAddress.district ?? null,
+      building: insertAddress.building ?? null,
+      floor: insertAddress.floor ?? null,
+      landmark: insertAddress.landmark ?? null,
+      lat: insertAddress.lat ?? null,
+      lng: insertAddress.lng ?? null,
+      createdAt: new Date(),
+    };
+    this.customerAddresses.set(id, address);
+    return address;
+  }
+
+  async updateCustomerAddress(id: string, insertAddress: InsertCustomerAddress): Promise<CustomerAddress | undefined> {
+    const address = this.customerAddresses.get(id);
+    if (!address) return undefined;
+
+    const updated: CustomerAddress = {
+      ...address,
+      label: insertAddress.label,
+      wilaya: insertAddress.wilaya ?? null,
+      commune: insertAddress.commune ?? null,
+      street: insertAddress.street,
+      district: insertAddress.district ?? null,
+      building: insertAddress.building ?? null,
+      floor: insertAddress.floor ?? null,
+      landmark: insertAddress.landmark ?? null,
+      lat: insertAddress.lat ?? null,
+      lng: insertAddress.lng ?? null,
+    };
+    this.customerAddresses.set(id, updated);
+    return updated;
+  }
+
+  async deleteCustomerAddress(id: string): Promise<boolean> {
+    return this.customerAddresses.delete(id);
+  }
+
   async getUserById(id: number): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -401,6 +1089,7 @@ export class MemStorage implements IStorage {
       phone: insertUser.phone ?? null,
       role: insertUser.role ?? "client",
       active: true,
+      online: false,
       createdAt: new Date(),
     };
     this.users.set(id, user);
@@ -416,6 +1105,15 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
 
+  async setUserOnline(id: number, online: boolean): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, online };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.users.values()).sort(
       (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { RESTAURANT_UTC_OFFSET_MINUTES, restaurantDate } from "@shared/order-slots";
+import { estimateWaitMinutes, isOnWaitlist, type QueuedWaitlistEntry } from "@shared/waitlist";
+import type { InsertWaitlistEntry, WaitlistEntry } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { notificationConfig, sendNotification } from "./notifications";
+
+export const waitlistConfig = {
+  // Recent seatings from the waitlist tell how fast tables turn over right now
+  turnoverWindowMinutes: parseInt(process.env.WAITLIST_TURNOVER_WINDOW_MINUTES || "60", 10),
+  // Below this many seatings in the window, estimate from the tables and the reservation slot length instead
+  minObservedSeatings: parseInt(process.env.WAITLIST_MIN_OBSERVED_SEATINGS || "3", 10),
+  // Table size assumed when no tables are set up and only the seating capacity is known
+  typicalTableSeats: 4,
+};
+
+const MINUTE = 60 * 1000;
+
+// Staff closing an entry: the party got a table or gave up waiting
+export const waitlistClosingSchema = z.object({
+  status: z.enum(["seated", "left"]),
+});
+
+export class WaitlistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WaitlistError";
+  }
+}
+
+// Midnight in the restaurant's time zone: the waitlist starts empty every day
+function startOfServiceDay(now: Date): Date {
+  return new Date(Date.parse(`${restaurantDate(now)}T00:00:00Z`) - RESTAURANT_UTC_OFFSET_MINUTES * MINUTE);
+}
+
+// Average minutes between two parties of this size getting a table: the observed rate while the waitlist is busy,
+// otherwise each table that fits the party frees up once per reservation slot
+async function minutesPerParty(storage: IStorage, partySize: number, today: WaitlistEntry[], now: Date): Promise<number> {
+  const windowStart = now.getTime() - waitlistConfig.turnoverWindowMinutes * MINUTE;
+  const seatings = today.filter(entry => entry.seatedAt && new Date(entry.seatedAt).getTime() >= windowStart).length;
+  if (seatings >= waitlistConfig.minObservedSeatings) {
+    return waitlistConfig.turnoverWindowMinutes / seatings;
+  }
+
+  const [settings, tables] = await Promise.all([storage.getReservationSettings(), storage.getRestaurantTables()]);
+  const active = tables.filter(table => table.active);
+  const fittingTables = active.length > 0
+    ? active.filter(table => table.seats >= partySize).length
+    : Math.floor(settings.seatingCapacity / waitlistConfig.typicalTableSeats);
+  return settings.slotMinutes / Math.max(1, fittingTables);
+}
+
+// Today's waitlist in arrival order, each party still queuing with its place and estimated wait
+export async function getWaitlist(storage: IStorage, now: Date = new Date()): Promise<QueuedWaitlistEntry[]> {
+  const today = (await storage.getWaitlistEntriesSince(startOfServiceDay(now)))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  const paces = new Map<number, number>();
+  const queue = today.filter(isOnWaitlist);
+  const queued: QueuedWaitlistEntry[] = [];
+  for (const entry of today) {
+    const index = queue.indexOf(entry);
+    if (index === -1) {
+      queued.push({ ...entry, place: null });
+      continue;
+    }
+    if (!paces.has(entry.partySize)) {
+      paces.set(entry.partySize, await minutesPerParty(storage, entry.partySize, today, now));
+    }
+    // Notified parties already have a table waiting for them, so only the parties still waiting count ahead
+    const waitingAhead = queue.slice(0, index).filter(other => other.status === "waiting").length;
+    queued.push({
+      ...entry,
+      place: {
+        position: index + 1,
+        estimatedWaitMinutes: entry.status === "notified" ? 0 : estimateWaitMinutes(waitingAhead + 1, paces.get(entry.partySize)!),
+      },
+    });
+  }
+  return queued;
+}
+
+// Adds a walk-in party at the back of the queue, records the wait quoted to them and texts them their link.
+// The party stays on the list if the text can't be sent: staff have already told them the wait.
+export async function addToWaitlist(
+  storage: IStorage,
+  entry: InsertWaitlistEntry,
+  requestOrigin: string,
+  now: Date = new Date(),
+): Promise<WaitlistEntry> {
+  const today = await storage.getWaitlistEntriesSince(startOfServiceDay(now));
+  const waiting = today.filter(other => other.status === "waiting").length;
+  const quotedMinutes = estimateWaitMinutes(waiting + 1, await minutesPerParty(storage, entry.partySize, today, now));
+  const created = await storage.createWaitlistEntry(entry, quotedMinutes);
+
+  try {
+    await sendNotification({
+      to: created.phone,
+      body: `${created.name}, you're on the Crêperie Kinder 5 waitlist (about ${quotedMinutes} min). See your place: ${waitlistLink(created.token, requestOrigin)}`,
+    });
+  } catch (error) {
+    console.error("Failed to send waitlist confirmation:", error);
+  }
+  return created;
+}
+
+export function waitlistLink(token: string, requestOrigin: string): string {
+  return `${notificationConfig.publicUrl || requestOrigin}/waitlist/${token}`;
+}
+
+function assertOnWaitlist(entry: WaitlistEntry) {
+  if (!isOnWaitlist(entry)) {
+    throw new WaitlistError(`This party is already ${entry.status === "seated" ? "seated" : "off the waitlist"}`);
+  }
+}
+
+// Tells the guest their table is ready; can be repeated if they don't show up
+export async function notifyWaitlistEntry(
+  storage: IStorage,
+  entry: WaitlistEntry,
+  requestOrigin: string,
+): Promise<WaitlistEntry> {
+  assertOnWaitlist(entry);
+  await sendNotification({
+    to: entry.phone,
+    body: `${entry.name}, your table for ${entry.partySize} is ready at Crêperie Kinder 5. Please come to the front desk. ${waitlistLink(entry.token, requestOrigin)}`,
+  });
+
+  const updated = await storage.updateWaitlistEntry(entry.id, { status: "notified", notifiedAt: new Date() });
+  if (!updated) throw new WaitlistError("This party is no longer on the waitlist");
+  return updated;
+}
+
+// Seats the party or takes it off the list when it gave up waiting
+export async function closeWaitlistEntry(
+  storage: IStorage,
+  entry: WaitlistEntry,
+  status: z.infer<typeof waitlistClosingSchema>["status"],
+): Promise<WaitlistEntry> {
+  assertOnWaitlist(entry);
+  const updated = await storage.updateWaitlistEntry(entry.id, status === "seated" ? { status, seatedAt: new Date() } : { status });
+  if (!updated) throw new WaitlistError("This party is no longer on the waitlist");
+  return updated;
+}
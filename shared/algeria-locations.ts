@@ -0,0 +1,159 @@
+// Offline reference list of Algerian wilayas and communes, with their official codes.
+// Communes are bundled for the wilayas we deliver to; add a wilaya's communes here before delivering there.
+
+export interface Wilaya {
+  code: string; // "16"
+  name: string;
+}
+
+export interface Commune {
+  code: string; // "1601": wilaya code followed by the commune number
+  wilayaCode: string;
+  name: string;
+}
+
+export const wilayas: Wilaya[] = [
+  { code: "01", name: "Adrar" },
+  { code: "02", name: "Chlef" },
+  { code: "03", name: "Laghouat" },
+  { code: "04", name: "Oum El Bouaghi" },
+  { code: "05", name: "Batna" },
+  { code: "06", name: "Béjaïa" },
+  { code: "07", name: "Biskra" },
+  { code: "08", name: "Béchar" },
+  { code: "09", name: "Blida" },
+  { code: "10", name: "Bouira" },
+  { code: "11", name: "Tamanrasset" },
+  { code: "12", name: "Tébessa" },
+  { code: "13", name: "Tlemcen" },
+  { code: "14", name: "Tiaret" },
+  { code: "15", name: "Tizi Ouzou" },
+  { code: "16", name: "Alger" },
+  { code: "17", name: "Djelfa" },
+  { code: "18", name: "Jijel" },
+  { code: "19", name: "Sétif" },
+  { code: "20", name: "Saïda" },
+  { code: "21", name: "Skikda" },
+  { code: "22", name: "Sidi Bel Abbès" },
+  { code: "23", name: "Annaba" },
+  { code: "24", name: "Guelma" },
+  { code: "25", name: "Constantine" },
+  { code: "26", name: "Médéa" },
+  { code: "27", name: "Mostaganem" },
+  { code: "28", name: "M'Sila" },
+  { code: "29", name: "Mascara" },
+  { code: "30", name: "Ouargla" },
+  { code: "31", name: "Oran" },
+  { code: "32", name: "El Bayadh" },
+  { code: "33", name: "Illizi" },
+  { code: "34", name: "Bordj Bou Arréridj" },
+  { code: "35", name: "Boumerdès" },
+  { code: "36", name: "El Tarf" },
+  { code: "37", name: "Tindouf" },
+  { code: "38", name: "Tissemsilt" },
+  { code: "39", name: "El Oued" },
+  { code: "40", name: "Khenchela" },
+  { code: "41", name: "Souk Ahras" },
+  { code: "42", name: "Tipaza" },
+  { code: "43", name: "Mila" },
+  { code: "44", name: "Aïn Defla" },
+  { code: "45", name: "Naâma" },
+  { code: "46", name: "Aïn Témouchent" },
+  { code: "47", name: "Ghardaïa" },
+  { code: "48", name: "Relizane" },
+  { code: "49", name: "Timimoun" },
+  { code: "50", name: "Bordj Badji Mokhtar" },
+  { code: "51", name: "Ouled Djellal" },
+  { code: "52", name: "Béni Abbès" },
+  { code: "53", name: "In Salah" },
+  { code: "54", name: "In Guezzam" },
+  { code: "55", name: "Touggourt" },
+  { code: "56", name: "Djanet" },
+  { code: "57", name: "El M'Ghair" },
+  { code: "58", name: "El Meniaa" },
+];
+
+// Codes are the official ONS commune codes (wilaya code followed by the commune number), stored with every
+// address and zone, so they are spelled out rather than derived from list order
+export const communes: Commune[] = [
+  // 16 Alger
+  { code: "1601", wilayaCode: "16", name: "Alger Centre" },
+  { code: "1602", wilayaCode: "16", name: "Sidi M'Hamed" },
+  { code: "1603", wilayaCode: "16", name: "El Madania" },
+  { code: "1604", wilayaCode: "16", name: "Belouizdad" },
+  { code: "1605", wilayaCode: "16", name: "Bab El Oued" },
+  { code: "1606", wilayaCode: "16", name: "Bologhine" },
+  { code: "1607", wilayaCode: "16", name: "Casbah" },
+  { code: "1608", wilayaCode: "16", name: "Oued Koriche" },
+  { code: "1609", wilayaCode: "16", name: "Bir Mourad Raïs" },
+  { code: "1610", wilayaCode: "16", name: "El Biar" },
+  { code: "1611", wilayaCode: "16", name: "Bouzaréah" },
+  { code: "1612", wilayaCode: "16", name: "Birkhadem" },
+  { code: "1613", wilayaCode: "16", name: "El Harrach" },
+  { code: "1614", wilayaCode: "16", name: "Baraki" },
+  { code: "1615", wilayaCode: "16", name: "Oued Smar" },
+  { code: "1616", wilayaCode: "16", name: "Bachdjerrah" },
+  { code: "1617", wilayaCode: "16", name: "Hussein Dey" },
+  { code: "1618", wilayaCode: "16", name: "Kouba" },
+  { code: "1619", wilayaCode: "16", name: "Bourouba" },
+  { code: "1620", wilayaCode: "16", name: "Dar El Beïda" },
+  { code: "1621", wilayaCode: "16", name: "Bab Ezzouar" },
+  { code: "1622", wilayaCode: "16", name: "Ben Aknoun" },
+  { code: "1623", wilayaCode: "16", name: "Dely Ibrahim" },
+  { code: "1624", wilayaCode: "16", name: "El Hammamet" },
+  { code: "1625", wilayaCode: "16", name: "Raïs Hamidou" },
+  { code: "1626", wilayaCode: "16", name: "Djasr Kasentina" },
+  { code: "1627", wilayaCode: "16", name: "El Mouradia" },
+  { code: "1628", wilayaCode: "16", name: "Hydra" },
+  { code: "1629", wilayaCode: "16", name: "Mohammadia" },
+  { code: "1630", wilayaCode: "16", name: "Bordj El Kiffan" },
+  { code: "1631", wilayaCode: "16", name: "El Magharia" },
+  { code: "1632", wilayaCode: "16", name: "Beni Messous" },
+  { code: "1633", wilayaCode: "16", name: "Les Eucalyptus" },
+  { code: "1634", wilayaCode: "16", name: "Birtouta" },
+  { code: "1635", wilayaCode: "16", name: "Tessala El Merdja" },
+  { code: "1636", wilayaCode: "16", name: "Ouled Chebel" },
+  { code: "1637", wilayaCode: "16", name: "Sidi Moussa" },
+  { code: "1638", wilayaCode: "16", name: "Aïn Taya" },
+  { code: "1639", wilayaCode: "16", name: "Bordj El Bahri" },
+  { code: "1640", wilayaCode: "16", name: "El Marsa" },
+  { code: "1641", wilayaCode: "16", name: "H'raoua" },
+  { code: "1642", wilayaCode: "16", name: "Rouïba" },
+  { code: "1643", wilayaCode: "16", name: "Reghaïa" },
+  { code: "1644", wilayaCode: "16", name: "Aïn Benian" },
+  { code: "1645", wilayaCode: "16", name: "Staouéli" },
+  { code: "1646", wilayaCode: "16", name: "Zéralda" },
+  { code: "1647", wilayaCode: "16", name: "Mahelma" },
+  { code: "1648", wilayaCode: "16", name: "Rahmania" },
+  { code: "1649", wilayaCode: "16", name: "Souidania" },
+  { code: "1650", wilayaCode: "16", name: "Chéraga" },
+  { code: "1651", wilayaCode: "16", name: "Ouled Fayet" },
+  { code: "1652", wilayaCode: "16", name: "El Achour" },
+  { code: "1653", wilayaCode: "16", name: "Draria" },
+  { code: "1654", wilayaCode: "16", name: "Douéra" },
+  { code: "1655", wilayaCode: "16", name: "Baba Hassen" },
+  { code: "1656", wilayaCode: "16", name: "Khraïcia" },
+  { code: "1657", wilayaCode: "16", name: "Saoula" },
+];
+
+export function getWilaya(code: string): Wilaya | undefined {
+  return wilayas.find(wilaya => wilaya.code === code);
+}
+
+export function getCommune(code: string): Commune | undefined {
+  return communes.find(commune => commune.code === code);
+}
+
+export function getCommunes(wilayaCode: string): Commune[] {
+  return communes.filter(commune => commune.wilayaCode === wilayaCode);
+}
+
+// Wilayas whose communes are bundled, i.e. the ones checkout offers
+export const deliveryWilayas: Wilaya[] = wilayas.filter(wilaya => communes.some(commune => commune.wilayaCode === wilaya.code));
+
+// "Kouba, Alger"; falls back to the raw code for communes no longer in the list
+export function formatCommune(code: string): string {
+  const commune = getCommune(code);
+  if (!commune) return code;
+  return `${commune.name}, ${getWilaya(commune.wilayaCode)?.name ?? commune.wilayaCode}`;
+}
@@ -1,18 +1,34 @@
 import { z } from "zod";
-import type { MenuItem } from "./schema";
+import type { MenuItem, OrderItemOption } from "./schema";
+import { optionSelectionSchema, getOptionsPriceDelta } from "./menu-options";
 
 export interface CartItem extends MenuItem {
+  // The same menu item with different options is a separate cart line
+  lineId: string;
+  selectedOptions: OrderItemOption[];
   quantity: number;
 }
 
-export const orderItemSchema = z.object({
+export function getCartLineId(menuItemId: string, options: OrderItemOption[]): string {
+  const optionKeys = options.map(o => `${o.groupId}:${o.optionId}`).sort();
+  return [menuItemId, ...optionKeys].join("|");
+}
+
+export function getCartItemUnitPrice(item: Pick<CartItem, "price" | "selectedOptions">): number {
+  return parseFloat(item.price) + getOptionsPriceDelta(item.selectedOptions ?? []);
+}
+
+// A cart line as submitted at checkout (price includes option deltas); the server re-prices it before storing an OrderItem
+export const orderItemInputSchema = z.object({
   menuItemId: z.string(),
   name: z.string(),
   price: z.string(),
-  quantity: z.number().min(1),
+  quantity: z.number().int().min(1),
+  selectedOptions: z.array(optionSelectionSchema).default([]),
+  note: z.string().max(200).optional(),
 });
 
-export type OrderItem = z.infer<typeof orderItemSchema>;
+export type OrderItemInput = z.infer<typeof orderItemInputSchema>;
 
 export const customerOrderSchema = z.object({
   firstName: z.string().min(2, "First name is required"),
@@ -20,8 +36,15 @@ export const customerOrderSchema = z.object({
   phone: z.string().min(10, "Please enter a valid phone number"),
   email: z.string().email("Please enter a valid email address"),
   message: z.string().optional(),
-  preferredTime: z.string().optional(),
-  deliveryAddress: z.string().optional(),
+  // ISO start of the chosen slot; empty for as soon as possible
+  scheduledFor: z.string().optional(),
+  // Structured delivery address; checked against algerianAddressSchema when the order is a delivery
+  wilaya: z.string().optional(),
+  commune: z.string().optional(),
+  district: z.string().optional(),
+  building: z.string().optional(),
+  floor: z.string().optional(),
+  landmark: z.string().optional(),
 });
 
 export type CustomerOrder = z.infer<typeof customerOrderSchema>;
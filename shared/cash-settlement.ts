@@ -0,0 +1,34 @@
+import type { CashSettlement } from "./schema";
+
+// One delivered order in a cash report; amounts are DZD strings, difference is collected - expected
+export interface CashReportLine {
+  orderId: string;
+  reference: string;
+  customerName: string;
+  deliveredAt: string;
+  expected: string;
+  collected: string;
+  difference: string;
+  note: string | null;
+}
+
+// A livreur's shift: the open one (not settled yet) or one closed by a settlement
+export interface CashReport {
+  livreurId: number;
+  livreurName: string;
+  shiftStart: string | null;
+  shiftEnd: string | null;
+  lines: CashReportLine[];
+  expected: string;
+  collected: string;
+  // Collected minus expected over the shift; negative means the livreur came back short
+  discrepancy: string;
+  settlement: CashSettlement | null;
+}
+
+export interface CashBalance {
+  livreurId: number;
+  livreurName: string;
+  orderCount: number;
+  cashInHand: string;
+}
@@ -0,0 +1,16 @@
+// Delivered delivery orders grouped by the commune they went to; amounts are DZD strings
+export interface CommuneReportLine {
+  // null groups orders placed before structured addresses
+  commune: string | null;
+  communeName: string;
+  wilayaName: string | null;
+  orderCount: number;
+  revenue: string;
+  deliveryFees: string;
+}
+
+export interface CommuneReport {
+  from: string;
+  to: string;
+  lines: CommuneReportLine[];
+}
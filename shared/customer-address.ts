@@ -0,0 +1,35 @@
+import type { AlgerianAddress, CustomerAddress } from "./schema";
+import { formatCommune } from "./algeria-locations";
+
+// One line the livreur reads: "Cité 500 Logements, Bt 12, floor 3, Kouba, Alger (blue gate)"
+export function formatAlgerianAddress(address: AlgerianAddress): string {
+  const place = [
+    address.district,
+    address.building,
+    address.floor ? `floor ${address.floor}` : null,
+    formatCommune(address.commune),
+  ].filter(Boolean).join(", ");
+  return address.landmark ? `${place} (${address.landmark})` : place;
+}
+
+// The structured form of a saved address; null for addresses saved before wilaya and commune existed
+export function toAlgerianAddress(address: CustomerAddress): AlgerianAddress | null {
+  if (!address.wilaya || !address.commune) return null;
+  return {
+    wilaya: address.wilaya,
+    commune: address.commune,
+    district: [address.street, address.district].filter(Boolean).join(", "),
+    building: address.building,
+    floor: address.floor,
+    landmark: address.landmark,
+  };
+}
+
+// The free-text address an order keeps when a saved address is used: what the livreur reads
+export function formatCustomerAddress(address: CustomerAddress): string {
+  const parts = toAlgerianAddress(address);
+  if (parts) return formatAlgerianAddress(parts);
+
+  const place = [address.street, address.district].filter(Boolean).join(", ");
+  return address.landmark ? `${place} (${address.landmark})` : place;
+}
@@ -0,0 +1,104 @@
+import type { GeoPoint, Order } from "./schema";
+import { distanceKm } from "./geo";
+
+// Orders further apart than this are not worth a shared run
+export const BATCH_RADIUS_KM = 2;
+export const MAX_BATCH_SIZE = 3;
+// City riding on a scooter, and the time to park, ring and hand over at each door
+const AVERAGE_SPEED_KMH = 25;
+export const STOP_MINUTES = 3;
+
+type Stop = Pick<Order, "id" | "deliveryLat" | "deliveryLng">;
+
+export interface RouteStop<T extends Stop> {
+  order: T;
+  // 1-based visiting position
+  stop: number;
+  legKm: number;
+  // From leaving the shop to this door, handovers at earlier stops included
+  etaMinutes: number;
+}
+
+export interface DeliveryRoute<T extends Stop> {
+  stops: RouteStop<T>[];
+  totalKm: number;
+  totalMinutes: number;
+}
+
+// Riding time for a leg, without the handover at the door
+export function ridingMinutes(km: number): number {
+  return (km / AVERAGE_SPEED_KMH) * 60;
+}
+
+const pointOf = (order: Stop): GeoPoint => ({ lat: order.deliveryLat!, lng: order.deliveryLng! });
+
+export function hasCoordinates(order: Stop): boolean {
+  return order.deliveryLat !== null && order.deliveryLng !== null;
+}
+
+// Nearest-neighbour tour from the shop: always ride to the closest door not visited yet.
+// Not optimal in general, but with three stops it rarely differs from the best order.
+export function planRoute<T extends Stop>(shop: GeoPoint, orders: T[]): DeliveryRoute<T> {
+  const remaining = orders.filter(hasCoordinates);
+  const stops: RouteStop<T>[] = [];
+  let position = shop;
+  let totalKm = 0;
+  let minutes = 0;
+
+  while (remaining.length > 0) {
+    let nearest = 0;
+    remaining.forEach((order, index) => {
+      if (distanceKm(position, pointOf(order)) < distanceKm(position, pointOf(remaining[nearest]))) nearest = index;
+    });
+
+    const [order] = remaining.splice(nearest, 1);
+    const legKm = distanceKm(position, pointOf(order));
+    totalKm += legKm;
+    minutes += ridingMinutes(legKm) + (stops.length > 0 ? STOP_MINUTES : 0);
+    stops.push({ order, stop: stops.length + 1, legKm, etaMinutes: Math.ceil(minutes) });
+    position = pointOf(order);
+  }
+
+  return { stops, totalKm, totalMinutes: stops.length > 0 ? stops[stops.length - 1].etaMinutes : 0 };
+}
+
+// Groups orders that wait longest first with their nearest neighbours within BATCH_RADIUS_KM of it.
+// Orders without a close neighbour are left out; they go out on their own as before.
+export function suggestBatches<T extends Stop>(orders: T[]): T[][] {
+  const remaining = orders.filter(hasCoordinates);
+  const batches: T[][] = [];
+
+  while (remaining.length > 1) {
+    const [seed] = remaining.splice(0, 1);
+    const neighbours = remaining
+      .map(order => ({ order, km: distanceKm(pointOf(seed), pointOf(order)) }))
+      .filter(({ km }) => km <= BATCH_RADIUS_KM)
+      .sort((a, b) => a.km - b.km)
+      .slice(0, MAX_BATCH_SIZE - 1)
+      .map(({ order }) => order);
+
+    if (neighbours.length === 0) continue;
+    neighbours.forEach(order => remaining.splice(remaining.indexOf(order), 1));
+    batches.push([seed, ...neighbours]);
+  }
+
+  return batches;
+}
+
+// What the livreur dashboard shows for a suggested or accepted batch
+export interface DeliveryBatch {
+  // Set once accepted
+  batchId: string | null;
+  totalKm: number;
+  totalMinutes: number;
+  stops: {
+    orderId: string;
+    reference: string;
+    customerName: string;
+    deliveryAddress: string | null;
+    totalAmount: string;
+    stop: number;
+    legKm: number;
+    etaMinutes: number;
+  }[];
+}
@@ -0,0 +1,15 @@
+import type { GeoPoint } from "./schema";
+
+// Answer of POST /api/delivery/quote; amounts are DZD strings like the rest of the order model
+export interface DeliveryQuote {
+  available: boolean;
+  point: GeoPoint;
+  distanceKm: number;
+  // null when the point is outside every zone and the out-of-area rule applies
+  zoneId: string | null;
+  zoneName: string | null;
+  fee: string;
+  minimumOrder: string;
+  // Why delivery isn't available, shown to the customer as is
+  message: string | null;
+}
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+// How often the livreur dashboard sends a position while an order is out for delivery
+export const DRIVER_LOCATION_INTERVAL_MS = 20 * 1000;
+
+export const driverLocationPingSchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  // Radius of uncertainty in metres, as reported by the browser
+  accuracy: z.coerce.number().min(0).nullish(),
+});
+
+export type DriverLocationPing = z.infer<typeof driverLocationPingSchema>;
+
+// Latest known driver position for an order; only kept while it is out for delivery
+export interface DriverLocation {
+  lat: number;
+  lng: number;
+  accuracy: number | null;
+  updatedAt: string;
+}
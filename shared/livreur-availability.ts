@@ -0,0 +1,43 @@
+import type { LivreurShift, User } from "./schema";
+import { parseClock, restaurantClock } from "./order-slots";
+
+export const weekdayLabels = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Whether the shift covers this instant; a shift ending before it starts runs past midnight into the next day
+export function isShiftActiveAt(shift: Pick<LivreurShift, "dayOfWeek" | "startTime" | "endTime">, date: Date): boolean {
+  const { day, minute } = restaurantClock(date);
+  const start = parseClock(shift.startTime);
+  const end = parseClock(shift.endTime);
+
+  if (start < end) {
+    return shift.dayOfWeek === day && minute >= start && minute < end;
+  }
+  return (shift.dayOfWeek === day && minute >= start)
+    || ((shift.dayOfWeek + 1) % 7 === day && minute < end);
+}
+
+export function getActiveShift<T extends Pick<LivreurShift, "dayOfWeek" | "startTime" | "endTime">>(shifts: T[], date: Date): T | undefined {
+  return shifts.find(shift => isShiftActiveAt(shift, date));
+}
+
+// Only livreurs who switched themselves online during one of their shifts see open orders or get dispatched
+export function isLivreurAvailable(
+  livreur: Pick<User, "id" | "active" | "online">,
+  shifts: Pick<LivreurShift, "livreurId" | "dayOfWeek" | "startTime" | "endTime">[],
+  date: Date,
+): boolean {
+  return livreur.active && livreur.online
+    && !!getActiveShift(shifts.filter(shift => shift.livreurId === livreur.id), date);
+}
+
+export interface LivreurAvailability {
+  livreurId: number;
+  livreurName: string;
+  online: boolean;
+  onShift: boolean;
+  available: boolean;
+  // "HH:MM–HH:MM" of the shift covering now, if any
+  currentShift: string | null;
+  // Orders assigned to the livreur that are not delivered or cancelled yet
+  activeOrders: number;
+}
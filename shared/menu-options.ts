@@ -0,0 +1,62 @@
+import { z } from "zod";
+import type { MenuOptionGroup, OrderItemOption } from "./schema";
+
+export const optionSelectionSchema = z.object({
+  groupId: z.string(),
+  optionId: z.string(),
+});
+
+export type OptionSelection = z.infer<typeof optionSelectionSchema>;
+
+// Check a set of chosen options against a menu item's option groups and snapshot them for an order line
+export function resolveSelectedOptions(
+  groups: MenuOptionGroup[],
+  selections: OptionSelection[],
+): { options: OrderItemOption[]; errors: string[] } {
+  const options: OrderItemOption[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const selection of selections) {
+    const group = groups.find(g => g.id === selection.groupId);
+    const option = group?.options.find(o => o.id === selection.optionId);
+    if (!group || !option) {
+      errors.push("Unknown option selected");
+      continue;
+    }
+
+    const key = `${group.id}:${option.id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    options.push({
+      groupId: group.id,
+      groupName: group.name,
+      optionId: option.id,
+      optionName: option.name,
+      priceDelta: option.priceDelta,
+    });
+  }
+
+  for (const group of groups) {
+    const count = options.filter(o => o.groupId === group.id).length;
+    if (count < group.minChoices) {
+      errors.push(group.minChoices === 1
+        ? `Choose an option for ${group.name}`
+        : `Choose at least ${group.minChoices} options for ${group.name}`);
+    }
+    if (count > group.maxChoices) {
+      errors.push(`Choose at most ${group.maxChoices} options for ${group.name}`);
+    }
+  }
+
+  return { options, errors };
+}
+
+export function getOptionsPriceDelta(options: OrderItemOption[]): number {
+  return options.reduce((sum, option) => sum + parseFloat(option.priceDelta), 0);
+}
+
+export function hasRequiredOptions(groups: MenuOptionGroup[] | null | undefined): boolean {
+  return (groups ?? []).some(group => group.minChoices > 0);
+}
@@ -0,0 +1,74 @@
+import type { OrderItem, OrderWithItems } from "./schema";
+
+function toDate(value: any): Date {
+  return value?.toDate ? value.toDate() : new Date(value);
+}
+
+// Line items are embedded on the order document so real-time listeners get them in one read.
+// Legacy documents hold a JSON string or an array of { menuItemId, name, price, quantity }.
+function itemsFromDocument(orderId: string, rawItems: any): OrderItem[] {
+  let items = rawItems;
+  if (typeof items === "string") {
+    try {
+      items = JSON.parse(items);
+    } catch {
+      items = [];
+    }
+  }
+  if (!Array.isArray(items)) return [];
+
+  return items.map((item: any, index: number) => ({
+    id: item.id ?? `${orderId}-${index}`,
+    orderId,
+    menuItemId: item.menuItemId,
+    name: item.name,
+    unitPrice: item.unitPrice ?? item.price,
+    quantity: item.quantity,
+    selectedOptions: item.selectedOptions ?? [],
+    note: item.note ?? null,
+  }));
+}
+
+// Map a Firestore order document to the canonical order shape.
+// Older documents written straight from checkout used customerFirstName/LastName,
+// deliveryType and a nested location object; those are folded in here.
+export function orderFromDocument(id: string, data: Record<string, any>): OrderWithItems {
+  const customerName = data.customerName
+    ?? [data.customerFirstName, data.customerLastName].filter(Boolean).join(" ");
+
+  return {
+    id,
+    userId: data.userId ?? null,
+    customerName,
+    customerEmail: data.customerEmail,
+    customerPhone: data.customerPhone,
+    items: itemsFromDocument(id, data.items),
+    totalAmount: data.totalAmount,
+    deliveryFee: data.deliveryFee || "0",
+    status: data.status || "pending",
+    orderType: data.orderType ?? data.deliveryType,
+    deliveryAddress: data.deliveryAddress ?? data.location?.address ?? null,
+    deliveryLat: data.deliveryLat ?? data.location?.coordinates?.lat ?? null,
+    deliveryLng: data.deliveryLng ?? data.location?.coordinates?.lng ?? null,
+    deliveryZoneId: data.deliveryZoneId ?? null,
+    addressParts: data.addressParts ?? null,
+    deliveryCommune: data.deliveryCommune ?? null,
+    preferredTime: data.preferredTime || null,
+    scheduledFor: data.scheduledFor ? toDate(data.scheduledFor) : null,
+    notes: data.notes || null,
+    livreurId: data.livreurId ?? null,
+    trackingToken: data.trackingToken ?? null,
+    handoverCode: data.handoverCode ?? null,
+    handoverAttempts: data.handoverAttempts ?? 0,
+    deliveryProof: data.deliveryProof ?? null,
+    cashCollected: data.cashCollected ?? null,
+    cashNote: data.cashNote ?? null,
+    settlementId: data.settlementId ?? null,
+    batchId: data.batchId ?? null,
+    batchStop: data.batchStop ?? null,
+    routeMinutes: data.routeMinutes ?? null,
+    estimatedAt: data.estimatedAt ? toDate(data.estimatedAt) : null,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+}
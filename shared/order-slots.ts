@@ -0,0 +1,95 @@
+// Opening hours in restaurant local time, by day of week (0 = Sunday).
+// Keep in sync with the hours shown in the footer and contact page.
+export const openingHours: Record<number, { open: string; close: string }> = {
+  0: { open: "10:00", close: "20:00" },
+  1: { open: "11:00", close: "21:00" },
+  2: { open: "11:00", close: "21:00" },
+  3: { open: "11:00", close: "21:00" },
+  4: { open: "11:00", close: "21:00" },
+  5: { open: "11:00", close: "22:00" },
+  6: { open: "11:00", close: "22:00" },
+};
+
+// Algeria is UTC+1 all year (no daylight saving), so a fixed offset is enough
+export const RESTAURANT_UTC_OFFSET_MINUTES = 60;
+
+export const SLOT_MINUTES = 15;
+
+// How many days ahead customers may schedule, today included
+export const SCHEDULE_DAYS = 7;
+
+const MINUTE = 60 * 1000;
+
+export interface OrderSlot {
+  start: string;
+  end: string;
+  label: string;
+  remaining: number;
+  available: boolean;
+}
+
+// Minutes since midnight of an "HH:MM" clock time
+export function parseClock(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Shift a UTC instant so its UTC fields read as restaurant wall-clock time
+function toLocal(date: Date): Date {
+  return new Date(date.getTime() + RESTAURANT_UTC_OFFSET_MINUTES * MINUTE);
+}
+
+// Restaurant calendar date (YYYY-MM-DD) of an instant
+export function restaurantDate(date: Date): string {
+  return toLocal(date).toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+// All slot start times for a restaurant calendar date; empty if the date is malformed
+export function getDaySlotStarts(date: string): Date[] {
+  const midnightLocal = new Date(`${date}T00:00:00Z`);
+  if (isNaN(midnightLocal.getTime())) return [];
+
+  const hours = openingHours[midnightLocal.getUTCDay()];
+  const midnight = midnightLocal.getTime() - RESTAURANT_UTC_OFFSET_MINUTES * MINUTE;
+  const starts: Date[] = [];
+  for (let minute = parseClock(hours.open); minute + SLOT_MINUTES <= parseClock(hours.close); minute += SLOT_MINUTES) {
+    starts.push(new Date(midnight + minute * MINUTE));
+  }
+  return starts;
+}
+
+export function isSlotStart(date: Date): boolean {
+  return getDaySlotStarts(restaurantDate(date)).some(start => start.getTime() === date.getTime());
+}
+
+// Day of week (0 = Sunday) and minute of the day of an instant, in restaurant local time
+export function restaurantClock(date: Date): { day: number; minute: number } {
+  const local = toLocal(date);
+  return { day: local.getUTCDay(), minute: local.getUTCHours() * 60 + local.getUTCMinutes() };
+}
+
+export function isOpenAt(date: Date): boolean {
+  const { day, minute } = restaurantClock(date);
+  const hours = openingHours[day];
+  return minute >= parseClock(hours.open) && minute < parseClock(hours.close);
+}
+
+export function formatSlotLabel(start: Date): string {
+  return toLocal(start).toISOString().slice(11, 16);
+}
+
+// Scheduled orders reach the kitchen and livreurs only `leadTimeMinutes` before their slot
+export function isOrderReleased(
+  order: { scheduledFor: Date | string | null },
+  leadTimeMinutes: number,
+  now: Date = new Date(),
+): boolean {
+  if (!order.scheduledFor) return true;
+  return new Date(order.scheduledFor).getTime() - leadTimeMinutes * MINUTE <= now.getTime();
+}
@@ -0,0 +1,71 @@
+import type { Order, OrderStatus, UserRole } from "./schema";
+
+// Allowed order lifecycle moves: from status -> to status -> roles allowed to make the move
+export const orderStatusTransitions: Record<OrderStatus, Partial<Record<OrderStatus, UserRole[]>>> = {
+  pending: {
+    confirmed: ["owner", "livreur"],
+    refused: ["owner"],
+    cancelled: ["owner", "client"],
+  },
+  confirmed: {
+    preparing: ["owner"],
+    cancelled: ["owner"],
+  },
+  refused: {},
+  preparing: {
+    ready: ["owner"],
+    cancelled: ["owner"],
+  },
+  ready: {
+    out_for_delivery: ["owner", "livreur"],
+    delivered: ["owner"],
+    cancelled: ["owner"],
+  },
+  out_for_delivery: {
+    delivered: ["owner", "livreur"],
+  },
+  delivered: {},
+  cancelled: {},
+};
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  refused: "Refused",
+  preparing: "Preparing",
+  ready: "Ready",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+// Delivered, refused or cancelled: statuses an order never leaves
+export function isOrderFinished(status: OrderStatus): boolean {
+  return Object.keys(orderStatusTransitions[status] ?? {}).length === 0;
+}
+
+export function getAllowedOrderStatuses(from: OrderStatus, role: UserRole): OrderStatus[] {
+  const transitions = orderStatusTransitions[from] ?? {};
+  return (Object.keys(transitions) as OrderStatus[]).filter(
+    (to) => transitions[to]?.includes(role)
+  );
+}
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus, role: UserRole): boolean {
+  return getAllowedOrderStatuses(from, role).includes(to);
+}
+
+// Customers (signed in or holding a tracking link) may cancel or edit an order until the restaurant confirms it
+export function canCustomerModifyOrder(status: OrderStatus): boolean {
+  return status === "pending";
+}
+
+// Orders can be assigned to, claimed by or taken from a livreur until they leave the shop
+export function canDispatchOrder(status: OrderStatus): boolean {
+  return status === "pending" || status === "confirmed" || status === "preparing" || status === "ready";
+}
+
+// Pending orders nobody has taken yet; livreurs see these as open and may claim them
+export function isOrderOpenForClaim(order: Pick<Order, "status" | "livreurId">): boolean {
+  return order.status === "pending" && !order.livreurId;
+}
@@ -0,0 +1,56 @@
+import type { Order, OrderItem, OrderStatus, OrderType } from "./schema";
+import type { DriverLocation } from "./driver-location";
+
+// Rough timings for menu items without a prep time and deliveries without coordinates
+export const DEFAULT_PREP_MINUTES = 20;
+export const DELIVERY_MINUTES = 20;
+
+const MINUTE = 60 * 1000;
+
+// Expected time the order is ready for pickup or at the customer's door; null once it is finished.
+// Orders the server has estimated carry estimatedAt; this covers pending orders and older ones.
+export function estimateOrderEta(
+  order: Pick<Order, "status" | "orderType" | "createdAt" | "updatedAt" | "scheduledFor" | "routeMinutes">,
+): Date | null {
+  const createdAt = new Date(order.createdAt).getTime();
+  const updatedAt = new Date(order.updatedAt).getTime();
+  // Orders in a batch know where they fall on the livreur's route
+  const travel = order.orderType === "delivery" ? (order.routeMinutes ?? DELIVERY_MINUTES) * MINUTE : 0;
+
+  switch (order.status) {
+    case "pending":
+    case "confirmed":
+    case "preparing": {
+      const estimate = Math.max(createdAt + DEFAULT_PREP_MINUTES * MINUTE, Date.now()) + travel;
+      // Scheduled orders are due at their slot, not before
+      const slot = order.scheduledFor ? new Date(order.scheduledFor).getTime() : 0;
+      return new Date(Math.max(estimate, slot));
+    }
+    case "ready":
+    case "out_for_delivery":
+      return new Date(Math.max(updatedAt + travel, Date.now()));
+    default:
+      return null;
+  }
+}
+
+// What GET /api/orders/track/:token exposes: no contact details, address or staff ids
+export interface TrackedOrder {
+  reference: string;
+  status: OrderStatus;
+  orderType: OrderType;
+  createdAt: string;
+  updatedAt: string;
+  preferredTime: string | null;
+  scheduledFor: string | null;
+  estimatedAt: string | null;
+  items: Pick<OrderItem, "menuItemId" | "name" | "quantity" | "unitPrice" | "selectedOptions" | "note">[];
+  notes: string | null;
+  deliveryFee: string;
+  totalAmount: string;
+  livreurFirstName: string | null;
+  handoverCode: string | null;
+  // Courier position while out for delivery; never the customer's own address
+  driverLocation: DriverLocation | null;
+  history: { status: OrderStatus; at: string }[];
+}
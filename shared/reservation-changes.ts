@@ -0,0 +1,49 @@
+import type { Reservation, ReservationFieldChange, ReservationStatus } from "./schema";
+import { RESTAURANT_UTC_OFFSET_MINUTES } from "./order-slots";
+import { reservationStatusLabels } from "./reservation-status";
+
+export const reservationFieldLabels: Record<ReservationFieldChange["field"], string> = {
+  date: "Date",
+  time: "Time",
+  partySize: "Party size",
+  status: "Status",
+  tables: "Tables",
+};
+
+// The moment a booking starts, from its restaurant-local date and time
+export function reservationStartsAt(reservation: Pick<Reservation, "date" | "time">): Date {
+  return new Date(Date.parse(`${reservation.date}T${reservation.time}:00Z`) - RESTAURANT_UTC_OFFSET_MINUTES * 60 * 1000);
+}
+
+// Field-by-field differences between a booking before and after a change
+export function diffReservation(
+  before: Pick<Reservation, "date" | "time" | "partySize" | "status">,
+  after: Pick<Reservation, "date" | "time" | "partySize" | "status">,
+): ReservationFieldChange[] {
+  return (["date", "time", "partySize", "status"] as const)
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, from: before[field], to: after[field] }));
+}
+
+function formatFieldValue(change: ReservationFieldChange, value: ReservationFieldChange["from"]): string {
+  if (value === null) return "none";
+  if (change.field === "status") return reservationStatusLabels[value as ReservationStatus] ?? String(value);
+  return String(value);
+}
+
+// e.g. "Time: 19:00 → 20:30"
+export function describeReservationChange(change: ReservationFieldChange): string {
+  return `${reservationFieldLabels[change.field]}: ${formatFieldValue(change, change.from)} → ${formatFieldValue(change, change.to)}`;
+}
+
+// Guest view behind the manage link: their own booking, without tables or internal ids
+export interface ManagedReservation {
+  name: string;
+  date: string;
+  time: string;
+  partySize: number;
+  specialRequests: string | null;
+  status: ReservationStatus;
+  // Last moment the guest can still change or cancel online; null once that is no longer possible
+  changeableUntil: string | null;
+}
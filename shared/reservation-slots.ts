@@ -0,0 +1,50 @@
+import type { Reservation } from "./schema";
+import { openingHours, parseClock } from "./order-slots";
+import { holdsSeats } from "./reservation-status";
+
+// Reservations can start every half hour
+export const RESERVATION_INTERVAL_MINUTES = 30;
+
+// Answer of GET /api/reservations/availability: the times a party of that size can still book
+export interface ReservationTime {
+  time: string; // HH:MM, restaurant local time
+  seatsLeft: number;
+}
+
+export interface ReservationAvailability {
+  date: string;
+  partySize: number;
+  times: ReservationTime[];
+}
+
+const formatClock = (minute: number) =>
+  `${String(Math.floor(minute / 60)).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}`;
+
+// Start times on a restaurant calendar date (YYYY-MM-DD) that end by closing time; empty if malformed
+export function getReservationTimes(date: string, slotMinutes: number): string[] {
+  const day = new Date(`${date}T00:00:00Z`);
+  if (isNaN(day.getTime())) return [];
+
+  const hours = openingHours[day.getUTCDay()];
+  const times: string[] = [];
+  for (let minute = parseClock(hours.open); minute + slotMinutes <= parseClock(hours.close); minute += RESERVATION_INTERVAL_MINUTES) {
+    times.push(formatClock(minute));
+  }
+  return times;
+}
+
+// Guests seated at some point during [time, time + slotMinutes): the busiest moment decides whether a party fits
+export function seatsTakenDuring(
+  reservations: Pick<Reservation, "time" | "partySize" | "status">[],
+  time: string,
+  slotMinutes: number,
+): number {
+  const start = parseClock(time);
+  const active = reservations.filter(holdsSeats);
+  // Occupancy only rises when a booking starts, so checking those moments is enough
+  const moments = [start, ...active.map(r => parseClock(r.time)).filter(m => m > start && m < start + slotMinutes)];
+
+  return Math.max(...moments.map(moment => active
+    .filter(r => parseClock(r.time) <= moment && moment < parseClock(r.time) + slotMinutes)
+    .reduce((sum, r) => sum + r.partySize, 0)));
+}
@@ -0,0 +1,41 @@
+import type { ReservationStatus } from "./schema";
+
+// Allowed reservation lifecycle moves made by the owner: from status -> statuses it can move to
+export const reservationStatusTransitions: Record<ReservationStatus, ReservationStatus[]> = {
+  pending: ["confirmed", "declined", "cancelled"],
+  confirmed: ["seated", "no_show", "cancelled"],
+  declined: [],
+  seated: ["completed"],
+  completed: [],
+  no_show: [],
+  cancelled: [],
+};
+
+export const reservationStatusLabels: Record<ReservationStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  declined: "Declined",
+  seated: "Seated",
+  completed: "Completed",
+  no_show: "No-show",
+  cancelled: "Cancelled",
+};
+
+export function getAllowedReservationStatuses(from: ReservationStatus): ReservationStatus[] {
+  return reservationStatusTransitions[from] ?? [];
+}
+
+export function canTransitionReservation(from: ReservationStatus, to: ReservationStatus): boolean {
+  return getAllowedReservationStatuses(from).includes(to);
+}
+
+// Guests holding the manage link may move or cancel their booking until it is declined or they arrive
+// (and only up to the change cutoff before it starts, which the server checks)
+export function canGuestChangeReservation(status: ReservationStatus): boolean {
+  return status === "pending" || status === "confirmed";
+}
+
+// Bookings that still count against seating capacity; a party that has left frees its table early
+export function holdsSeats(reservation: { status: ReservationStatus }): boolean {
+  return reservation.status === "pending" || reservation.status === "confirmed" || reservation.status === "seated";
+}
@@ -1,9 +1,13 @@
-import { pgTable, text, varchar, decimal, integer, timestamp, boolean, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, integer, timestamp, boolean, serial, doublePrecision, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { getCommune } from "./algeria-locations";
 
 // Users
+export const userRoles = ["owner", "livreur", "client"] as const;
+export type UserRole = typeof userRoles[number];
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   email: text("email").notNull().unique(),
@@ -12,17 +16,19 @@ export const users = pgTable("users", {
   phone: text("phone"),
   role: text("role").notNull().default("client"), // 'owner', 'livreur', 'client'
   active: boolean("active").notNull().default(true),
+  online: boolean("online").notNull().default(false), // livreurs: toggled from their dashboard
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   active: true,
+  online: true,
   createdAt: true,
 }).extend({
   email: z.string().email("Please enter a valid email address"),
   password: z.string().min(6, "Password must be at least 6 characters"),
-  role: z.enum(["owner", "livreur", "client"]).default("client"),
+  role: z.enum(userRoles).default("client"),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -43,6 +49,44 @@ export const insertCategorySchema = createInsertSchema(categories).omit({
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Category = typeof categories.$inferSelect;
 
+// Menu Item Options (sizes, toppings, extras)
+export const menuItemOptionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, "Option name is required"),
+  priceDelta: z.coerce.number().min(0, "Price delta cannot be negative").transform(String),
+});
+
+export const menuOptionGroupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, "Group name is required"),
+  selection: z.enum(["single", "multiple"]),
+  minChoices: z.coerce.number().int().min(0),
+  maxChoices: z.coerce.number().int().min(1),
+  options: z.array(menuItemOptionSchema).min(1, "Add at least one option"),
+}).refine(group => group.minChoices <= group.maxChoices, {
+  message: "Minimum choices cannot exceed maximum choices",
+}).refine(group => group.selection === "multiple" || group.maxChoices === 1, {
+  message: "Single-select groups allow exactly one choice",
+}).refine(group => group.minChoices <= group.options.length, {
+  message: "Minimum choices cannot exceed the number of options",
+});
+
+export type MenuItemOption = z.output<typeof menuItemOptionSchema>;
+export type MenuOptionGroup = z.output<typeof menuOptionGroupSchema>;
+
+// Multipart form submissions carry the option groups as a JSON string
+export const menuOptionGroupsSchema = z.preprocess(
+  value => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value || "[]");
+    } catch {
+      return value;
+    }
+  },
+  z.array(menuOptionGroupSchema),
+);
+
 // Menu Items
 export const menuItems = pgTable("menu_items", {
   id: varchar("id").primaryKey(),
@@ -54,21 +98,48 @@ export const menuItems = pgTable("menu_items", {
   imageUrl: text("image_url"),
   available: boolean("available").notNull().default(true),
   popular: boolean("popular").notNull().default(false),
+  optionGroups: jsonb("option_groups").$type<MenuOptionGroup[]>().notNull().default([]),
+  // Kitchen time for one portion; null falls back to the default used for order ETAs
+  prepMinutes: integer("prep_minutes"),
 });
 
+// Form posts send "" for an empty field, which means "use the default"
+export const menuItemPrepMinutesSchema = z.preprocess(
+  (value) => value === "" || value === "null" ? null : value,
+  z.coerce.number().int().min(1, "Prep time must be at least 1 minute").max(240).nullable(),
+);
+
 export const insertMenuItemSchema = createInsertSchema(menuItems).omit({
   id: true,
 }).extend({
+  prepMinutes: menuItemPrepMinutesSchema.optional(),
   price: z.coerce.number().positive("Price must be greater than 0"),
   deliveryFee: z.coerce.number().min(0, "Delivery fee cannot be negative").default(0),
   available: z.coerce.boolean().default(true),
   popular: z.coerce.boolean().default(false),
+  optionGroups: menuOptionGroupsSchema.default([]),
 });
 
 export type InsertMenuItem = z.infer<typeof insertMenuItemSchema>;
 export type MenuItem = typeof menuItems.$inferSelect;
 
+// Wall-clock times in restaurant local time
+const clockSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
 // Reservations
+export const reservationStatuses = [
+  "pending",
+  "confirmed",
+  "declined",
+  "seated",
+  "completed",
+  "no_show",
+  "cancelled",
+] as const;
+
+export const reservationStatusSchema = z.enum(reservationStatuses);
+export type ReservationStatus = z.infer<typeof reservationStatusSchema>;
+
 export const reservations = pgTable("reservations", {
   id: varchar("id").primaryKey(),
   name: text("name").notNull(),
@@ -78,37 +149,243 @@ export const reservations = pgTable("reservations", {
   time: text("time").notNull(),
   partySize: integer("party_size").notNull(),
   specialRequests: text("special_requests"),
-  status: text("status").notNull().default("pending"),
+  status: text("status", { enum: reservationStatuses }).notNull().default("pending"),
+  tableIds: jsonb("table_ids").$type<string[]>(), // tables the party sits at; null until assigned or when no tables are set up
+  manageToken: text("manage_token").unique(), // secret in the guest's link to change or cancel the booking
+  guestChangedAt: timestamp("guest_changed_at"), // last time the guest moved the booking through that link
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertReservationSchema = createInsertSchema(reservations).omit({
   id: true,
   status: true,
+  tableIds: true,
+  manageToken: true,
+  guestChangedAt: true,
   createdAt: true,
 }).extend({
   email: z.string().email("Please enter a valid email address"),
   phone: z.string().min(10, "Please enter a valid phone number"),
-  partySize: z.coerce.number().min(1, "Party size must be at least 1").max(20, "Party size cannot exceed 20"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Please pick a date"),
+  time: clockSchema,
+  partySize: z.coerce.number().int().min(1, "Party size must be at least 1").max(20, "Party size cannot exceed 20"),
 });
 
 export type InsertReservation = z.infer<typeof insertReservationSchema>;
 export type Reservation = typeof reservations.$inferSelect;
 
+// Reservation Events (change history: what the guest or the owner changed on a booking)
+export const reservationEventActors = ["guest", "owner"] as const;
+export type ReservationEventActor = typeof reservationEventActors[number];
+
+const reservationFieldValueSchema = z.union([z.string(), z.number()]).nullable();
+
+export const reservationFieldChangeSchema = z.object({
+  field: z.enum(["date", "time", "partySize", "status", "tables"]),
+  from: reservationFieldValueSchema,
+  to: reservationFieldValueSchema,
+});
+
+export type ReservationFieldChange = z.infer<typeof reservationFieldChangeSchema>;
+
+export const reservationEvents = pgTable("reservation_events", {
+  id: varchar("id").primaryKey(),
+  reservationId: varchar("reservation_id").notNull().references(() => reservations.id),
+  actor: text("actor", { enum: reservationEventActors }).notNull(),
+  actorUserId: integer("actor_user_id").references(() => users.id), // null for guest changes
+  changes: jsonb("changes").$type<ReservationFieldChange[]>().notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertReservationEventSchema = createInsertSchema(reservationEvents).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  changes: z.array(reservationFieldChangeSchema),
+});
+
+export type InsertReservationEvent = z.infer<typeof insertReservationEventSchema>;
+export type ReservationEvent = typeof reservationEvents.$inferSelect;
+
+// Reservation Settings (single row: how many guests fit at once and how long a table is held)
+export const reservationSettings = pgTable("reservation_settings", {
+  id: varchar("id").primaryKey(),
+  seatingCapacity: integer("seating_capacity").notNull(),
+  slotMinutes: integer("slot_minutes").notNull(), // a booking holds its seats this long
+});
+
+export const updateReservationSettingsSchema = createInsertSchema(reservationSettings).omit({
+  id: true,
+}).extend({
+  seatingCapacity: z.coerce.number().int().min(1, "Capacity must be at least 1 seat").max(1000),
+  slotMinutes: z.coerce.number().int().min(30, "Slots are at least 30 minutes").max(300),
+}).partial();
+
+export type UpdateReservationSettings = z.infer<typeof updateReservationSettingsSchema>;
+export type ReservationSettings = typeof reservationSettings.$inferSelect;
+
+// Restaurant Tables (the floor plan reservations are seated on)
+export const tableAreas = ["indoor", "terrace"] as const;
+export type TableArea = typeof tableAreas[number];
+
+export const restaurantTables = pgTable("restaurant_tables", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  seats: integer("seats").notNull(),
+  area: text("area", { enum: tableAreas }).notNull().default("indoor"),
+  combinableWith: jsonb("combinable_with").$type<string[]>().notNull().default([]), // neighbouring table ids that can be pushed together
+  planX: integer("plan_x").notNull().default(0), // floor plan position, percent of width
+  planY: integer("plan_y").notNull().default(0), // floor plan position, percent of height
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRestaurantTableSchema = createInsertSchema(restaurantTables).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Table name is required"),
+  seats: z.coerce.number().int().min(1, "A table seats at least 1 guest").max(20),
+  area: z.enum(tableAreas).optional(),
+  combinableWith: z.array(z.string()).optional(),
+  planX: z.coerce.number().int().min(0).max(100).optional(),
+  planY: z.coerce.number().int().min(0).max(100).optional(),
+});
+
+export type InsertRestaurantTable = z.infer<typeof insertRestaurantTableSchema>;
+export type RestaurantTable = typeof restaurantTables.$inferSelect;
+
+export const reservationTablesSchema = z.object({
+  tableIds: z.array(z.string()).min(1, "Pick at least one table"),
+});
+
+// Waitlist (walk-in parties queuing for a table, in arrival order)
+export const waitlistStatuses = ["waiting", "notified", "seated", "left"] as const;
+
+export const waitlistStatusSchema = z.enum(waitlistStatuses);
+export type WaitlistStatus = z.infer<typeof waitlistStatusSchema>;
+
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  phone: text("phone").notNull(),
+  partySize: integer("party_size").notNull(),
+  status: text("status", { enum: waitlistStatuses }).notNull().default("waiting"),
+  token: text("token").notNull().unique(), // secret in the guest's link to check their place
+  quotedMinutes: integer("quoted_minutes").notNull(), // wait told to the guest when they were added
+  notifiedAt: timestamp("notified_at"),
+  seatedAt: timestamp("seated_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries).omit({
+  id: true,
+  status: true,
+  token: true,
+  quotedMinutes: true,
+  notifiedAt: true,
+  seatedAt: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  phone: z.string().trim().min(9, "Please enter a valid phone number"),
+  partySize: z.coerce.number().int().min(1, "Party size must be at least 1").max(20, "Party size cannot exceed 20"),
+});
+
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+
 // Orders
+export const orderStatuses = [
+  "pending",
+  "confirmed",
+  "refused",
+  "preparing",
+  "ready",
+  "out_for_delivery",
+  "delivered",
+  "cancelled",
+] as const;
+
+export const orderStatusSchema = z.enum(orderStatuses);
+export type OrderStatus = z.infer<typeof orderStatusSchema>;
+
+export const orderTypes = ["pickup", "delivery"] as const;
+export type OrderType = typeof orderTypes[number];
+
+// How a delivery was proven: the customer's handover code, a photo when the customer couldn't be
+// reached, or the owner marking it delivered themselves
+export const deliveryProofMethods = ["code", "photo", "owner"] as const;
+export type DeliveryProofMethod = typeof deliveryProofMethods[number];
+
+export const deliveryProofSchema = z.object({
+  method: z.enum(deliveryProofMethods),
+  photoUrl: z.string().nullable(),
+  recordedBy: z.number().int(),
+  recordedAt: z.string(),
+});
+
+export type DeliveryProof = z.infer<typeof deliveryProofSchema>;
+
+// Structured Algerian address: wilaya and commune come from the bundled reference list
+export const algerianAddressSchema = z.object({
+  wilaya: z.string().min(1, "Please choose a wilaya"),
+  commune: z.string().min(1, "Please choose a commune"),
+  district: z.string().trim().min(2, "Please give the district, cité or street").max(200), // district / cité / street
+  building: z.string().trim().max(50).nullish(), // e.g. "Bt 12, entrée B"
+  floor: z.string().trim().max(20).nullish(),
+  landmark: z.string().trim().max(300).nullish(), // e.g. "blue gate next to the pharmacy"
+}).refine((address) => getCommune(address.commune)?.wilayaCode === address.wilaya, {
+  message: "This commune is not in the chosen wilaya",
+  path: ["commune"],
+});
+
+export type AlgerianAddress = z.infer<typeof algerianAddressSchema>;
+
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email").notNull(),
   customerPhone: text("customer_phone").notNull(),
-  items: text("items").notNull(), // JSON string of order items
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("pending"), // 'pending', 'confirmed', 'refused', 'preparing', 'ready', 'delivered'
-  orderType: text("order_type").notNull(), // 'pickup' or 'delivery'
+  deliveryFee: decimal("delivery_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  status: text("status", { enum: orderStatuses }).notNull().default("pending"),
+  orderType: text("order_type", { enum: orderTypes }).notNull(),
   deliveryAddress: text("delivery_address"),
+  deliveryLat: doublePrecision("delivery_lat"),
+  deliveryLng: doublePrecision("delivery_lng"),
+  deliveryZoneId: varchar("delivery_zone_id"), // null for pickup and out-of-area deliveries
+  // Structured address the customer picked at checkout; deliveryAddress holds it formatted for the livreur.
+  // Null on pickups and on orders from before structured addresses.
+  addressParts: jsonb("address_parts").$type<AlgerianAddress>(),
+  deliveryCommune: varchar("delivery_commune"), // commune code from addressParts, kept apart for zones and reports
+  // Free-text time from before slots existed; new orders use scheduledFor
+  preferredTime: text("preferred_time"),
+  // Start of the chosen time slot; null for as-soon-as-possible orders
+  scheduledFor: timestamp("scheduled_for"),
   notes: text("notes"),
   livreurId: integer("livreur_id").references(() => users.id),
+  // Unguessable token for the public tracking link; null on orders placed before tracking existed
+  trackingToken: text("tracking_token").unique(),
+  // 4-digit code the customer gives the livreur at the door; delivery orders only
+  handoverCode: text("handover_code"),
+  // Tries at the handover code so far; the code locks after a few, so it can't be guessed
+  handoverAttempts: integer("handover_attempts").notNull().default(0),
+  deliveryProof: jsonb("delivery_proof").$type<DeliveryProof>(),
+  // Cash the livreur says they took at the door; null until a delivery order is delivered
+  cashCollected: decimal("cash_collected", { precision: 10, scale: 2 }),
+  cashNote: text("cash_note"), // e.g. "customer was 50 DZD short"
+  // Set once the owner has counted the livreur's hand-in for this order
+  settlementId: varchar("settlement_id"),
+  // Set when a livreur takes several ready orders as one run; batchStop is the 1-based visiting position
+  batchId: varchar("batch_id"),
+  batchStop: integer("batch_stop"),
+  // Minutes from leaving the shop to this door along the batch route, used for the customer's ETA
+  routeMinutes: integer("route_minutes"),
+  // Ready for pickup / at the door; worked out by the server whenever the status changes
+  estimatedAt: timestamp("estimated_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -116,22 +393,255 @@ export const orders = pgTable("orders", {
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
   status: true,
+  // Assigned through claim/assign, derived from addressParts: never taken from the customer
+  livreurId: true,
+  deliveryCommune: true,
+  trackingToken: true,
+  handoverCode: true,
+  handoverAttempts: true,
+  deliveryProof: true,
+  cashCollected: true,
+  cashNote: true,
+  settlementId: true,
+  batchId: true,
+  batchStop: true,
+  routeMinutes: true,
+  estimatedAt: true,
   createdAt: true,
+  updatedAt: true,
 }).extend({
   customerEmail: z.string().email("Please enter a valid email address"),
   customerPhone: z.string().min(10, "Please enter a valid phone number"),
+  deliveryLat: z.coerce.number().min(-90).max(90).nullish(),
+  deliveryLng: z.coerce.number().min(-180).max(180).nullish(),
+  addressParts: algerianAddressSchema.nullish(),
+  scheduledFor: z.coerce.date().nullish(),
 });
 
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
 
+// Order Items (one row per order line, with name/price snapshots taken at order time)
+export const orderItemOptionSchema = z.object({
+  groupId: z.string(),
+  groupName: z.string(),
+  optionId: z.string(),
+  optionName: z.string(),
+  priceDelta: z.string(),
+});
+
+export type OrderItemOption = z.infer<typeof orderItemOptionSchema>;
+
+export const orderItems = pgTable("order_items", {
+  id: varchar("id").primaryKey(),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  menuItemId: varchar("menu_item_id").notNull(), // not a foreign key: menu items can be deleted after being sold
+  name: text("name").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  quantity: integer("quantity").notNull(),
+  selectedOptions: jsonb("selected_options").$type<OrderItemOption[]>().notNull().default([]),
+  note: text("note"),
+});
+
+export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
+  id: true,
+}).extend({
+  quantity: z.number().int().min(1),
+  selectedOptions: z.array(orderItemOptionSchema).default([]),
+});
+
+export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type OrderItem = typeof orderItems.$inferSelect;
+
+export type OrderWithItems = Order & { items: OrderItem[] };
+
+// Order Events (status history / audit trail)
+export const orderEvents = pgTable("order_events", {
+  id: varchar("id").primaryKey(),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  actorUserId: integer("actor_user_id").references(() => users.id),
+  actorRole: text("actor_role"), // null for guest actions
+  fromStatus: text("from_status", { enum: orderStatuses }), // null for the creation event
+  toStatus: text("to_status", { enum: orderStatuses }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertOrderEventSchema = createInsertSchema(orderEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertOrderEvent = z.infer<typeof insertOrderEventSchema>;
+export type OrderEvent = typeof orderEvents.$inferSelect;
+
+// Cash Settlements (one per livreur shift: the cash the owner counted against what the orders say)
+export const cashSettlements = pgTable("cash_settlements", {
+  id: varchar("id").primaryKey(),
+  livreurId: integer("livreur_id").references(() => users.id).notNull(),
+  settledBy: integer("settled_by").references(() => users.id).notNull(),
+  // First delivery of the shift to the moment the owner settled it
+  shiftStart: timestamp("shift_start").notNull(),
+  shiftEnd: timestamp("shift_end").notNull(),
+  orderCount: integer("order_count").notNull(),
+  expectedAmount: decimal("expected_amount", { precision: 10, scale: 2 }).notNull(), // order totals
+  collectedAmount: decimal("collected_amount", { precision: 10, scale: 2 }).notNull(), // what the livreur recorded
+  handedInAmount: decimal("handed_in_amount", { precision: 10, scale: 2 }).notNull(), // what the owner counted
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCashSettlementSchema = createInsertSchema(cashSettlements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCashSettlement = z.infer<typeof insertCashSettlementSchema>;
+export type CashSettlement = typeof cashSettlements.$inferSelect;
+
+// Customer Addresses (address book of signed-in clients; orders copy the chosen one)
+export const customerAddresses = pgTable("customer_addresses", {
+  id: varchar("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  label: text("label").notNull(), // e.g. "Home", "Office"
+  // Wilaya and commune codes; null on addresses saved before structured addresses
+  wilaya: varchar("wilaya"),
+  commune: varchar("commune"),
+  street: text("street").notNull(), // district / cité / street
+  district: text("district"), // older addresses: district or commune as typed
+  building: text("building"),
+  floor: text("floor"),
+  landmark: text("landmark"), // e.g. "blue gate next to the pharmacy"
+  lat: doublePrecision("lat"),
+  lng: doublePrecision("lng"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCustomerAddressSchema = createInsertSchema(customerAddresses).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  label: z.string().trim().min(1, "Please name this address").max(50),
+  wilaya: z.string().min(1).nullish(),
+  commune: z.string().min(1).nullish(),
+  street: z.string().trim().min(3, "Street is required").max(300),
+  district: z.string().trim().max(100).nullish(),
+  building: z.string().trim().max(50).nullish(),
+  floor: z.string().trim().max(20).nullish(),
+  landmark: z.string().trim().max(300).nullish(),
+  lat: z.coerce.number().min(-90).max(90).nullish(),
+  lng: z.coerce.number().min(-180).max(180).nullish(),
+}).refine((address) => (address.lat == null) === (address.lng == null), {
+  message: "Coordinates need both a latitude and a longitude",
+}).refine((address) => (!address.wilaya && !address.commune) || getCommune(address.commune ?? "")?.wilayaCode === address.wilaya, {
+  message: "Please choose a commune in the chosen wilaya",
+  path: ["commune"],
+});
+
+export type InsertCustomerAddress = z.infer<typeof insertCustomerAddressSchema>;
+export type CustomerAddress = typeof customerAddresses.$inferSelect;
+
+// Livreur Shifts (weekly schedule set by the owner, in restaurant local time)
+
+export const livreurShifts = pgTable("livreur_shifts", {
+  id: varchar("id").primaryKey(),
+  livreurId: integer("livreur_id").notNull().references(() => users.id),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday
+  startTime: text("start_time").notNull(), // HH:MM
+  endTime: text("end_time").notNull(), // HH:MM, before startTime for shifts that run past midnight
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertLivreurShiftSchema = createInsertSchema(livreurShifts).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  livreurId: z.coerce.number().int().positive(),
+  dayOfWeek: z.coerce.number().int().min(0).max(6),
+  startTime: clockSchema,
+  endTime: clockSchema,
+}).refine((shift) => shift.startTime !== shift.endTime, { message: "A shift cannot start and end at the same time" });
+
+export type InsertLivreurShift = z.infer<typeof insertLivreurShiftSchema>;
+export type LivreurShift = typeof livreurShifts.$inferSelect;
+
+// Delivery Zones (radius rings around the shop or drawn polygons, each with its own fee)
+export const geoPointSchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+});
+
+export type GeoPoint = z.infer<typeof geoPointSchema>;
+
+export const deliveryZoneShapes = ["radius", "polygon", "communes"] as const;
+export type DeliveryZoneShape = typeof deliveryZoneShapes[number];
+
+export const deliveryZones = pgTable("delivery_zones", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  shape: text("shape", { enum: deliveryZoneShapes }).notNull(),
+  radiusKm: doublePrecision("radius_km"), // radius zones: distance from the shop
+  polygon: jsonb("polygon").$type<GeoPoint[]>(), // polygon zones: outline, in order
+  communes: jsonb("communes").$type<string[]>(), // commune zones: commune codes covered
+  fee: decimal("fee", { precision: 10, scale: 2 }).notNull(),
+  minimumOrder: decimal("minimum_order", { precision: 10, scale: 2 }).notNull().default("0"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertDeliveryZoneSchema = createInsertSchema(deliveryZones).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Zone name is required"),
+  radiusKm: z.coerce.number().positive().nullish(),
+  polygon: z.array(geoPointSchema).nullish(),
+  communes: z.array(z.string().refine((code) => !!getCommune(code), "Unknown commune")).nullish(),
+  fee: z.coerce.number().min(0).transform(String),
+  minimumOrder: z.coerce.number().min(0).transform(String).optional(),
+}).refine(
+  (zone) => zone.shape === "radius" ? !!zone.radiusKm
+    : zone.shape === "polygon" ? (zone.polygon?.length ?? 0) >= 3
+    : (zone.communes?.length ?? 0) > 0,
+  { message: "Radius zones need a radius, polygon zones at least 3 points and commune zones at least one commune" },
+);
+
+export type InsertDeliveryZone = z.infer<typeof insertDeliveryZoneSchema>;
+export type DeliveryZone = typeof deliveryZones.$inferSelect;
+
+// Delivery Settings (single row: shop location and what to do outside every zone)
+export const outOfAreaRules = ["reject", "flat_fee"] as const;
+export type OutOfAreaRule = typeof outOfAreaRules[number];
+
+export const deliverySettings = pgTable("delivery_settings", {
+  id: varchar("id").primaryKey(),
+  shopLat: doublePrecision("shop_lat").notNull(),
+  shopLng: doublePrecision("shop_lng").notNull(),
+  outOfAreaRule: text("out_of_area_rule", { enum: outOfAreaRules }).notNull().default("reject"),
+  outOfAreaFee: decimal("out_of_area_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  outOfAreaMaxKm: doublePrecision("out_of_area_max_km"), // flat_fee only; null means no limit
+});
+
+export const updateDeliverySettingsSchema = createInsertSchema(deliverySettings).omit({
+  id: true,
+}).extend({
+  shopLat: z.coerce.number().min(-90).max(90),
+  shopLng: z.coerce.number().min(-180).max(180),
+  outOfAreaFee: z.coerce.number().min(0).transform(String).optional(),
+  outOfAreaMaxKm: z.coerce.number().positive().nullish(),
+}).partial();
+
+export type UpdateDeliverySettings = z.infer<typeof updateDeliverySettingsSchema>;
+export type DeliverySettings = typeof deliverySettings.$inferSelect;
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   orders: many(orders),
   deliveries: many(orders),
 }));
 
-export const ordersRelations = relations(orders, ({ one }) => ({
+export const ordersRelations = relations(orders, ({ one, many }) => ({
   user: one(users, {
     fields: [orders.userId],
     references: [users.id],
@@ -140,4 +650,39 @@ export const ordersRelations = relations(orders, ({ one }) => ({
     fields: [orders.livreurId],
     references: [users.id],
   }),
+  items: many(orderItems),
+  events: many(orderEvents),
+}));
+
+export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderItems.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const orderEventsRelations = relations(orderEvents, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderEvents.orderId],
+    references: [orders.id],
+  }),
+  actor: one(users, {
+    fields: [orderEvents.actorUserId],
+    references: [users.id],
+  }),
+}));
+
+export const reservationsRelations = relations(reservations, ({ many }) => ({
+  events: many(reservationEvents),
+}));
+
+export const reservationEventsRelations = relations(reservationEvents, ({ one }) => ({
+  reservation: one(reservations, {
+    fields: [reservationEvents.reservationId],
+    references: [reservations.id],
+  }),
+  actor: one(users, {
+    fields: [reservationEvents.actorUserId],
+    references: [users.id],
+  }),
 }));
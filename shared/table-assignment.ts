@@ -0,0 +1,104 @@
+import type { Reservation, RestaurantTable } from "./schema";
+import { parseClock } from "./order-slots";
+import { holdsSeats } from "./reservation-status";
+
+// Staff won't push together more tables than this for one party
+export const MAX_COMBINED_TABLES = 3;
+
+type SeatedReservation = Pick<Reservation, "id" | "time" | "partySize" | "status" | "tableIds">;
+
+// Neighbours go both ways, whichever of the two tables the owner listed them on
+function neighbours(tables: RestaurantTable[]): Map<string, Set<string>> {
+  const graph = new Map(tables.map(table => [table.id, new Set<string>()]));
+  for (const table of tables) {
+    for (const id of table.combinableWith) {
+      if (!graph.has(id) || id === table.id) continue;
+      graph.get(table.id)!.add(id);
+      graph.get(id)!.add(table.id);
+    }
+  }
+  return graph;
+}
+
+// Every single table and every connected group of neighbours up to MAX_COMBINED_TABLES, as sorted id lists
+export function tableCombinations(tables: RestaurantTable[]): string[][] {
+  const active = tables.filter(table => table.active);
+  const graph = neighbours(active);
+  const seen = new Set<string>();
+  const combinations: string[][] = [];
+
+  let frontier = active.map(table => [table.id]);
+  while (frontier.length > 0) {
+    const next: string[][] = [];
+    for (const group of frontier) {
+      const key = [...group].sort().join(",");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      combinations.push([...group].sort());
+
+      if (group.length === MAX_COMBINED_TABLES) continue;
+      for (const id of group) {
+        graph.get(id)!.forEach(neighbour => {
+          if (!group.includes(neighbour)) next.push([...group, neighbour]);
+        });
+      }
+    }
+    frontier = next;
+  }
+  return combinations;
+}
+
+export function seatsAt(tables: RestaurantTable[], tableIds: string[]): number {
+  return tableIds.reduce((sum, id) => sum + (tables.find(table => table.id === id)?.seats ?? 0), 0);
+}
+
+// Bookings whose table time overlaps [time, time + slotMinutes)
+export function overlappingReservations<T extends SeatedReservation>(
+  reservations: T[],
+  time: string,
+  slotMinutes: number,
+): T[] {
+  const start = parseClock(time);
+  return reservations.filter(r => holdsSeats(r) && Math.abs(parseClock(r.time) - start) < slotMinutes);
+}
+
+// What is still free for a booking at `time`: the unoccupied tables, and the guests booked before tables
+// were set up, who still need seats somewhere
+export function freeTablesDuring(
+  tables: RestaurantTable[],
+  reservations: SeatedReservation[],
+  time: string,
+  slotMinutes: number,
+  excludeId?: string,
+): { free: RestaurantTable[]; unplacedGuests: number } {
+  const overlapping = overlappingReservations(reservations.filter(r => r.id !== excludeId), time, slotMinutes);
+  const taken = new Set(overlapping.flatMap(r => r.tableIds ?? []));
+  return {
+    free: tables.filter(table => table.active && !taken.has(table.id)),
+    unplacedGuests: overlapping.filter(r => !r.tableIds?.length).reduce((sum, r) => sum + r.partySize, 0),
+  };
+}
+
+// The free table or neighbour group wasting the fewest seats, then using the fewest tables; null if none fits
+export function bestTableAssignment(
+  tables: RestaurantTable[],
+  reservations: SeatedReservation[],
+  time: string,
+  partySize: number,
+  slotMinutes: number,
+): string[] | null {
+  const { free, unplacedGuests } = freeTablesDuring(tables, reservations, time, slotMinutes);
+  const freeSeats = free.reduce((sum, table) => sum + table.seats, 0);
+  if (freeSeats - unplacedGuests < partySize) return null;
+
+  const candidates = tableCombinations(free)
+    .map(tableIds => ({ tableIds, seats: seatsAt(free, tableIds) }))
+    .filter(({ seats }) => seats >= partySize)
+    .sort((a, b) => a.seats - b.seats || a.tableIds.length - b.tableIds.length);
+  return candidates[0]?.tableIds ?? null;
+}
+
+// Seats at the largest table or neighbour group: bigger parties can't be booked online
+export function largestTableGroup(tables: RestaurantTable[]): number {
+  return Math.max(0, ...tableCombinations(tables).map(tableIds => seatsAt(tables, tableIds)));
+}
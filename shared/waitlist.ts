@@ -0,0 +1,52 @@
+import type { WaitlistEntry, WaitlistStatus } from "./schema";
+
+// Quoted waits are rounded up to this many minutes; nobody believes "in 13 minutes"
+export const WAIT_ROUNDING_MINUTES = 5;
+
+// Still queuing: either waiting their turn or told their table is ready
+export function isOnWaitlist(entry: Pick<WaitlistEntry, "status">): boolean {
+  return entry.status === "waiting" || entry.status === "notified";
+}
+
+export const waitlistStatusLabels: Record<WaitlistStatus, string> = {
+  waiting: "Waiting",
+  notified: "Table ready",
+  seated: "Seated",
+  left: "Left",
+};
+
+export interface WaitlistPlace {
+  position: number; // 1 = next to be seated
+  estimatedWaitMinutes: number;
+}
+
+// Staff view: the entry with its live place in the queue (null once seated or gone)
+export type QueuedWaitlistEntry = WaitlistEntry & { place: WaitlistPlace | null };
+
+// Guest view behind the waitlist link: no phone number, nothing about other parties
+export interface TrackedWaitlistEntry {
+  name: string;
+  partySize: number;
+  status: WaitlistStatus;
+  place: WaitlistPlace | null;
+  quotedMinutes: number;
+  createdAt: string;
+  notifiedAt: string | null;
+}
+
+// The party at `position` among those still waiting, with one party seated every `minutesPerParty` on average
+export function estimateWaitMinutes(position: number, minutesPerParty: number): number {
+  return Math.ceil((position * minutesPerParty) / WAIT_ROUNDING_MINUTES) * WAIT_ROUNDING_MINUTES;
+}
+
+export function toTrackedWaitlistEntry(entry: QueuedWaitlistEntry): TrackedWaitlistEntry {
+  return {
+    name: entry.name,
+    partySize: entry.partySize,
+    status: entry.status,
+    place: entry.place,
+    quotedMinutes: entry.quotedMinutes,
+    createdAt: new Date(entry.createdAt).toISOString(),
+    notifiedAt: entry.notifiedAt ? new Date(entry.notifiedAt).toISOString() : null,
+  };
+}